@@ -1,15 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { Car, FilePlus, ClipboardList, Wrench, Settings as SettingsIcon, Cloud, RefreshCw, Check, Flame, Moon, Sun } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Car, FilePlus, ClipboardList, Wrench, Settings as SettingsIcon, Cloud, CloudOff, WifiOff, RefreshCw, Check, Flame, Moon, Sun, LogOut, BarChart3 } from 'lucide-react';
 import { CarIntakeTab } from './components/CarIntakeTab';
 import { DamageAssessmentTab } from './components/DamageAssessmentTab';
 import { DashboardTab } from './components/DashboardTab';
 import { ChatAssistant } from './components/ChatAssistant';
+import { PendingChangesPanel } from './components/PendingChangesPanel';
 import { SettingsModal } from './components/SettingsModal';
+import { LoginScreen } from './components/LoginScreen';
+import { WorkshopPicker } from './components/WorkshopPicker';
+import { GroupReportModal } from './components/GroupReportModal';
 import { ToastContainer, ToastMessage, ToastType } from './components/Toast';
-import { Job, AppSettings } from './types';
-import { syncWithFirebase } from './services/firebaseService';
+import { Job, Customer, Vehicle, Invoice, Insurer, AuditEntry, Technician, Estimate, AppData, AppSettings, QuarantinedRecord, BackupArchive, OutboxEntry, UserProfile, Workshop, SyncResult } from './types';
+import { subscribeSyncProgress, SyncProgress, listUserWorkshops, saveWorkshop, saveWorkshopSettings } from './services/firebaseService';
+import { getPrimaryBackend, getMirrorBackend, issueOnChain } from './services/syncBackendService';
+import { queueChanges, settleOutbox, recordSyncFailure, getRetryDelay, getJobSyncStates } from './services/outboxService';
+import { subscribeUploadProgress, UploadProgress } from './services/cloudImageService';
+import { subscribeAuth, signOut } from './services/authService';
+import { can } from './services/permissionService';
+import { applyWorkshopSettings, getAccessibleWorkshops, pickWorkshopSettings } from './services/workshopService';
+import { upsertVehicle } from './services/vehicleService';
+import { issueInvoice, issueRectifyingInvoice, customerToFiscalParty } from './services/invoiceService';
+import { transitionJob, createStatusHistory } from './services/workflowService';
+import { diffJob, createJobCreatedEntry } from './services/auditService';
+import { stampJobChanges, mergeRemoteJobs, stampRecordChanges, stampListChanges } from './services/revisionService';
+import { getExpiredTrash, isActiveJob } from './services/archiveService';
+import { loadAppState, loadJobImages, saveJobs, saveCollection, saveSettings, saveQuarantine, saveOutbox } from './services/storageService';
+import { subscribeQuarantine, mergeQuarantine, reportQuarantine } from './services/schemaService';
+import { planRestore, runScheduledBackup } from './services/backupService';
 import { v4 as uuidv4 } from 'uuid';
 
+// Jobs whose photos are read from IndexedDB in parallel at startup
+const IMAGE_LOAD_BATCH = 10;
+
 enum Tab {
   INTAKE = 'ingreso',
   DAMAGE = 'valoracion',
@@ -19,13 +41,55 @@ enum Tab {
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>(Tab.INTAKE);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [insurers, setInsurers] = useState<Insurer[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  // Records that failed schema validation on load or sync
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+
+  // Job requested from another tab (e.g. "has been here before" links in intake)
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
   
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [settings, setSettings] = useState<AppSettings>({});
+  // Nothing is written back until the stored data has been loaded
+  const [storageReady, setStorageReady] = useState(false);
+  // Automatic backups wait until every photo has been read back
+  const [imagesReady, setImagesReady] = useState(false);
   
   // Sync Status
-  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
+  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error' | 'offline'>('idle');
+  // Changes not uploaded yet, persisted so they are retried after a reload
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOutboxOpen, setIsOutboxOpen] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  // Consecutive failed syncs, drives the retry backoff
+  const [syncFailures, setSyncFailures] = useState(0);
+  const [retryTick, setRetryTick] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [jobSyncProgress, setJobSyncProgress] = useState<SyncProgress | null>(null);
+  // Live updates start once a full sync has brought this device up to date
+  const [cloudSynced, setCloudSynced] = useState(false);
+  // Latest jobs for callbacks that outlive a render (live listener)
+  const jobsRef = useRef<Job[]>([]);
+  // Jobs whose time in the trash ran out at startup, deleted from the cloud by the first sync
+  const expiredTrashRef = useRef<string[]>([]);
+  // Invoices that could not be published, each reported once per session
+  const reportedInvoiceConflictsRef = useRef<Set<string>>(new Set());
+  // Signed-in account. Only used with a cloud configured; without one there are no accounts and no restrictions.
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [authError, setAuthError] = useState<string | undefined>();
+  // Workshops the signed-in user can work in; null until loaded (offline the device keeps its current one)
+  const [workshops, setWorkshops] = useState<Workshop[] | null>(null);
+  const [workshopsError, setWorkshopsError] = useState<string | undefined>();
+  const [workshopsTick, setWorkshopsTick] = useState(0);
+  const [isGroupReportOpen, setIsGroupReportOpen] = useState(false);
+  jobsRef.current = jobs;
 
   // Toast State
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
@@ -54,108 +118,507 @@ const App: React.FC = () => {
     setToasts(prev => prev.filter(t => t.id !== id));
   };
 
-  // Load jobs and settings from local storage on mount
+  // Collect invalid records reported by any service (subscribed before the initial load runs)
   useEffect(() => {
-    const savedJobs = localStorage.getItem('taller_jobs');
-    const savedSettings = localStorage.getItem('taller_settings');
-    
-    let initialJobs: Job[] = [];
-    let initialSettings: AppSettings = {};
+    return subscribeQuarantine(records => {
+      setQuarantine(prev => mergeQuarantine(prev, records));
+      addToast(`${records.length} registro(s) no válidos apartados en cuarentena. Revísalos en Configuración.`, 'error');
+    });
+  }, []);
 
-    if (savedJobs) {
-      try {
-        initialJobs = JSON.parse(savedJobs);
-        setJobs(initialJobs);
-      } catch (e) {
-        console.error("Failed to parse jobs from storage");
+  // Photo uploads to Firebase Storage, shown next to the sync status until the round finishes
+  useEffect(() => {
+    return subscribeUploadProgress(progress => {
+      setUploadProgress(progress.done + progress.failed < progress.total ? progress : null);
+    });
+  }, []);
+
+  // Large job uploads (first sync from a new device) are written in batches, progress shown in the navbar
+  useEffect(() => subscribeSyncProgress(setJobSyncProgress), []);
+
+  // Load everything from IndexedDB on mount (migrating the old localStorage keys the first time)
+  useEffect(() => {
+    let cancelled = false;
+
+    const init = async () => {
+      const { data: stored, settings: initialSettings, quarantine: storedQuarantine, outbox: storedOutbox } = await loadAppState();
+      if (cancelled) return;
+      // Jobs whose time in the trash is over are removed for good, here and (before syncing) in the cloud
+      const expiredIds = getExpiredTrash(stored.jobs).map(job => job.id);
+      expiredTrashRef.current = expiredIds;
+      const data = expiredIds.length > 0 ? { ...stored, jobs: stored.jobs.filter(job => !expiredIds.includes(job.id)) } : stored;
+      applySyncedData(data);
+      setSettings(initialSettings);
+      setQuarantine(prev => mergeQuarantine(storedQuarantine, prev));
+      setOutbox(storedOutbox);
+      setStorageReady(true);
+
+      // Photos are read after the job list is on screen, a few jobs at a time
+      for (let i = 0; i < data.jobs.length; i += IMAGE_LOAD_BATCH) {
+        const batch = data.jobs.slice(i, i + IMAGE_LOAD_BATCH);
+        const images = await Promise.all(batch.map(job => loadJobImages(job.id)));
+        if (cancelled) return;
+        const loaded = new Map(batch.map((job, idx) => [job.id, images[idx]]));
+        setJobs(prev => prev.map(job => {
+          const jobImages = loaded.get(job.id);
+          return jobImages && Object.keys(jobImages).length > 0 ? { ...job, ...jobImages } : job;
+        }));
       }
-    }
 
-    if (savedSettings) {
-        try {
-            initialSettings = JSON.parse(savedSettings);
-            setSettings(initialSettings);
-        } catch (e) {
-            console.error("Failed to parse settings");
-        }
-    }
+      // The initial cloud sync waits for the photos, so local originals are not replaced by the cloud thumbnails
+      setImagesReady(true);
+    };
 
-    // INITIAL DATABASE SYNC
-    if (initialSettings.firebaseConfig) {
-        setSyncStatus('syncing');
-        syncWithFirebase(initialJobs, initialSettings)
-            .then(mergedJobs => {
-                setJobs(mergedJobs);
-                setSyncStatus('synced');
-                setTimeout(() => setSyncStatus('idle'), 3000);
-            })
-            .catch(err => {
-                console.warn("Initial sync warning:", err.message);
-                setSyncStatus('error');
-            });
-    }
+    init().catch(err => {
+      console.error("Failed to load local database", err);
+      addToast("No se pudo abrir la base de datos local", "error");
+    });
 
+    return () => { cancelled = true; };
   }, []);
 
-  // Save jobs to local storage whenever they change
+  // With a cloud configured the app is used signed in: the account's role decides what the UI allows
+  // and what firestore.rules accepts
+  const firebaseConfigKey = JSON.stringify(settings.firebaseConfig || null);
+  const backend = getPrimaryBackend(settings);
   useEffect(() => {
-    try {
-      localStorage.setItem('taller_jobs', JSON.stringify(jobs));
-    } catch (error) {
-      console.error("Error saving to LocalStorage (probably quota exceeded):", error);
+    if (!storageReady) return;
+    if (!settings.firebaseConfig || !backend?.usesAccounts) {
+      setCurrentUser(null);
+      setAuthReady(true);
+      return;
     }
-  }, [jobs]);
+    setAuthReady(false);
+    return subscribeAuth(settings.firebaseConfig, ({ user, error }) => {
+      setCurrentUser(user);
+      if (user || error) setAuthError(error);
+      setAuthReady(true);
+    });
+  }, [storageReady, firebaseConfigKey, backend?.kind]);
 
-  // Save settings to local storage
+  // The workshop's settings (rates, fiscal data, series, branding) are shared by all its devices
   useEffect(() => {
-    try {
-      localStorage.setItem('taller_settings', JSON.stringify(settings));
-    } catch (error) {
-       console.error("Error saving settings:", error);
+    setWorkshops(null);
+    setWorkshopsError(undefined);
+    if (!currentUser || !settings.firebaseConfig) return;
+    let cancelled = false;
+    listUserWorkshops(settings.firebaseConfig, currentUser).then(all => {
+      if (cancelled) return;
+      const accessible = getAccessibleWorkshops(all, currentUser);
+      setWorkshops(accessible);
+      const current = accessible.find(w => w.id === settings.workshopId);
+      if (current) setSettings(prev => applyWorkshopSettings(prev, current));
+    }).catch(err => {
+      console.error("Failed to load workshops", err);
+      if (!cancelled) setWorkshopsError(`No se pudieron cargar los talleres: ${err.message}`);
+    });
+    return () => { cancelled = true; };
+  }, [currentUser?.uid, firebaseConfigKey, workshopsTick]);
+
+  // Until the list loads, the workshop this device was working for is trusted
+  const workshopSelected = !!settings.workshopId && (workshops === null || workshops.some(w => w.id === settings.workshopId));
+  const currentWorkshop = workshops?.find(w => w.id === settings.workshopId);
+  // Backends without accounts sync as soon as they are configured
+  const cloudAccess = !!backend && (!backend.usesAccounts || (!!currentUser && workshopSelected));
+  const role = currentUser?.role;
+  // Recorded on status changes and in the audit log
+  const operatorName = currentUser?.name || settings.operatorName;
+
+  // Tabs the role cannot use are hidden; fall back to the job history
+  useEffect(() => {
+    if ((activeTab === Tab.INTAKE && !can(role, 'jobs.create')) || (activeTab === Tab.DAMAGE && !can(role, 'jobs.assess'))) {
+      setActiveTab(Tab.DASHBOARD);
     }
-  }, [settings]);
+  }, [role, activeTab]);
+
+  // INITIAL DATABASE SYNC, once photos are loaded and someone is signed in (again for each new sign-in).
+  // Offline, it runs when the connection comes back (see the retry effects).
+  useEffect(() => {
+    if (!imagesReady || !cloudAccess) return;
+    setCloudSynced(false);
+    if (navigator.onLine) setRetryTick(t => t + 1);
+    else setSyncStatus('offline');
+  }, [imagesReady, currentUser?.uid, backend?.kind]);
+
+  // Jobs edited on other devices arrive as they are saved. Open forms are not touched:
+  // JobDetailsModal and DamageAssessmentTab rebase their unsaved edits onto the updated job.
+  useEffect(() => {
+    if (!cloudSynced || !cloudAccess || !backend.subscribe) return;
+    return backend.subscribe(settings, remoteJobs => {
+      const local = new Map(jobsRef.current.map(job => [job.id, job]));
+      const created = remoteJobs.filter(job => !local.has(job.id));
+      const updated = remoteJobs.filter(job => local.has(job.id) && (job.updatedAt ?? job.createdAt) > (local.get(job.id)!.updatedAt ?? local.get(job.id)!.createdAt));
+      setJobs(prev => mergeRemoteJobs(prev, remoteJobs));
+
+      const incoming = [...created, ...updated];
+      if (incoming.length === 1) {
+        const plate = incoming[0].carDetails?.plate || 'sin matrícula';
+        addToast(created.length ? `Nuevo trabajo desde otro dispositivo: ${plate}` : `Trabajo ${plate} actualizado en otro dispositivo`, "info");
+      } else if (incoming.length > 1) {
+        addToast(`${incoming.length} trabajos actualizados desde otro dispositivo`, "info");
+      }
+    }, err => {
+      console.error("Live updates failed", err);
+      setSyncStatus('error');
+    });
+  }, [cloudSynced, firebaseConfigKey, currentUser?.uid, backend?.kind]);
+
+  // Only jobs that changed are written
+  useEffect(() => {
+    if (!storageReady) return;
+    saveJobs(jobs).catch(error => {
+      console.error("Error saving jobs to IndexedDB:", error);
+      addToast("Error guardando trabajos en el dispositivo", "error");
+    });
+  }, [jobs, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('customers', customers).catch(error => console.error("Error saving customers:", error));
+  }, [customers, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('vehicles', vehicles).catch(error => console.error("Error saving vehicles:", error));
+  }, [vehicles, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('invoices', invoices).catch(error => console.error("Error saving invoices:", error));
+  }, [invoices, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('insurers', insurers).catch(error => console.error("Error saving insurers:", error));
+  }, [insurers, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('auditLog', auditLog).catch(error => console.error("Error saving audit log:", error));
+  }, [auditLog, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveCollection('technicians', technicians).catch(error => console.error("Error saving technicians:", error));
+  }, [technicians, storageReady]);
+
+  useEffect(() => {
+    if (!imagesReady) return;
+    runScheduledBackup({ jobs, customers, vehicles, invoices, insurers, auditLog, technicians }, settings)
+      .catch(error => console.error("Automatic backup failed:", error));
+  }, [jobs, customers, vehicles, invoices, insurers, auditLog, technicians, settings, imagesReady]);
+
+  useEffect(() => {
+    if (storageReady) saveOutbox(outbox).catch(error => console.error("Error saving outbox:", error));
+  }, [outbox, storageReady]);
+
+  // Pending changes are retried with backoff after a failed sync, and right away when the connection returns
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Per-job badges in the dashboard, only meaningful with a cloud configured
+  const jobSyncStates = useMemo(() => backend ? getJobSyncStates(jobs, outbox) : undefined, [jobs, outbox, backend]);
+
+  const needsRetry = cloudAccess && imagesReady && (outbox.length > 0 || !cloudSynced);
+
+  useEffect(() => {
+    if (online) setRetryTick(t => t + 1);
+    else if (backend) setSyncStatus('offline');
+  }, [online]);
+
+  useEffect(() => {
+    if (!needsRetry || !online || syncFailures === 0) return;
+    const timer = setTimeout(() => setRetryTick(t => t + 1), getRetryDelay(syncFailures));
+    return () => clearTimeout(timer);
+  }, [needsRetry, online, syncFailures]);
+
+  // Runs from an effect so the sync sees the current state, not the one from when the timer was set
+  useEffect(() => {
+    if (retryTick > 0 && needsRetry && online && syncStatus !== 'syncing') performSync({});
+  }, [retryTick]);
+
+  useEffect(() => {
+    if (storageReady) saveQuarantine(quarantine).catch(error => console.error("Error saving quarantine:", error));
+  }, [quarantine, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSettings(settings).catch(error => console.error("Error saving settings:", error));
+  }, [settings, storageReady]);
+
+  const applySyncedData = (merged: AppData) => {
+      setJobs(merged.jobs);
+      setCustomers(merged.customers);
+      setVehicles(merged.vehicles);
+      setInvoices(merged.invoices);
+      setInsurers(merged.insurers);
+      setAuditLog(merged.auditLog);
+      setTechnicians(merged.technicians);
+  };
+
+  const applySyncResult = ({ data: merged, failed }: SyncResult) => {
+      applySyncedData(merged);
+      // An invoice that could not be published (e.g. issued here offline, and another device took its number) needs a person
+      Object.entries(failed).filter(([key]) => key.startsWith('invoices:') && !reportedInvoiceConflictsRef.current.has(key)).forEach(([key, error]) => {
+          reportedInvoiceConflictsRef.current.add(key);
+          addToast(error, "error");
+      });
+      setOutbox(prev => settleOutbox(prev, merged.jobs, failed));
+      setCloudSynced(true);
+      // Records whose write failed are retried with the same backoff as a failed sync
+      if (Object.keys(failed).length > 0) {
+          setSyncFailures(n => n + 1);
+          setSyncStatus('error');
+          return;
+      }
+      setSyncFailures(0);
+      setSyncStatus('synced');
+      setTimeout(() => setSyncStatus('idle'), 3000);
+  };
+
+  // The mirror gets what the primary sync ended up with; its failures do not affect the primary
+  const pushToMirror = (data: AppData, currentSettings: AppSettings) => {
+      const mirror = getMirrorBackend(currentSettings);
+      mirror?.push?.(data, currentSettings).catch(err => {
+          console.error("Mirror push failed", err);
+          addToast(`No se pudo actualizar la copia en ${mirror.label}: ${err.message}`, "error");
+      });
+  };
+
+  const recordSyncError = (err: unknown) => {
+      setOutbox(prev => recordSyncFailure(prev, err instanceof Error ? err.message : String(err)));
+      setSyncFailures(n => n + 1);
+      setSyncStatus(navigator.onLine ? 'error' : 'offline');
+  };
+
+  // Sync current state, with `changes` holding the collections just modified (state updates are async).
+  // The changed records go to the outbox first, so they are retried if the upload fails.
+  const performSync = async (changes: Partial<AppData>, currentSettings: AppSettings = settings) => {
+      const syncBackend = getPrimaryBackend(currentSettings);
+      if (!syncBackend) return;
+      const current = { jobs, customers, vehicles, invoices, insurers, auditLog, technicians };
+      setOutbox(prev => queueChanges(prev, current, changes));
+      if (!navigator.onLine) {
+          setSyncStatus('offline');
+          return;
+      }
+
+      if (syncBackend.usesAccounts && (!currentUser || !currentSettings.workshopId)) return; // Queued until someone signs in
 
-  const performSync = async (currentJobs: Job[], currentSettings: AppSettings) => {
-      if (!currentSettings.firebaseConfig) return;
-      
       setSyncStatus('syncing');
       try {
-          const merged = await syncWithFirebase(currentJobs, currentSettings);
-          setJobs(merged);
-          setSyncStatus('synced');
-          setTimeout(() => setSyncStatus('idle'), 3000);
+          // Expired trash is purged by whoever may delete jobs; for other roles the rules would reject it
+          if (expiredTrashRef.current.length > 0 && syncBackend.deleteJobs && can(role, 'jobs.delete')) {
+              await syncBackend.deleteJobs(expiredTrashRef.current, currentSettings);
+              expiredTrashRef.current = [];
+          }
+          const result = await syncBackend.sync({ ...current, ...changes }, currentSettings, role);
+          applySyncResult(result);
+          pushToMirror(result.data, currentSettings);
       } catch (err) {
           console.error("Sync failed", err);
-          setSyncStatus('error');
+          recordSyncError(err);
       }
   };
 
-  const handleJobCreated = (newJob: Job) => {
+  const handleJobCreated = (job: Job) => {
+    const newJob = stampJobChanges(undefined, { ...job, statusHistory: job.statusHistory || createStatusHistory(job.status, job.createdAt, operatorName) });
     const updatedJobs = [newJob, ...jobs];
+    const updatedVehicles = newJob.carDetails ? upsertVehicle(vehicles, newJob.carDetails) : vehicles;
+    const updatedAuditLog = [...auditLog, createJobCreatedEntry(newJob, operatorName)];
     setJobs(updatedJobs);
+    setVehicles(updatedVehicles);
+    setAuditLog(updatedAuditLog);
     addToast("Vehículo registrado correctamente", "success");
-    performSync(updatedJobs, settings);
+    performSync({ jobs: updatedJobs, vehicles: updatedVehicles, auditLog: updatedAuditLog });
+  };
+
+  const handleCustomerCreated = (newCustomer: Customer) => {
+    const updatedCustomers = [...customers, stampRecordChanges(undefined, newCustomer)];
+    setCustomers(updatedCustomers);
+    addToast("Cliente registrado", "success");
+    performSync({ customers: updatedCustomers });
+  };
+
+  const handleInsurersChange = (changedInsurers: Insurer[]) => {
+    // Stamped so that, field by field, the latest edit from any device wins the merge
+    const updatedInsurers = stampListChanges(insurers, changedInsurers, i => i.id);
+    setInsurers(updatedInsurers);
+    performSync({ insurers: updatedInsurers });
+  };
+
+  // Stamped like insurers, so deactivating a technician is not undone by a stale copy from another device
+  const handleTechniciansChange = (changedTechnicians: Technician[]) => {
+    const updatedTechnicians = stampListChanges(technicians, changedTechnicians, t => t.id);
+    setTechnicians(updatedTechnicians);
+    performSync({ technicians: updatedTechnicians });
   };
 
   const handleUpdateJob = (jobId: string, updates: Partial<Job>) => {
-    const updatedJobs = jobs.map(job => job.id === jobId ? { ...job, ...updates } : job);
+    const current = jobs.find(j => j.id === jobId);
+    if (!current) return;
+
+    // Status changes go through the workflow so they are validated and recorded
+    let updatedJob: Job = { ...current, ...updates, status: current.status, statusHistory: current.statusHistory };
+    if (updates.status && updates.status !== current.status) {
+      try {
+        updatedJob = transitionJob(updatedJob, updates.status, operatorName);
+      } catch (error: any) {
+        addToast(`${error.message} El estado no se ha cambiado.`, "error");
+      }
+    }
+
+    // Stamp the edited fields so concurrent edits from other devices can be merged
+    updatedJob = stampJobChanges(current, updatedJob);
+
+    const updatedJobs = jobs.map(job => job.id === jobId ? updatedJob : job);
+    // Keep the registry in step with corrections made on the job (VIN, paint code...)
+    const updatedVehicles = updates.carDetails ? upsertVehicle(vehicles, updates.carDetails) : vehicles;
+    const changes = diffJob(current, updatedJob, { by: operatorName, customers, insurers, technicians });
+    const updatedAuditLog = changes.length > 0 ? [...auditLog, ...changes] : auditLog;
     setJobs(updatedJobs);
-    performSync(updatedJobs, settings);
+    setVehicles(updatedVehicles);
+    setAuditLog(updatedAuditLog);
+    performSync({ jobs: updatedJobs, vehicles: updatedVehicles, auditLog: updatedAuditLog });
+  };
+
+  // Permanent removal from the trash (also done automatically once the retention period is over)
+  const handlePurgeJob = (jobId: string) => {
+    setJobs(prev => prev.filter(job => job.id !== jobId));
+    addToast("Trabajo eliminado definitivamente", "info");
+    if (cloudAccess && backend.deleteJobs) {
+      backend.deleteJobs([jobId], settings).catch(err => {
+        console.error("Purge failed", err);
+        setSyncStatus('error');
+      });
+    }
+  };
+
+  // Downloads the full photos of a job synced from another device (only thumbnails are pulled).
+  // Not an edit: nothing is stamped or synced.
+  const handleLoadJobImages = async (job: Job): Promise<Job> => {
+    try {
+      const loaded = backend?.downloadJobImages ? await backend.downloadJobImages(job, settings) : job;
+      if (loaded !== job) {
+        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, intakeImage: loaded.intakeImage, damageImages: loaded.damageImages } : j));
+      }
+      return loaded;
+    } catch (err) {
+      console.error("Image download failed", err);
+      addToast("No se pudieron descargar las fotos, se muestran en miniatura", "error");
+      return job;
+    }
+  };
+
+  const handleIssueInvoice = async (job: Job, estimate: Estimate) => {
+    const issuer = settings.workshopFiscal;
+    if (!issuer?.name || !issuer?.nif) {
+      addToast("Configura los datos fiscales del taller antes de facturar", "error");
+      return;
+    }
+    const customer = customerToFiscalParty(customers.find(c => c.id === job.customerId));
+    if (!customer) {
+      addToast("El cliente necesita nombre y NIF para poder facturar", "error");
+      return;
+    }
+
+    try {
+      // Numbered on the server when there is one, so no other device can issue the same number
+      const invoice = await issueOnChain(backend, settings, invoices, head => issueInvoice(estimate, { job, issuer, customer, head, settings }));
+      const updatedInvoices = [...invoices, invoice];
+      setInvoices(updatedInvoices);
+      addToast(`Factura ${invoice.fullNumber} emitida`, "success");
+      performSync({ invoices: updatedInvoices });
+    } catch (err: any) {
+      addToast("Error emitiendo factura: " + err.message, "error");
+    }
+  };
+
+  const handleRectifyInvoice = async (original: Invoice, reason: string) => {
+    const issuer = settings.workshopFiscal;
+    if (!issuer?.name || !issuer?.nif) {
+      addToast("Configura los datos fiscales del taller antes de facturar", "error");
+      return;
+    }
+
+    try {
+      const invoice = await issueOnChain(backend, settings, invoices, head => issueRectifyingInvoice(original, reason, { issuer, head, settings }));
+      const updatedInvoices = [...invoices, invoice];
+      setInvoices(updatedInvoices);
+      addToast(`Factura rectificativa ${invoice.fullNumber} emitida`, "success");
+      performSync({ invoices: updatedInvoices });
+    } catch (err: any) {
+      addToast("Error emitiendo factura rectificativa: " + err.message, "error");
+    }
+  };
+
+  const handleSignOut = () => {
+      if (!settings.firebaseConfig) return;
+      if (outbox.length > 0 && !confirm(`Hay ${outbox.length} cambio(s) sin enviar. Se enviarán cuando vuelva a entrar alguien en este equipo. ¿Cerrar sesión?`)) return;
+      signOut(settings.firebaseConfig).catch(err => addToast("Error cerrando sesión: " + err.message, "error"));
+  };
+
+  // Each workshop has its own local database, so switching reloads the app on the new one.
+  // The first workshop chosen on a device takes over the data stored before workshops existed,
+  // uploading all of it again to the workshop's collections.
+  const handleSelectWorkshop = async (workshop: Workshop) => {
+      if (workshop.id === settings.workshopId) return;
+      if (settings.workshopId && outbox.length > 0
+        && !confirm(`Hay ${outbox.length} cambio(s) sin enviar en este taller. Se enviarán cuando vuelvas a él. ¿Cambiar de taller?`)) return;
+      try {
+          if (!settings.adoptedWorkshopId) {
+              const unsynced = <T extends { syncedAt?: number }>(items: T[]): T[] => items.map(item => ({ ...item, syncedAt: undefined }));
+              await saveJobs(unsynced(jobs));
+              await Promise.all([
+                  saveCollection('customers', unsynced(customers)),
+                  saveCollection('vehicles', unsynced(vehicles)),
+                  saveCollection('invoices', unsynced(invoices)),
+                  saveCollection('insurers', unsynced(insurers)),
+                  saveCollection('auditLog', unsynced(auditLog)),
+                  saveCollection('technicians', unsynced(technicians))
+              ]);
+          }
+          await saveSettings({ ...settings, workshopId: workshop.id, adoptedWorkshopId: settings.adoptedWorkshopId ?? workshop.id });
+          window.location.reload();
+      } catch (err: any) {
+          addToast("Error cambiando de taller: " + err.message, "error");
+      }
+  };
+
+  // New workshops start from the settings of the current one
+  const handleCreateWorkshop = async (name: string): Promise<Workshop> => {
+      const workshop: Workshop = { id: uuidv4(), name: name.trim(), settings: pickWorkshopSettings(settings), createdAt: Date.now() };
+      await saveWorkshop(settings.firebaseConfig!, workshop);
+      setWorkshops(prev => [...(prev || []), workshop].sort((a, b) => a.name.localeCompare(b.name)));
+      return workshop;
+  };
+
+  const handleOpenJob = (job: Job) => {
+    setOpenJobId(job.id);
+    setActiveTab(Tab.DASHBOARD);
   };
 
   const handleSaveSettings = (newSettings: AppSettings) => {
       setSettings(newSettings);
-      if (newSettings.firebaseConfig) {
+      if (newSettings.firebaseConfig && currentUser && newSettings.workshopId && can(role, 'settings.manage')) {
+          const workshopSettings = pickWorkshopSettings(newSettings);
+          saveWorkshopSettings(newSettings.firebaseConfig, newSettings.workshopId, workshopSettings)
+            .then(() => setWorkshops(prev => prev && prev.map(w => w.id === newSettings.workshopId ? { ...w, settings: workshopSettings } : w)))
+            .catch(err => addToast("Error guardando la configuración del taller: " + err.message, "error"));
+      }
+      const newBackend = getPrimaryBackend(newSettings);
+      if (newBackend?.usesAccounts && !currentUser) {
+          addToast("Configuración guardada. Inicia sesión para sincronizar", "info");
+      } else if (newBackend) {
           setSyncStatus('syncing');
-          syncWithFirebase(jobs, newSettings)
-            .then((merged) => {
-                setJobs(merged);
-                setSyncStatus('synced');
-                addToast("Conectado y Sincronizado con Firebase", "success");
-                setTimeout(() => setSyncStatus('idle'), 3000);
+          newBackend.sync({ jobs, customers, vehicles, invoices, insurers, auditLog, technicians }, newSettings)
+            .then((result) => {
+                applySyncResult(result);
+                pushToMirror(result.data, newSettings);
+                addToast(`Conectado y sincronizado con ${newBackend.label}`, "success");
             })
             .catch(err => {
-                setSyncStatus('error');
+                recordSyncError(err);
                 addToast("Error de sincronización: " + err.message, "error");
             });
       } else {
@@ -163,6 +626,76 @@ const App: React.FC = () => {
       }
   };
 
+  // Recomputed against the current state, the preview shown in settings may be slightly older
+  const handleRestoreBackup = (archive: BackupArchive) => {
+      const plan = planRestore(archive, { jobs, customers, vehicles, invoices, insurers, auditLog, technicians }, settings);
+      reportQuarantine(plan.invalid);
+      applySyncedData(plan.data);
+      setSettings(plan.settings);
+      const restored = Object.values(plan.counts).reduce((sum, c) => sum + c.added + c.overwritten, 0);
+      addToast(`Copia restaurada: ${restored} registro(s) añadidos o actualizados`, "success");
+      performSync(plan.data, plan.settings);
+  };
+
+  const settingsModal = (connectionOnly: boolean) => (
+      <SettingsModal 
+        isOpen={isSettingsOpen} 
+        onClose={() => setIsSettingsOpen(false)}
+        settings={settings}
+        insurers={insurers}
+        onSave={handleSaveSettings}
+        onInsurersChange={handleInsurersChange}
+        technicians={technicians}
+        onTechniciansChange={handleTechniciansChange}
+        onShowToast={addToast}
+        quarantine={quarantine}
+        onDiscardQuarantine={(id) => setQuarantine(prev => prev.filter(r => r.id !== id))}
+        data={{ jobs, customers, vehicles, invoices, insurers, auditLog, technicians }}
+        onRestoreBackup={handleRestoreBackup}
+        currentUser={currentUser}
+        connectionOnly={connectionOnly}
+        onCreateWorkshop={handleCreateWorkshop}
+        onWorkshopsChange={all => currentUser && setWorkshops(getAccessibleWorkshops(all, currentUser))}
+      />
+  );
+
+  // Sign-in gate: local data stays on the device but is not shown until someone signs in
+  if (settings.firebaseConfig && backend?.usesAccounts && !currentUser) {
+    return (
+      <>
+        {authReady ? (
+          <LoginScreen config={settings.firebaseConfig} error={authError} onOpenSettings={() => setIsSettingsOpen(true)} />
+        ) : (
+          <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center text-gray-400">
+            <RefreshCw className="animate-spin mr-2" size={18} /> Comprobando sesión...
+          </div>
+        )}
+        <ToastContainer toasts={toasts} removeToast={removeToast} />
+        {settingsModal(true)}
+      </>
+    );
+  }
+
+  // Workshop gate: the device works for one workshop at a time
+  if (settings.firebaseConfig && currentUser && !workshopSelected) {
+    return (
+      <>
+        <WorkshopPicker
+          workshops={workshops}
+          error={workshopsError}
+          canCreate={can(role, 'workshops.manage')}
+          onSelect={handleSelectWorkshop}
+          onCreate={handleCreateWorkshop}
+          onRetry={() => setWorkshopsTick(t => t + 1)}
+          onSignOut={handleSignOut}
+        />
+        <ToastContainer toasts={toasts} removeToast={removeToast} />
+      </>
+    );
+  }
+
+  const canOpenSettings = can(role, 'settings.manage') || can(role, 'catalog.manage') || can(role, 'users.manage');
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex flex-col font-sans transition-colors duration-300">
       {/* Navbar */}
@@ -172,15 +705,66 @@ const App: React.FC = () => {
             <div className="flex items-center">
               <Wrench className="h-8 w-8 text-blue-500 mr-3" />
               <span className="font-bold text-xl tracking-tight">TallerPro <span className="text-blue-400">AI</span></span>
+              {/* Workshop Switcher */}
+              {workshops && workshops.length > 1 ? (
+                  <select
+                    value={settings.workshopId}
+                    onChange={(e) => {
+                      const workshop = workshops.find(w => w.id === e.target.value);
+                      if (workshop) handleSelectWorkshop(workshop);
+                    }}
+                    className="ml-4 max-w-[10rem] bg-slate-800 border border-slate-700 text-sm text-gray-200 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Cambiar de taller"
+                  >
+                    {workshops.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                  </select>
+              ) : currentWorkshop && (
+                  <span className="ml-4 hidden sm:inline text-sm text-gray-400 truncate max-w-[10rem]">{currentWorkshop.name}</span>
+              )}
             </div>
             <div className="flex items-center space-x-3">
                 {/* Sync Status Indicator */}
-                {settings.firebaseConfig && (
+                {backend && (
                     <div className="flex items-center mr-2 text-xs font-medium text-gray-400 bg-slate-800 px-3 py-1.5 rounded-full border border-slate-700">
                         {syncStatus === 'syncing' && <><RefreshCw className="animate-spin w-3 h-3 mr-2 text-blue-400"/> Sync...</>}
                         {syncStatus === 'synced' && <><Check className="w-3 h-3 mr-2 text-green-400"/> Al día</>}
                         {syncStatus === 'error' && <><Flame className="w-3 h-3 mr-2 text-red-400"/> Error Sync</>}
-                        {syncStatus === 'idle' && <><Flame className="w-3 h-3 mr-2 text-orange-500"/> Firebase ON</>}
+                        {syncStatus === 'idle' && <>{backend.kind === 'firebase' ? <Flame className="w-3 h-3 mr-2 text-orange-500"/> : <Cloud className="w-3 h-3 mr-2 text-green-400"/>} {backend.label} ON</>}
+                        {syncStatus === 'offline' && <><WifiOff className="w-3 h-3 mr-2 text-amber-400"/> Sin conexión</>}
+                        {jobSyncProgress && jobSyncProgress.total > 20 && (
+                          <span className="ml-2 pl-2 border-l border-slate-600 text-blue-300">
+                            Trabajos {Math.round((jobSyncProgress.done / jobSyncProgress.total) * 100)}%
+                          </span>
+                        )}
+                        {uploadProgress && (
+                          <span className="ml-2 pl-2 border-l border-slate-600 text-blue-300" title={`${Math.round(uploadProgress.bytesTransferred / 1024)} / ${Math.round(uploadProgress.totalBytes / 1024)} KB`}>
+                            Fotos {uploadProgress.done}/{uploadProgress.total}
+                            {uploadProgress.totalBytes > 0 && ` · ${Math.round((uploadProgress.bytesTransferred / uploadProgress.totalBytes) * 100)}%`}
+                          </span>
+                        )}
+                    </div>
+                )}
+
+                {/* Pending Changes */}
+                {backend && outbox.length > 0 && (
+                    <div className="relative mr-2">
+                        <button
+                          onClick={() => setIsOutboxOpen(!isOutboxOpen)}
+                          className={`flex items-center text-xs font-medium px-3 py-1.5 rounded-full border ${outbox.some(e => e.lastError) ? 'text-red-300 border-red-800 bg-red-900/30' : 'text-amber-300 border-amber-800 bg-amber-900/30'}`}
+                          title="Cambios pendientes de enviar"
+                        >
+                          <CloudOff className="w-3 h-3 mr-1" /> {outbox.length} pendiente{outbox.length === 1 ? '' : 's'}
+                        </button>
+                        {isOutboxOpen && (
+                          <PendingChangesPanel
+                            entries={outbox}
+                            online={online}
+                            syncing={syncStatus === 'syncing'}
+                            failures={syncFailures}
+                            onRetry={() => performSync({})}
+                            onClose={() => setIsOutboxOpen(false)}
+                          />
+                        )}
                     </div>
                 )}
                 
@@ -193,6 +777,17 @@ const App: React.FC = () => {
                   {darkMode ? <Sun size={20} /> : <Moon size={20} />}
                 </button>
 
+                {workshops && workshops.length > 1 && can(role, 'reports.group') && (
+                <button
+                    onClick={() => setIsGroupReportOpen(true)}
+                    className="p-2 rounded-full hover:bg-slate-800 text-gray-300 hover:text-white transition-colors"
+                    title="Informe del grupo"
+                >
+                    <BarChart3 size={20} />
+                </button>
+                )}
+
+                {canOpenSettings && (
                 <button 
                     onClick={() => setIsSettingsOpen(true)}
                     className="p-2 rounded-full hover:bg-slate-800 text-gray-300 hover:text-white transition-colors"
@@ -200,6 +795,24 @@ const App: React.FC = () => {
                 >
                     <SettingsIcon size={20} />
                 </button>
+                )}
+
+                {/* Signed-in User */}
+                {currentUser && (
+                    <div className="flex items-center pl-3 border-l border-slate-700">
+                        <div className="hidden sm:block text-right mr-2 leading-tight">
+                            <div className="text-sm font-medium">{currentUser.name}</div>
+                            <div className="text-xs text-gray-400">{currentUser.role}</div>
+                        </div>
+                        <button
+                          onClick={handleSignOut}
+                          className="p-2 rounded-full hover:bg-slate-800 text-gray-300 hover:text-white transition-colors"
+                          title="Cerrar sesión"
+                        >
+                          <LogOut size={20} />
+                        </button>
+                    </div>
+                )}
             </div>
           </div>
         </div>
@@ -208,6 +821,7 @@ const App: React.FC = () => {
       {/* Tab Navigation */}
       <div className="bg-white dark:bg-slate-800 shadow border-b border-gray-200 dark:border-slate-700 sticky top-16 z-30 transition-colors duration-300">
         <div className="max-w-4xl mx-auto flex">
+          {can(role, 'jobs.create') && (
           <button
             onClick={() => setActiveTab(Tab.INTAKE)}
             className={`flex-1 py-4 px-4 text-center font-medium text-sm flex items-center justify-center border-b-2 transition-colors ${
@@ -219,6 +833,8 @@ const App: React.FC = () => {
             <FilePlus className="w-5 h-5 mr-2" />
             1. Ingreso Vehículo
           </button>
+          )}
+          {can(role, 'jobs.assess') && (
           <button
             onClick={() => setActiveTab(Tab.DAMAGE)}
             className={`flex-1 py-4 px-4 text-center font-medium text-sm flex items-center justify-center border-b-2 transition-colors ${
@@ -230,6 +846,7 @@ const App: React.FC = () => {
             <Car className="w-5 h-5 mr-2" />
             2. Valoración Daños
           </button>
+          )}
           <button
             onClick={() => setActiveTab(Tab.DASHBOARD)}
             className={`flex-1 py-4 px-4 text-center font-medium text-sm flex items-center justify-center border-b-2 transition-colors ${
@@ -246,23 +863,50 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === Tab.INTAKE && (
+        {activeTab === Tab.INTAKE && can(role, 'jobs.create') && (
           <CarIntakeTab 
+            jobs={jobs}
+            vehicles={vehicles}
+            customers={customers}
+            onCustomerCreated={handleCustomerCreated}
             onJobCreated={handleJobCreated} 
-            switchToDamageTab={() => setActiveTab(Tab.DAMAGE)} 
+            switchToDamageTab={() => setActiveTab(can(role, 'jobs.assess') ? Tab.DAMAGE : Tab.DASHBOARD)} 
+            onOpenJob={handleOpenJob}
+            settings={settings}
           />
         )}
         
-        {activeTab === Tab.DAMAGE && (
+        {activeTab === Tab.DAMAGE && can(role, 'jobs.assess') && (
           <DamageAssessmentTab 
-            activeJobs={jobs} 
+            activeJobs={jobs.filter(isActiveJob)} 
             onUpdateJob={handleUpdateJob} 
             onShowToast={addToast}
+            settings={settings}
           />
         )}
 
         {activeTab === Tab.DASHBOARD && (
-          <DashboardTab jobs={jobs} onUpdateJob={handleUpdateJob} />
+          <DashboardTab 
+            jobs={jobs} 
+            vehicles={vehicles}
+            customers={customers}
+            laborRates={settings.laborRates}
+            branding={settings.branding}
+            invoices={invoices}
+            insurers={insurers}
+            auditLog={auditLog}
+            technicians={technicians}
+            onUpdateJob={handleUpdateJob} 
+            onPurgeJob={handlePurgeJob}
+            onLoadJobImages={handleLoadJobImages}
+            syncStates={jobSyncStates}
+            onIssueInvoice={handleIssueInvoice}
+            onRectifyInvoice={handleRectifyInvoice}
+            onCustomerCreated={handleCustomerCreated}
+            openJobId={openJobId}
+            onJobOpened={() => setOpenJobId(null)}
+            role={role}
+          />
         )}
       </main>
 
@@ -273,16 +917,13 @@ const App: React.FC = () => {
         </div>
       </footer>
 
-      <ChatAssistant />
+      <ChatAssistant settings={settings} />
       <ToastContainer toasts={toasts} removeToast={removeToast} />
       
-      <SettingsModal 
-        isOpen={isSettingsOpen} 
-        onClose={() => setIsSettingsOpen(false)}
-        settings={settings}
-        onSave={handleSaveSettings}
-        onShowToast={addToast}
-      />
+      {settingsModal(false)}
+      {isGroupReportOpen && settings.firebaseConfig && workshops && (
+        <GroupReportModal config={settings.firebaseConfig} workshops={workshops} onClose={() => setIsGroupReportOpen(false)} />
+      )}
     </div>
   );
 };
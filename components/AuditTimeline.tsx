@@ -0,0 +1,58 @@
+import React from 'react';
+import { AuditAction, AuditEntry } from '../types';
+import { Sparkles, Image as ImageIcon, Pencil, Plus, Minus, FilePlus, Archive, ArchiveRestore, Trash2, RotateCcw } from 'lucide-react';
+
+interface Props {
+  entries: AuditEntry[]; // Newest first
+}
+
+const getActionIcon = (action: AuditAction) => {
+  switch (action) {
+    case AuditAction.CREATED: return <FilePlus size={12} />;
+    case AuditAction.PHOTO_ADDED:
+    case AuditAction.PHOTO_REMOVED:
+    case AuditAction.PHOTO_EDITED: return <ImageIcon size={12} />;
+    case AuditAction.PART_ADDED: return <Plus size={12} />;
+    case AuditAction.PART_REMOVED: return <Minus size={12} />;
+    case AuditAction.ARCHIVED: return <Archive size={12} />;
+    case AuditAction.UNARCHIVED: return <ArchiveRestore size={12} />;
+    case AuditAction.DELETED: return <Trash2 size={12} />;
+    case AuditAction.RESTORED: return <RotateCcw size={12} />;
+    default: return <Pencil size={12} />;
+  }
+};
+
+export const AuditTimeline: React.FC<Props> = ({ entries }) => {
+  if (entries.length === 0) {
+    return <p className="text-gray-400 italic text-sm">No hay cambios registrados para este trabajo.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-slate-700 ml-2 space-y-4">
+      {entries.map(entry => (
+        <li key={entry.id} className="relative pl-5">
+          <span className="absolute -left-2.5 top-0 flex items-center justify-center w-5 h-5 rounded-full bg-blue-100 text-blue-600 dark:bg-slate-700 dark:text-blue-300">
+            {getActionIcon(entry.action)}
+          </span>
+          <div className="text-xs text-gray-400">
+            {new Date(entry.at).toLocaleString()}{entry.by ? ` · ${entry.by}` : ''}
+          </div>
+          <div className="text-sm text-gray-800 dark:text-gray-200">
+            <span className="font-medium">{entry.field ? `${entry.action} · ${entry.field}` : entry.action}</span>
+            {entry.aiGenerated && (
+              <span className="ml-2 inline-flex items-center text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">
+                <Sparkles size={10} className="mr-1" /> IA
+              </span>
+            )}
+          </div>
+          {(entry.from || entry.to) && (
+            <div className="text-xs text-gray-600 dark:text-gray-400 mt-0.5 break-words">
+              {entry.from && <span className="line-through text-red-500/80 mr-2">{entry.from}</span>}
+              {entry.to && <span className="text-green-700 dark:text-green-400">{entry.to}</span>}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
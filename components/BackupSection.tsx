@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppData, AppSettings, AutoBackupSettings, BackupArchive } from '../types';
+import { createBackup, downloadBackup, downloadFile, parseBackup, planRestore } from '../services/backupService';
+import { listLocalBackups, loadLocalBackup, LocalBackup } from '../services/storageService';
+import { ToastType } from './Toast';
+import { Archive, Download, Upload, RotateCcw } from 'lucide-react';
+
+interface Props {
+  data: AppData;
+  settings: AppSettings;
+  autoBackup: AutoBackupSettings;
+  onAutoBackupChange: (autoBackup: AutoBackupSettings) => void; // Saved with the rest of the settings
+  onRestore: (archive: BackupArchive) => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+const COLLECTION_LABELS: Record<keyof AppData, string> = {
+  jobs: 'Trabajos',
+  customers: 'Clientes',
+  vehicles: 'Vehículos',
+  invoices: 'Facturas',
+  insurers: 'Aseguradoras',
+  auditLog: 'Registro de cambios',
+  technicians: 'Técnicos'
+};
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const BackupSection: React.FC<Props> = ({ data, settings, autoBackup, onAutoBackupChange, onRestore, onShowToast }) => {
+  const [localBackups, setLocalBackups] = useState<LocalBackup[]>([]);
+  const [pending, setPending] = useState<BackupArchive | null>(null);
+
+  useEffect(() => {
+    listLocalBackups().then(setLocalBackups).catch(err => console.error("Error listing backups", err));
+  }, []);
+
+  const preview = useMemo(() => pending ? planRestore(pending, data, settings) : null, [pending, data, settings]);
+
+  const openArchive = (text: string) => {
+    try {
+      setPending(parseBackup(text));
+    } catch (e: any) {
+      onShowToast(e.message, 'error');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) openArchive(await file.text());
+  };
+
+  const handleLocalBackup = async (backup: LocalBackup, action: 'download' | 'restore') => {
+    const blob = await loadLocalBackup(backup.id);
+    if (!blob) {
+      onShowToast("No se encontró la copia", 'error');
+      return;
+    }
+    if (action === 'download') {
+      downloadFile(blob, `tallerpro_copia_${new Date(backup.createdAt).toISOString().slice(0, 10)}.json`);
+    } else {
+      openArchive(await blob.text());
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!pending) return;
+    onRestore(pending);
+    setPending(null);
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+          <Archive size={16} className="mr-1"/> Copia de seguridad
+      </h3>
+      <p className="text-xs text-gray-500 mb-2">
+        Incluye trabajos con las fotos originales, clientes, facturas y configuración. Las credenciales de conexión no se exportan.
+      </p>
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={() => downloadBackup(createBackup(data, settings))}
+          className="flex-1 bg-orange-600 text-white px-3 py-2 rounded hover:bg-orange-700 flex items-center justify-center text-sm"
+        >
+          <Download size={14} className="mr-1" /> Exportar copia
+        </button>
+        <label className="flex-1 bg-white border border-orange-600 text-orange-700 px-3 py-2 rounded hover:bg-orange-50 flex items-center justify-center text-sm cursor-pointer">
+          <Upload size={14} className="mr-1" /> Importar copia
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {/* Restore Preview */}
+      {pending && preview && (
+        <div className="border border-orange-200 bg-orange-50 rounded p-3 mb-3 text-sm">
+          <div className="font-bold text-orange-800 mb-2">
+            Copia del {new Date(pending.createdAt).toLocaleString()}
+          </div>
+          <table className="w-full text-xs mb-2">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium"></th>
+                <th className="text-right font-medium">Nuevos</th>
+                <th className="text-right font-medium">Sobrescritos</th>
+                <th className="text-right font-medium">Omitidos</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(COLLECTION_LABELS) as (keyof AppData)[]).map(key => (
+                <tr key={key} className="text-gray-700">
+                  <td>{COLLECTION_LABELS[key]}</td>
+                  <td className="text-right">{preview.counts[key].added}</td>
+                  <td className={`text-right ${preview.counts[key].overwritten > 0 ? 'font-bold text-orange-700' : ''}`}>{preview.counts[key].overwritten}</td>
+                  <td className="text-right">{preview.counts[key].skipped}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mb-2">
+            Las facturas emitidas y el registro de cambios nunca se sobrescriben. La configuración se sustituye por la de la copia.
+          </p>
+          {preview.invalid.length > 0 && (
+            <p className="text-xs text-red-700 mb-2">
+              {preview.invalid.length} registro(s) no son válidos y se apartarán en cuarentena.
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPending(null)} className="px-3 py-1.5 text-gray-600 hover:bg-gray-200 rounded">Cancelar</button>
+            <button onClick={confirmRestore} className="px-3 py-1.5 bg-orange-600 text-white rounded hover:bg-orange-700 flex items-center">
+              <RotateCcw size={14} className="mr-1" /> Restaurar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Automatic Backups */}
+      <div className="grid grid-cols-12 gap-2 items-center text-sm mb-2">
+        <label className="col-span-6 text-xs text-gray-600 flex items-center">
+          <input
+            type="checkbox"
+            checked={autoBackup.enabled}
+            onChange={(e) => onAutoBackupChange({ ...autoBackup, enabled: e.target.checked })}
+            className="mr-1"
+          />
+          Copias automáticas en este equipo
+        </label>
+        <select
+          value={autoBackup.intervalHours}
+          onChange={(e) => onAutoBackupChange({ ...autoBackup, intervalHours: Number(e.target.value) })}
+          disabled={!autoBackup.enabled}
+          className="col-span-3 p-1.5 border border-gray-300 rounded bg-white text-gray-900 text-xs focus:ring-2 focus:ring-orange-500 outline-none"
+        >
+          <option value={12}>Cada 12 h</option>
+          <option value={24}>Diaria</option>
+          <option value={168}>Semanal</option>
+        </select>
+        <label className="col-span-3 text-xs text-gray-500 flex items-center" title="Número de copias que se conservan">
+          Conservar
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={autoBackup.retention}
+            onChange={(e) => onAutoBackupChange({ ...autoBackup, retention: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+            disabled={!autoBackup.enabled}
+            className="w-12 mx-1 p-1 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+        </label>
+      </div>
+      {localBackups.length > 0 && (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded">
+          {localBackups.map(backup => (
+            <div key={backup.id} className="flex justify-between items-center px-2 py-1.5 text-xs">
+              <span className="text-gray-700">
+                {new Date(backup.createdAt).toLocaleString()}
+                <span className="text-gray-400 ml-2">{backup.jobs} trabajos · {formatSize(backup.size)}</span>
+              </span>
+              <span className="flex gap-1">
+                <button onClick={() => handleLocalBackup(backup, 'download')} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title="Descargar">
+                  <Download size={14} />
+                </button>
+                <button onClick={() => handleLocalBackup(backup, 'restore')} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title="Restaurar">
+                  <RotateCcw size={14} />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,31 @@
 import React, { useState } from 'react';
 import { ImageUploader } from './ImageUploader';
-import { identifyCarFromImage } from '../services/geminiService';
-import { CarDetails, Job, JobStatus } from '../types';
+import { identifyCarFromImage } from '../services/aiProviderService';
+import { AppSettings, CarDetails, Customer, Job, JobStatus, Vehicle } from '../types';
 import { Spinner } from './Spinner';
-import { ArrowRight, CheckCircle, Keyboard, RefreshCcw, Car, Camera } from 'lucide-react';
+import { CustomerSelector } from './CustomerSelector';
+import { VehicleHistory } from './VehicleHistory';
+import { findVehicle, applyKnownVehicle, getVehicleHistory } from '../services/vehicleService';
+import { ArrowRight, CheckCircle, Keyboard, RefreshCcw, Car, Camera, User, History } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 interface Props {
+  jobs: Job[];
+  vehicles: Vehicle[];
+  customers: Customer[];
+  onCustomerCreated: (customer: Customer) => void;
   onJobCreated: (job: Job) => void;
   switchToDamageTab: () => void;
+  onOpenJob: (job: Job) => void;
+  settings: AppSettings;
 }
 
-export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab }) => {
+export const CarIntakeTab: React.FC<Props> = ({ jobs, vehicles, customers, onCustomerCreated, onJobCreated, switchToDamageTab, onOpenJob, settings }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentImage, setCurrentImage] = useState<string | null>(null);
   const [carDetails, setCarDetails] = useState<CarDetails | null>(null);
+  const [customerId, setCustomerId] = useState<string | undefined>(undefined);
 
   const handleImageSelected = async (base64: string) => {
     setCurrentImage(base64);
@@ -23,8 +33,10 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
     setError(null);
     
     try {
-      const details = await identifyCarFromImage(base64);
-      setCarDetails(details);
+      const details = await identifyCarFromImage(base64, settings);
+      // Auto-fill with what we already know if this car has been here before
+      const known = findVehicle(vehicles, details.plate);
+      setCarDetails(known ? applyKnownVehicle(details, known) : details);
     } catch (err: any) {
       console.error(err);
       // Show the actual error message to help debug "Safety" or "Quota" issues
@@ -60,6 +72,7 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
 
   const resetForm = () => {
     setCarDetails(null);
+    setCustomerId(undefined);
     setCurrentImage(null);
     setError(null);
   };
@@ -71,6 +84,7 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
       id: uuidv4(),
       createdAt: Date.now(),
       status: JobStatus.INTAKE,
+      customerId,
       carDetails: carDetails,
       intakeImage: currentImage || undefined, // Image is optional for manual entry
       identifiedParts: [],
@@ -85,6 +99,9 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
 
   const isFormValid = carDetails && carDetails.plate && carDetails.make && carDetails.model;
 
+  const knownVehicle = carDetails ? findVehicle(vehicles, carDetails.plate) : undefined;
+  const previousJobs = knownVehicle ? getVehicleHistory(jobs, knownVehicle.plate) : [];
+
   return (
     <div className="max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm p-6 transition-all duration-300">
       <div className="flex justify-between items-center mb-4">
@@ -173,6 +190,27 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
              </div>
           )}
           
+          {/* Returning Vehicle Banner */}
+          {knownVehicle && (
+            <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg animate-fade-in">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center">
+                  <History className="text-amber-600 dark:text-amber-400 mr-2" size={18} />
+                  <span className="text-sm font-bold text-amber-800 dark:text-amber-200">
+                    Este vehículo ya ha estado en el taller ({previousJobs.length} {previousJobs.length === 1 ? 'trabajo' : 'trabajos'})
+                  </span>
+                </div>
+                <button
+                  onClick={() => setCarDetails(applyKnownVehicle(carDetails, knownVehicle))}
+                  className="text-xs font-medium text-amber-700 dark:text-amber-300 hover:underline"
+                >
+                  Rellenar datos conocidos
+                </button>
+              </div>
+              <VehicleHistory jobs={previousJobs} onOpenJob={onOpenJob} compact />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-8">
             <div>
               <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">Matrícula</label>
@@ -214,6 +252,50 @@ export const CarIntakeTab: React.FC<Props> = ({ onJobCreated, switchToDamageTab
                 className="w-full bg-white dark:bg-slate-700 text-gray-900 dark:text-white border-gray-300 dark:border-slate-600 rounded-lg p-3 border font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               />
             </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">Año</label>
+              <input 
+                type="text" 
+                value={carDetails.year || ''} 
+                onChange={(e) => setCarDetails({...carDetails, year: e.target.value})}
+                placeholder="Ej: 2019"
+                className="w-full bg-white dark:bg-slate-700 text-gray-900 dark:text-white border-gray-300 dark:border-slate-600 rounded-lg p-3 border font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">Código Pintura</label>
+              <input 
+                type="text" 
+                value={carDetails.paintCode || ''} 
+                onChange={(e) => setCarDetails({...carDetails, paintCode: e.target.value})}
+                placeholder="Ej: 1G3"
+                className="w-full bg-white dark:bg-slate-700 text-gray-900 dark:text-white border-gray-300 dark:border-slate-600 rounded-lg p-3 border font-mono font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">Bastidor (VIN)</label>
+              <input 
+                type="text" 
+                value={carDetails.vin || ''} 
+                onChange={(e) => setCarDetails({...carDetails, vin: e.target.value})}
+                placeholder="17 caracteres"
+                maxLength={17}
+                className="w-full bg-white dark:bg-slate-700 text-gray-900 dark:text-white border-gray-300 dark:border-slate-600 rounded-lg p-3 border font-mono font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
+              />
+            </div>
+          </div>
+
+          {/* Customer */}
+          <div className="mb-8">
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2 flex items-center">
+              <User size={12} className="mr-1" /> Cliente
+            </label>
+            <CustomerSelector
+              customers={customers}
+              selectedCustomerId={customerId}
+              onSelect={setCustomerId}
+              onCreate={onCustomerCreated}
+            />
           </div>
 
           <div className="flex space-x-3">
@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquare, X, Send, Search, Zap } from 'lucide-react';
-import { sendAssistantMessage } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { sendAssistantMessage, getAiProvider } from '../services/aiProviderService';
+import { AppSettings, ChatMessage } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { Spinner } from './Spinner';
 
-export const ChatAssistant: React.FC = () => {
+interface Props {
+  settings: AppSettings;
+}
+
+export const ChatAssistant: React.FC<Props> = ({ settings }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
     { id: 'init', role: 'model', text: 'Hola. Soy el asistente de TallerPro. ¿Necesitas buscar códigos de pintura o manuales de reparación?' }
@@ -14,6 +18,7 @@ export const ChatAssistant: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [useSearch, setUseSearch] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const provider = getAiProvider(settings);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -30,7 +35,7 @@ export const ChatAssistant: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const { text, sources } = await sendAssistantMessage(userMsg.text, useSearch);
+      const { text, sources } = await sendAssistantMessage(userMsg.text, settings, useSearch);
       
       // Defensive coding: Ensure sources is strictly typed and nulls are removed
       // This fixes the build error even if the service returns mixed types
@@ -80,7 +85,10 @@ export const ChatAssistant: React.FC = () => {
 
       {/* Config Bar */}
       <div className="bg-gray-100 p-2 flex items-center justify-between text-xs border-b">
-        <span className="text-gray-600 font-medium ml-2">Modelo: {useSearch ? 'Gemini Flash' : 'Gemini Pro'}</span>
+        <span className="text-gray-600 font-medium ml-2">
+          Modelo: {provider.kind === 'gemini' ? (useSearch ? 'Gemini Flash' : 'Gemini Pro') : provider.kind === 'openai' ? settings.openAiCompatible?.model || provider.label : provider.label}
+        </span>
+        {provider.supportsSearch && (
         <button 
             onClick={() => setUseSearch(!useSearch)}
             className={`flex items-center px-2 py-1 rounded transition-colors ${useSearch ? 'bg-blue-100 text-blue-700 border border-blue-200' : 'bg-gray-200 text-gray-600'}`}
@@ -88,6 +96,7 @@ export const ChatAssistant: React.FC = () => {
             <Search size={12} className="mr-1" />
             {useSearch ? 'Búsqueda Google ON' : 'Búsqueda OFF'}
         </button>
+        )}
       </div>
 
       {/* Messages */}
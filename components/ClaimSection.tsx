@@ -0,0 +1,107 @@
+import React from 'react';
+import { ClaimStatus, InsuranceClaim, Insurer } from '../types';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+
+interface Props {
+  claim?: InsuranceClaim;
+  insurers: Insurer[];
+  onChange: (claim: InsuranceClaim | undefined) => void;
+}
+
+export const ClaimSection: React.FC<Props> = ({ claim, insurers, onChange }) => {
+  // Inactive insurers stay selectable only if already assigned to this claim
+  const selectableInsurers = insurers.filter(i => i.active || i.id === claim?.insurerId);
+
+  const update = (fields: Partial<InsuranceClaim>) => {
+    if (!claim) return;
+    onChange({ ...claim, ...fields });
+  };
+
+  const openClaim = () => {
+    const first = insurers.find(i => i.active);
+    if (!first) {
+      alert('Da de alta una aseguradora en Configuración antes de abrir un siniestro.');
+      return;
+    }
+    onChange({ insurerId: first.id, status: ClaimStatus.PENDING_INSPECTION });
+  };
+
+  const removeClaim = () => {
+    if (confirm('¿Quitar los datos del siniestro? El trabajo pasará a ser de pago particular.')) {
+      onChange(undefined);
+    }
+  };
+
+  const inputClass = "w-full p-2 border border-gray-300 dark:border-slate-600 rounded text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+  const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+  if (!claim) {
+    return (
+      <div className="flex items-center justify-between p-3 bg-white dark:bg-slate-800 border dark:border-slate-600 rounded-lg">
+        <span className="text-sm text-gray-500 dark:text-gray-400 italic">Pago particular (sin aseguradora).</span>
+        <button onClick={openClaim} className="text-sm px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 flex items-center">
+          <ShieldCheck size={14} className="mr-1" /> Abrir siniestro
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Aseguradora</label>
+          <select value={claim.insurerId} onChange={(e) => update({ insurerId: e.target.value })} className={inputClass}>
+            {selectableInsurers.map(i => (
+              <option key={i.id} value={i.id}>{i.name}{!i.active ? ' (inactiva)' : ''}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Nº Póliza</label>
+          <input value={claim.policyNumber || ''} onChange={(e) => update({ policyNumber: e.target.value || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Nº Siniestro</label>
+          <input value={claim.claimNumber || ''} onChange={(e) => update({ claimNumber: e.target.value || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Perito</label>
+          <input value={claim.peritoName || ''} onChange={(e) => update({ peritoName: e.target.value || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Fecha de peritación</label>
+          <input
+            type="date"
+            value={claim.inspectionDate || ''}
+            onChange={(e) => update({ inspectionDate: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Franquicia (€)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={claim.franchise ?? ''}
+            onChange={(e) => update({ franchise: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between gap-3">
+        <div className="flex-1">
+          <label className={labelClass}>Estado del siniestro</label>
+          <select value={claim.status} onChange={(e) => update({ status: e.target.value as ClaimStatus })} className={inputClass}>
+            {Object.values(ClaimStatus).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+        <button onClick={removeClaim} className="text-gray-400 hover:text-red-500 p-2" title="Quitar siniestro">
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import { Customer } from '../types';
+import { User, UserPlus, Search, X, Phone, Mail } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+
+interface Props {
+  customers: Customer[];
+  selectedCustomerId?: string;
+  onSelect: (customerId: string | undefined) => void;
+  onCreate: (customer: Customer) => void;
+}
+
+const emptyDraft = { name: '', phone: '', email: '', nif: '', address: '' };
+
+export const CustomerSelector: React.FC<Props> = ({ customers, selectedCustomerId, onSelect, onCreate }) => {
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
+
+  // Match by name, phone or NIF so the front desk can find a customer with whatever they have at hand
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return customers.filter(c =>
+      c.name.toLowerCase().includes(q) ||
+      (c.phone || '').replace(/\s/g, '').includes(q.replace(/\s/g, '')) ||
+      (c.nif || '').toLowerCase().includes(q)
+    ).slice(0, 6);
+  }, [customers, query]);
+
+  const handleCreate = () => {
+    if (!draft.name.trim()) return;
+
+    const newCustomer: Customer = {
+      id: uuidv4(),
+      createdAt: Date.now(),
+      name: draft.name.trim(),
+      phone: draft.phone.trim() || undefined,
+      email: draft.email.trim() || undefined,
+      nif: draft.nif.trim().toUpperCase() || undefined,
+      address: draft.address.trim() || undefined
+    };
+
+    onCreate(newCustomer);
+    onSelect(newCustomer.id);
+    setDraft(emptyDraft);
+    setIsCreating(false);
+    setQuery('');
+  };
+
+  const inputClass = "w-full p-2.5 border border-gray-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  // SELECTED STATE
+  if (selectedCustomer) {
+    return (
+      <div className="flex items-start justify-between p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+        <div className="flex items-start">
+          <User className="text-green-600 dark:text-green-400 mr-3 mt-0.5" size={20} />
+          <div>
+            <div className="font-bold text-gray-800 dark:text-white">{selectedCustomer.name}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 space-x-3 mt-1">
+              {selectedCustomer.nif && <span>{selectedCustomer.nif}</span>}
+              {selectedCustomer.phone && <span className="inline-flex items-center"><Phone size={10} className="mr-1"/>{selectedCustomer.phone}</span>}
+              {selectedCustomer.email && <span className="inline-flex items-center"><Mail size={10} className="mr-1"/>{selectedCustomer.email}</span>}
+            </div>
+            {selectedCustomer.address && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{selectedCustomer.address}</div>}
+          </div>
+        </div>
+        <button
+          onClick={() => onSelect(undefined)}
+          className="text-gray-400 hover:text-red-500 p-1"
+          title="Cambiar Cliente"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  // CREATE STATE
+  if (isCreating) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 rounded-lg space-y-3 animate-fade-in">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Nombre y apellidos / Razón social *"
+            className={`${inputClass} md:col-span-2`}
+          />
+          <input
+            value={draft.nif}
+            onChange={(e) => setDraft({ ...draft, nif: e.target.value })}
+            placeholder="NIF / DNI"
+            className={`${inputClass} uppercase`}
+          />
+          <input
+            value={draft.phone}
+            onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+            placeholder="Teléfono"
+            type="tel"
+            className={inputClass}
+          />
+          <input
+            value={draft.email}
+            onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+            placeholder="Email"
+            type="email"
+            className={inputClass}
+          />
+          <input
+            value={draft.address}
+            onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+            placeholder="Dirección"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => { setIsCreating(false); setDraft(emptyDraft); }}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!draft.name.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+          >
+            <UserPlus size={14} className="mr-2" /> Guardar Cliente
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // SEARCH STATE
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar por nombre, teléfono o NIF..."
+            className={`${inputClass} pl-9`}
+          />
+        </div>
+        <button
+          onClick={() => { setIsCreating(true); setDraft({ ...emptyDraft, name: query }); }}
+          className="px-3 bg-gray-800 dark:bg-slate-900 text-white rounded-lg hover:bg-black transition-colors flex items-center text-sm font-medium"
+          title="Nuevo Cliente"
+        >
+          <UserPlus size={16} className="mr-1" /> Nuevo
+        </button>
+      </div>
+      {matches.length > 0 && (
+        <div className="border border-gray-200 dark:border-slate-600 rounded-lg divide-y divide-gray-100 dark:divide-slate-700 bg-white dark:bg-slate-800 overflow-hidden">
+          {matches.map(c => (
+            <button
+              key={c.id}
+              onClick={() => { onSelect(c.id); setQuery(''); }}
+              className="w-full text-left px-3 py-2 hover:bg-blue-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              <div className="text-sm font-medium text-gray-900 dark:text-white">{c.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{[c.nif, c.phone].filter(Boolean).join(' · ')}</div>
+            </button>
+          ))}
+        </div>
+      )}
+      {query.trim() && matches.length === 0 && (
+        <p className="text-xs text-gray-400 italic">Sin coincidencias. Pulsa "Nuevo" para registrar el cliente.</p>
+      )}
+    </div>
+  );
+};
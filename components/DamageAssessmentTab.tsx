@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Job, JobStatus } from '../types';
+import { AppSettings, DamagePart, Job, JobStatus, RepairType } from '../types';
 import { ImageUploader } from './ImageUploader';
-import { analyzeDamageFromImage } from '../services/geminiService';
+import { DamagePartsEditor } from './DamagePartsEditor';
+import { analyzeDamageFromImage } from '../services/aiProviderService';
+import { createDamagePart } from '../services/damageService';
+import { getPostAssessmentStatus } from '../services/claimService';
+import { getChangedFields } from '../services/revisionService';
+import { WorkflowStage, getStage, checkTransition } from '../services/workflowService';
 import { Spinner } from './Spinner';
 import { Save, AlertTriangle, Wrench, PaintBucket, Car } from 'lucide-react';
 import { ToastType } from './Toast';
@@ -10,35 +15,45 @@ interface Props {
   activeJobs: Job[];
   onUpdateJob: (jobId: string, updates: Partial<Job>) => void;
   onShowToast: (msg: string, type: ToastType) => void;
+  settings: AppSettings;
 }
 
-export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob, onShowToast }) => {
+export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob, onShowToast, settings }) => {
   // Filter for relevant jobs
-  const intakeJobs = activeJobs.filter(j => j.status === JobStatus.INTAKE || j.status === JobStatus.ASSESSING);
+  const intakeJobs = activeJobs.filter(j => getStage(j.status) === WorkflowStage.RECEPTION);
   
   const [selectedJobId, setSelectedJobId] = useState<string>('');
   const [loading, setLoading] = useState(false);
   
   // Form State
-  const [detectedParts, setDetectedParts] = useState<string[]>([]);
-  const [manualPart, setManualPart] = useState('');
+  const [detectedParts, setDetectedParts] = useState<DamagePart[]>([]);
   const [notes, setNotes] = useState('');
-  const [repairType, setRepairType] = useState<'CHAPA' | 'PINTURA' | 'AMBOS'>('AMBOS');
+  const [repairType, setRepairType] = useState<RepairType>('AMBOS');
   const [damageAssessment, setDamageAssessment] = useState<string>('');
 
-  // Effect: Auto-select first job if selection is empty or invalid
+  // Version of the job the form was loaded from, to tell the user's edits from changes made on other devices
+  const [loadedJob, setLoadedJob] = useState<Job | null>(null);
+  const [remoteConflict, setRemoteConflict] = useState(false);
+
+  // Derived selected job
+  const selectedJob = activeJobs.find(j => j.id === selectedJobId);
+
+  const editedParts = !!loadedJob && JSON.stringify(detectedParts) !== JSON.stringify(loadedJob.identifiedParts || []);
+  const editedNotes = !!loadedJob && notes !== (loadedJob.manualNotes || '');
+  const editedRepairType = !!loadedJob && repairType !== (loadedJob.repairType || 'AMBOS');
+  const hasUnsavedChanges = editedParts || editedNotes || editedRepairType || !!damageAssessment;
+
+  // Effect: Auto-select first job if selection is empty or invalid.
+  // A job being edited stays selected even if another device moves it out of reception.
   useEffect(() => {
     if (intakeJobs.length > 0) {
       const currentExists = intakeJobs.find(j => j.id === selectedJobId);
-      if (!selectedJobId || !currentExists) {
+      if (!selectedJobId || (!currentExists && !(selectedJob && hasUnsavedChanges))) {
         setSelectedJobId(intakeJobs[0].id);
       }
     }
   }, [intakeJobs, selectedJobId]);
 
-  // Derived selected job
-  const selectedJob = activeJobs.find(j => j.id === selectedJobId);
-
   // Effect: Sync local form state when selected job changes
   useEffect(() => {
     if (selectedJob) {
@@ -46,27 +61,66 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
       setNotes(selectedJob.manualNotes || '');
       setRepairType(selectedJob.repairType || 'AMBOS');
       setDamageAssessment(''); // Reset temp assessment on switch
+      setLoadedJob(selectedJob);
+      setRemoteConflict(false);
     }
   }, [selectedJob?.id]); // Only run when the ID changes
 
+  // Effect: the same job changed (another device, or our own save): fields not edited here follow it
+  useEffect(() => {
+    if (!selectedJob || !loadedJob || selectedJob === loadedJob || selectedJob.id !== loadedJob.id) return;
+    const changed = getChangedFields(loadedJob, selectedJob);
+    if (changed.includes('identifiedParts')) {
+      if (editedParts) setRemoteConflict(true);
+      else setDetectedParts(selectedJob.identifiedParts || []);
+    }
+    if (changed.includes('manualNotes')) {
+      if (editedNotes) setRemoteConflict(true);
+      else setNotes(selectedJob.manualNotes || '');
+    }
+    if (changed.includes('repairType')) {
+      if (editedRepairType) setRemoteConflict(true);
+      else setRepairType(selectedJob.repairType || 'AMBOS');
+    }
+    setLoadedJob(selectedJob);
+  }, [selectedJob]);
+
+  const reloadForm = () => {
+    if (!selectedJob) return;
+    setDetectedParts(selectedJob.identifiedParts || []);
+    setNotes(selectedJob.manualNotes || '');
+    setRepairType(selectedJob.repairType || 'AMBOS');
+    setLoadedJob(selectedJob);
+    setRemoteConflict(false);
+  };
+
   const handleImageUpload = async (base64: string) => {
     if (!selectedJobId) return;
     
     setLoading(true);
     try {
-      const result = await analyzeDamageFromImage(base64);
+      const result = await analyzeDamageFromImage(base64, settings);
+      const imageIndex = (selectedJob?.damageImages || []).length;
       
-      // Merge new parts with existing ones
-      const newParts = [...new Set([...detectedParts, ...(result.detectedParts || [])])];
+      // Merge new parts with existing ones, skipping parts already recorded at the same position
+      const isKnown = (name: string, position?: string) => detectedParts.some(p =>
+        p.name.toLowerCase() === name.toLowerCase() && p.position === position
+      );
+      const aiParts = result.detectedParts
+        .filter(p => p.name && !isKnown(p.name, p.position))
+        .map(p => createDamagePart(p.name, { ...p, imageIndex }));
+      const newParts = [...detectedParts, ...aiParts];
       setDetectedParts(newParts);
       setDamageAssessment(result.assessment || '');
       
       // Immediately save image and update status to ASSESSING
-      onUpdateJob(selectedJobId, { 
+      const saved: Partial<Job> = {
         damageImages: [...(selectedJob?.damageImages || []), base64],
         status: JobStatus.ASSESSING,
         identifiedParts: newParts 
-      });
+      };
+      onUpdateJob(selectedJobId, saved);
+      setLoadedJob(prev => prev ? { ...prev, ...saved } : prev);
       
       onShowToast("Daños analizados y piezas añadidas", "success");
 
@@ -77,28 +131,32 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
     }
   };
 
-  const addManualPart = () => {
-    if (manualPart.trim()) {
-      setDetectedParts(prev => [...prev, manualPart.trim()]);
-      setManualPart('');
-    }
-  };
-
-  const removePart = (part: string) => {
-    setDetectedParts(prev => prev.filter(p => p !== part));
-  };
-
   const saveWorkOrder = () => {
-    if (!selectedJobId) return;
-    
-    onUpdateJob(selectedJobId, {
+    if (!selectedJobId || !selectedJob) return;
+    const nextStatus = getPostAssessmentStatus(selectedJob);
+    // Moved on by another device meanwhile: the assessment is saved, the status is left as it is
+    const inReception = getStage(selectedJob.status) === WorkflowStage.RECEPTION;
+    const updates: Partial<Job> = {
       identifiedParts: detectedParts,
       manualNotes: notes + (damageAssessment ? `\n[IA Evaluación]: ${damageAssessment}` : ''),
-      repairType: repairType,
-      status: JobStatus.IN_PROGRESS
-    });
+      repairType: repairType
+    };
+
+    // Same guards the save applies: if the job cannot move on, nothing is saved and the form stays open
+    const blocked = inReception ? checkTransition({ ...selectedJob, ...updates }, nextStatus) : null;
+    if (blocked) {
+      onShowToast(blocked, "error");
+      return;
+    }
+
+    onUpdateJob(selectedJobId, { ...updates, ...(inReception ? { status: nextStatus } : {}) });
     
-    onShowToast("Parte de Trabajo guardado. Vehículo en Proceso.", "success");
+    onShowToast(
+      nextStatus === JobStatus.AWAITING_PERITO
+        ? "Parte de Trabajo guardado. Pendiente de aprobación del perito."
+        : "Parte de Trabajo guardado. Vehículo en Proceso.",
+      "success"
+    );
     
     // Optimistically move to next if available
     const remaining = intakeJobs.filter(j => j.id !== selectedJobId);
@@ -109,7 +167,7 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
     }
   };
 
-  if (intakeJobs.length === 0) {
+  if (intakeJobs.length === 0 && !selectedJob) {
     return (
       <div className="text-center p-10 bg-white dark:bg-slate-800 rounded-xl shadow-sm animate-fade-in transition-colors">
         <Car className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -132,6 +190,18 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
          </span>
       </div>
 
+      {remoteConflict && (
+        <div className="mb-4 p-3 flex items-center justify-between gap-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+          <span className="flex items-center">
+            <AlertTriangle size={16} className="mr-2 shrink-0" />
+            Otro dispositivo ha modificado esta valoración. Si guardas, se mantendrán tus cambios.
+          </span>
+          <button onClick={reloadForm} className="px-3 py-1 text-xs font-medium rounded hover:bg-amber-100 dark:hover:bg-amber-800/50 whitespace-nowrap">
+            Cargar sus cambios
+          </button>
+        </div>
+      )}
+
       <div className="mb-8 bg-gray-50 dark:bg-slate-700 p-4 rounded-lg border border-gray-200 dark:border-slate-600">
         <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2">Vehículo Seleccionado</label>
         <select 
@@ -139,7 +209,7 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
           onChange={(e) => setSelectedJobId(e.target.value)}
           className="w-full p-3 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-white shadow-sm text-lg font-medium focus:ring-2 focus:ring-blue-500 outline-none"
         >
-          {intakeJobs.map(job => (
+          {(selectedJob && !intakeJobs.includes(selectedJob) ? [selectedJob, ...intakeJobs] : intakeJobs).map(job => (
             <option key={job.id} value={job.id}>
               {job.carDetails?.plate} - {job.carDetails?.make} {job.carDetails?.model}
             </option>
@@ -201,26 +271,11 @@ export const DamageAssessmentTab: React.FC<Props> = ({ activeJobs, onUpdateJob,
                 {/* Parts Input */}
                 <div className="mb-6">
                     <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2">Piezas a Reparar</label>
-                    <div className="flex space-x-2 mb-3">
-                        <input 
-                            type="text" 
-                            value={manualPart}
-                            onChange={(e) => setManualPart(e.target.value)}
-                            placeholder="Ej: Parachoques, Aleta..."
-                            className="flex-1 p-2.5 border border-gray-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 outline-none"
-                            onKeyDown={(e) => e.key === 'Enter' && addManualPart()}
-                        />
-                        <button onClick={addManualPart} className="bg-gray-800 dark:bg-slate-900 text-white px-4 rounded-lg hover:bg-black transition-colors font-medium">+</button>
-                    </div>
-                    <div className="flex flex-wrap gap-2 p-3 bg-white dark:bg-slate-800 border dark:border-slate-600 rounded-lg min-h-[60px] content-start">
-                        {detectedParts.map((part, idx) => (
-                            <span key={idx} className="inline-flex items-center bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-200 text-sm px-3 py-1 rounded-full shadow-sm animate-fade-in">
-                                {part}
-                                <button onClick={() => removePart(part)} className="ml-2 text-blue-400 hover:text-red-500 dark:hover:text-red-300 font-bold">&times;</button>
-                            </span>
-                        ))}
-                        {detectedParts.length === 0 && <span className="text-gray-400 text-sm italic self-center">No hay piezas asignadas. Sube una foto o agrega manualmente.</span>}
-                    </div>
+                    <DamagePartsEditor
+                        parts={detectedParts}
+                        onChange={setDetectedParts}
+                        images={selectedJob.damageImages}
+                    />
                 </div>
 
                 {/* Repair Type */}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { DamagePart, PartPosition, DamageType, DamageSeverity, RepairAction } from '../types';
+import { createDamagePart } from '../services/damageService';
+import { Plus, Trash2, Sparkles } from 'lucide-react';
+
+interface Props {
+  parts: DamagePart[];
+  onChange: (parts: DamagePart[]) => void;
+  images?: string[]; // Job.damageImages, used to show/select the source photo of each part
+}
+
+const getSeverityColor = (severity?: DamageSeverity) => {
+  switch (severity) {
+    case DamageSeverity.LOW: return 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300';
+    case DamageSeverity.MEDIUM: return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300';
+    case DamageSeverity.HIGH: return 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300';
+    default: return 'bg-gray-100 text-gray-500 dark:bg-slate-700 dark:text-gray-400';
+  }
+};
+
+export const DamagePartsEditor: React.FC<Props> = ({ parts, onChange, images = [] }) => {
+  const [newPartName, setNewPartName] = useState('');
+
+  const updatePart = (id: string, fields: Partial<DamagePart>) => {
+    onChange(parts.map(p => p.id === id ? { ...p, ...fields } : p));
+  };
+
+  const removePart = (id: string) => {
+    onChange(parts.filter(p => p.id !== id));
+  };
+
+  const addPart = () => {
+    if (!newPartName.trim()) return;
+    onChange([...parts, createDamagePart(newPartName, { action: RepairAction.REPAIR })]);
+    setNewPartName('');
+  };
+
+  const selectClass = "w-full p-1.5 border border-gray-300 dark:border-slate-600 rounded text-xs bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+
+  // Empty string in a <select> means "not set"
+  const optional = <T extends string>(value: string): T | undefined => (value ? value as T : undefined);
+
+  return (
+    <div className="space-y-3">
+      {parts.length === 0 && (
+        <p className="text-gray-400 text-sm italic p-3 bg-white dark:bg-slate-800 border dark:border-slate-600 rounded-lg">
+          No hay piezas asignadas. Sube una foto o agrega manualmente.
+        </p>
+      )}
+
+      {parts.map(part => {
+        const sourceImage = part.imageIndex !== undefined ? images[part.imageIndex] : undefined;
+        return (
+          <div key={part.id} className="p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-sm animate-fade-in">
+            <div className="flex items-center gap-2 mb-2">
+              {sourceImage && (
+                <img src={`data:image/jpeg;base64,${sourceImage}`} className="h-9 w-12 object-cover rounded border dark:border-slate-600 flex-shrink-0" alt="Foto origen" />
+              )}
+              <input
+                value={part.name}
+                onChange={(e) => updatePart(part.id, { name: e.target.value })}
+                className="flex-1 min-w-0 p-1.5 border border-gray-300 dark:border-slate-600 rounded text-sm font-medium bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {part.confidence !== undefined && (
+                <span className="inline-flex items-center text-[10px] font-bold px-2 py-1 rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 flex-shrink-0" title="Confianza IA">
+                  <Sparkles size={10} className="mr-1" /> {Math.round(part.confidence * 100)}%
+                </span>
+              )}
+              <span className={`text-[10px] font-bold px-2 py-1 rounded-full flex-shrink-0 ${getSeverityColor(part.severity)}`}>
+                {part.severity || 'Sin gravedad'}
+              </span>
+              <button onClick={() => removePart(part.id)} className="text-gray-400 hover:text-red-500 p-1 flex-shrink-0" title="Eliminar pieza">
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <select value={part.position || ''} onChange={(e) => updatePart(part.id, { position: optional<PartPosition>(e.target.value) })} className={selectClass}>
+                <option value="">Posición...</option>
+                {Object.values(PartPosition).map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+              <select value={part.damageType || ''} onChange={(e) => updatePart(part.id, { damageType: optional<DamageType>(e.target.value) })} className={selectClass}>
+                <option value="">Tipo de daño...</option>
+                {Object.values(DamageType).map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+              <select value={part.severity || ''} onChange={(e) => updatePart(part.id, { severity: optional<DamageSeverity>(e.target.value) })} className={selectClass}>
+                <option value="">Gravedad...</option>
+                {Object.values(DamageSeverity).map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+              <select value={part.action || ''} onChange={(e) => updatePart(part.id, { action: optional<RepairAction>(e.target.value) })} className={selectClass}>
+                <option value="">Acción...</option>
+                {Object.values(RepairAction).map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+              <select
+                value={part.imageIndex ?? ''}
+                onChange={(e) => updatePart(part.id, { imageIndex: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className={selectClass}
+                disabled={images.length === 0}
+              >
+                <option value="">Sin foto</option>
+                {images.map((_, idx) => <option key={idx} value={idx}>Foto {idx + 1}</option>)}
+              </select>
+            </div>
+
+            {part.description && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 italic">{part.description}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex">
+        <input
+          type="text"
+          value={newPartName}
+          onChange={(e) => setNewPartName(e.target.value)}
+          placeholder="Añadir pieza manualmente (Ej: Parachoques, Aleta...)"
+          className="flex-1 p-2 border border-gray-300 dark:border-slate-600 rounded-l text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-blue-500"
+          onKeyDown={(e) => e.key === 'Enter' && addPart()}
+        />
+        <button onClick={addPart} className="bg-blue-600 text-white px-4 rounded-r hover:bg-blue-700 flex items-center text-sm">
+          <Plus size={16} className="mr-1" /> Añadir
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,43 +1,109 @@
-import React, { useState, useMemo } from 'react';
-import { Job, JobStatus } from '../types';
-import { CheckCircle, Clock, FileText, Pencil, Eye, Filter, Calendar, X, ArrowRight } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { AuditEntry, ClaimStatus, Customer, Estimate, Insurer, Invoice, Job, JobStatus, LaborRate, RepairType, Technician, UserRole, Vehicle, WorkshopBranding } from '../types';
+import { CheckCircle, Clock, Cloud, AlertCircle, FileText, Pencil, Eye, Filter, Calendar, X, ArrowRight, Search, History, ShieldCheck, Archive, Trash2, RotateCcw } from 'lucide-react';
 import { JobDetailsModal } from './JobDetailsModal';
+import { VehicleHistory } from './VehicleHistory';
+import { ProductivityReport } from './ProductivityReport';
+import { normalizePlate, findVehicle, getVehicleHistory } from '../services/vehicleService';
+import { formatPartsSummary } from '../services/damageService';
+import { getInsurerName } from '../services/claimService';
+import { WorkflowStage, getStage, getStatusColor } from '../services/workflowService';
+import { isActiveJob, isArchived, isDeleted, canArchive, archiveJob, restoreJob, getDaysUntilPurge } from '../services/archiveService';
+import { JobSyncState } from '../services/outboxService';
+import { can } from '../services/permissionService';
+
+const STAGE_BORDER: Record<WorkflowStage, string> = {
+  [WorkflowStage.RECEPTION]: 'border-yellow-500',
+  [WorkflowStage.WAITING]: 'border-purple-500',
+  [WorkflowStage.WORKSHOP]: 'border-blue-500',
+  [WorkflowStage.FINISHED]: 'border-green-500',
+  [WorkflowStage.DELIVERED]: 'border-slate-400'
+};
+
+const SYNC_BADGES: Record<JobSyncState, { icon: React.ReactNode; title: string }> = {
+  pending: { icon: <Clock size={12} className="text-amber-500" />, title: 'Cambios pendientes de enviar' },
+  synced: { icon: <Cloud size={12} className="text-green-500" />, title: 'Sincronizado' },
+  failed: { icon: <AlertCircle size={12} className="text-red-500" />, title: 'No se pudo sincronizar, se reintentará' }
+};
 
 interface Props {
   jobs: Job[];
+  vehicles: Vehicle[];
+  customers: Customer[];
+  laborRates?: Partial<Record<RepairType, LaborRate>>;
+  branding?: WorkshopBranding;
+  invoices: Invoice[];
+  insurers: Insurer[];
+  auditLog: AuditEntry[];
+  technicians: Technician[];
   onUpdateJob: (id: string, updates: Partial<Job>) => void;
+  onPurgeJob: (id: string) => void;
+  onLoadJobImages: (job: Job) => Promise<Job>; // Full photos for jobs that only hold thumbnails
+  syncStates?: Record<string, JobSyncState>; // Undefined without a cloud configured
+  onIssueInvoice: (job: Job, estimate: Estimate) => Promise<void>;
+  onRectifyInvoice: (invoice: Invoice, reason: string) => Promise<void>;
+  onCustomerCreated: (customer: Customer) => void;
+  openJobId?: string | null; // Job requested from another tab (e.g. intake history link)
+  onJobOpened?: () => void;
+  role?: UserRole; // Signed-in user's role, undefined without accounts
 }
 
-export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
+export const DashboardTab: React.FC<Props> = ({ jobs, vehicles, customers, laborRates, branding, invoices, insurers, auditLog, technicians, onUpdateJob, onPurgeJob, onLoadJobImages, syncStates, onIssueInvoice, onRectifyInvoice, onCustomerCreated, openJobId, onJobOpened, role }) => {
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Which jobs are listed: day-to-day, archived (delivered and put away) or in the trash
+  const [view, setView] = useState<'active' | 'archived' | 'trash'>('active');
+
   // Filter State
   const [statusFilter, setStatusFilter] = useState<JobStatus | 'ALL'>('ALL');
+  const [stageFilter, setStageFilter] = useState<WorkflowStage | 'ALL'>('ALL');
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
+  const [plateQuery, setPlateQuery] = useState('');
+  const [insurerFilter, setInsurerFilter] = useState<string>('ALL'); // 'ALL', 'NONE' (private) or insurer id
+  const [claimStatusFilter, setClaimStatusFilter] = useState<ClaimStatus | 'ALL'>('ALL');
 
-  const openModal = (job: Job) => {
-    setSelectedJob(job);
+  // Photos are downloaded before the form opens, so saving it never replaces them with thumbnails
+  const openModal = async (job: Job) => {
+    setSelectedJob(await onLoadJobImages(job));
     setIsModalOpen(true);
   };
 
-  const getStatusColor = (status: JobStatus) => {
-    switch(status) {
-      case JobStatus.INTAKE: return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
-      case JobStatus.ASSESSING: return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300';
-      case JobStatus.IN_PROGRESS: return 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300';
-      case JobStatus.COMPLETED: return 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300';
-      default: return 'bg-gray-100';
-    }
-  };
+  useEffect(() => {
+    if (!openJobId) return;
+    const job = jobs.find(j => j.id === openJobId);
+    if (job) openModal(job);
+    onJobOpened?.();
+  }, [openJobId]);
+
+  // Exact plate match shows the vehicle's full history above the table
+  const matchedVehicle = plateQuery ? findVehicle(vehicles, plateQuery) : undefined;
+
+  const activeJobs = useMemo(() => jobs.filter(isActiveJob), [jobs]);
+  const archivedJobs = useMemo(() => jobs.filter(isArchived), [jobs]);
+  const trashedJobs = useMemo(() => jobs.filter(isDeleted), [jobs]);
 
   // Filter Logic
   const filteredJobs = useMemo(() => {
-    return jobs.filter(job => {
-      // Status Filter
+    const viewJobs = view === 'archived' ? archivedJobs : view === 'trash' ? trashedJobs : activeJobs;
+    return viewJobs.filter(job => {
+      // Status / Stage Filters
       if (statusFilter !== 'ALL' && job.status !== statusFilter) {
         return false;
       }
+      if (stageFilter !== 'ALL' && getStage(job.status) !== stageFilter) {
+        return false;
+      }
+
+      // Insurer / Claim Filters
+      if (insurerFilter === 'NONE' && job.claim) return false;
+      if (insurerFilter !== 'ALL' && insurerFilter !== 'NONE' && job.claim?.insurerId !== insurerFilter) return false;
+      if (claimStatusFilter !== 'ALL' && job.claim?.status !== claimStatusFilter) return false;
+
+      // Plate Filter (partial match on normalized plate)
+      if (plateQuery && !normalizePlate(job.carDetails?.plate || '').includes(normalizePlate(plateQuery))) {
+        return false;
+      }
 
       // Date Filter
       const jobDate = new Date(job.createdAt);
@@ -56,45 +122,61 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
 
       return true;
     });
-  }, [jobs, statusFilter, dateRange]);
+  }, [activeJobs, archivedJobs, trashedJobs, view, statusFilter, stageFilter, dateRange, plateQuery, insurerFilter, claimStatusFilter]);
+
+  const handlePurge = (job: Job) => {
+    if (!confirm(`¿Eliminar definitivamente el trabajo ${job.carDetails?.plate || ''}? No se podrá recuperar.`)) return;
+    onPurgeJob(job.id);
+  };
 
   const clearFilters = () => {
     setStatusFilter('ALL');
+    setStageFilter('ALL');
     setDateRange({ start: '', end: '' });
+    setPlateQuery('');
+    setInsurerFilter('ALL');
+    setClaimStatusFilter('ALL');
   };
 
-  const hasFilters = statusFilter !== 'ALL' || dateRange.start !== '' || dateRange.end !== '';
+  const hasFilters = statusFilter !== 'ALL' || stageFilter !== 'ALL' || dateRange.start !== '' || dateRange.end !== '' || plateQuery !== '' || insurerFilter !== 'ALL' || claimStatusFilter !== 'ALL';
 
   return (
     <div className="max-w-6xl mx-auto animate-fade-in">
       <h2 className="text-2xl font-bold text-gray-800 dark:text-white mb-6">Historial de Trabajos</h2>
 
-      {/* Summary Cards - Always show global stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border-l-4 border-blue-500 transition-colors">
-            <div className="text-gray-500 dark:text-gray-400 mb-1">En Taller</div>
-            <div className="text-3xl font-bold text-gray-800 dark:text-white">
-                {jobs.filter(j => j.status !== JobStatus.COMPLETED).length}
-            </div>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border-l-4 border-yellow-500 transition-colors">
-            <div className="text-gray-500 dark:text-gray-400 mb-1">En Valoración</div>
-            <div className="text-3xl font-bold text-gray-800 dark:text-white">
-                {jobs.filter(j => j.status === JobStatus.ASSESSING).length}
-            </div>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border-l-4 border-green-500 transition-colors">
-            <div className="text-gray-500 dark:text-gray-400 mb-1">Completados</div>
+      {/* Summary Cards - one per workflow stage, click to filter */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        {Object.values(WorkflowStage).map(stage => (
+          <button
+            key={stage}
+            onClick={() => { setView('active'); setStageFilter(stageFilter === stage ? 'ALL' : stage); }}
+            className={`text-left bg-white dark:bg-slate-800 p-5 rounded-xl shadow-sm border-l-4 ${STAGE_BORDER[stage]} transition-colors ${stageFilter === stage ? 'ring-2 ring-blue-500' : 'hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <div className="text-gray-500 dark:text-gray-400 mb-1 text-sm">{stage}</div>
             <div className="text-3xl font-bold text-gray-800 dark:text-white">
-                {jobs.filter(j => j.status === JobStatus.COMPLETED).length}
+                {activeJobs.filter(j => getStage(j.status) === stage).length}
             </div>
-        </div>
+          </button>
+        ))}
       </div>
 
       {/* Filters Section */}
       <div className="bg-white dark:bg-slate-800 p-5 rounded-xl shadow-sm mb-6 border border-gray-100 dark:border-slate-700 transition-colors">
         <div className="flex flex-col md:flex-row md:items-end gap-4">
           
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1 flex items-center">
+              <Search size={12} className="mr-1" /> Matrícula
+            </label>
+            <input 
+              type="text" 
+              value={plateQuery}
+              onChange={(e) => setPlateQuery(e.target.value)}
+              placeholder="0000 XXX"
+              className="w-full border border-gray-300 dark:border-slate-600 rounded-lg p-2.5 text-sm font-mono uppercase bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+
           <div className="flex-1 min-w-[200px]">
             <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1 flex items-center">
               <Filter size={12} className="mr-1" /> Estado
@@ -105,7 +187,44 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
               className="w-full border border-gray-300 dark:border-slate-600 rounded-lg p-2.5 text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
             >
               <option value="ALL">Todos los estados</option>
-              {Object.values(JobStatus).map(s => (
+              {Object.values(WorkflowStage).map(stage => (
+                <optgroup key={stage} label={stage}>
+                  {Object.values(JobStatus).filter(s => getStage(s) === stage).map(s => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1 flex items-center">
+              <ShieldCheck size={12} className="mr-1" /> Aseguradora
+            </label>
+            <select
+              value={insurerFilter}
+              onChange={(e) => setInsurerFilter(e.target.value)}
+              className="w-full border border-gray-300 dark:border-slate-600 rounded-lg p-2.5 text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="ALL">Todas</option>
+              <option value="NONE">Particular</option>
+              {insurers.map(i => (
+                <option key={i.id} value={i.id}>{i.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1 flex items-center">
+              <ShieldCheck size={12} className="mr-1" /> Siniestro
+            </label>
+            <select
+              value={claimStatusFilter}
+              onChange={(e) => setClaimStatusFilter(e.target.value as ClaimStatus | 'ALL')}
+              className="w-full border border-gray-300 dark:border-slate-600 rounded-lg p-2.5 text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="ALL">Todos</option>
+              {Object.values(ClaimStatus).map(s => (
                 <option key={s} value={s}>{s}</option>
               ))}
             </select>
@@ -148,6 +267,40 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
         </div>
       </div>
 
+      {/* Vehicle History (exact plate match) */}
+      {matchedVehicle && (
+        <div className="bg-white dark:bg-slate-800 p-5 rounded-xl shadow-sm mb-6 border border-amber-200 dark:border-amber-800 transition-colors animate-fade-in">
+          <h3 className="text-sm font-bold text-gray-800 dark:text-white mb-3 flex items-center">
+            <History size={16} className="mr-2 text-amber-500" />
+            Historial de <span className="font-mono mx-1">{matchedVehicle.plate}</span> · {matchedVehicle.make} {matchedVehicle.model}
+          </h3>
+          <VehicleHistory
+            vehicle={matchedVehicle}
+            jobs={getVehicleHistory(jobs, matchedVehicle.plate)}
+            onOpenJob={openModal}
+          />
+        </div>
+      )}
+
+      {/* View Selector */}
+      <div className="flex gap-1 mb-3">
+        {([
+          ['active', 'En curso', activeJobs.length],
+          ['archived', 'Archivados', archivedJobs.length],
+          ['trash', 'Papelera', trashedJobs.length]
+        ] as const).map(([key, label, count]) => (
+          <button
+            key={key}
+            onClick={() => setView(key)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center ${view === key ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700'}`}
+          >
+            {key === 'archived' && <Archive size={14} className="mr-1" />}
+            {key === 'trash' && <Trash2 size={14} className="mr-1" />}
+            {label} <span className="ml-1 text-xs opacity-75">({count})</span>
+          </button>
+        ))}
+      </div>
+
       {/* Table */}
       <div className="bg-white dark:bg-slate-800 shadow-sm rounded-xl overflow-hidden border border-gray-200 dark:border-slate-700 transition-colors">
         <div className="overflow-x-auto">
@@ -168,15 +321,19 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
                     <td colSpan={6} className="px-6 py-16 text-center text-gray-500 dark:text-gray-400">
                         {jobs.length === 0 
                           ? "No hay trabajos registrados aún." 
-                          : "No se encontraron trabajos con los filtros seleccionados."}
+                          : view === 'trash' && trashedJobs.length === 0
+                            ? "La papelera está vacía."
+                            : view === 'archived' && archivedJobs.length === 0
+                              ? "No hay trabajos archivados."
+                              : "No se encontraron trabajos con los filtros seleccionados."}
                     </td>
                 </tr>
               ) : (
                 filteredJobs.map((job) => (
                     <tr 
                         key={job.id} 
-                        onClick={() => openModal(job)}
-                        className="hover:bg-blue-50/50 dark:hover:bg-slate-700/50 cursor-pointer transition-colors group"
+                        onClick={() => view !== 'trash' && openModal(job)}
+                        className={`transition-colors group ${view === 'trash' ? 'opacity-75' : 'hover:bg-blue-50/50 dark:hover:bg-slate-700/50 cursor-pointer'}`}
                     >
                     <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
@@ -188,8 +345,16 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
                             )}
                         </div>
                         <div className="ml-4">
-                            <div className="text-sm font-bold text-gray-900 dark:text-white">{job.carDetails?.plate}</div>
+                            <div className="text-sm font-bold text-gray-900 dark:text-white flex items-center gap-1.5">
+                              {job.carDetails?.plate}
+                              {syncStates?.[job.id] && (
+                                <span title={SYNC_BADGES[syncStates[job.id]].title}>{SYNC_BADGES[syncStates[job.id]].icon}</span>
+                              )}
+                            </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">{job.carDetails?.make} {job.carDetails?.model}</div>
+                            {job.customerId && (
+                              <div className="text-xs text-gray-400 dark:text-gray-500">{customers.find(c => c.id === job.customerId)?.name}</div>
+                            )}
                         </div>
                         </div>
                     </td>
@@ -197,22 +362,52 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
                         <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(job.status)}`}>
                         {job.status}
                         </span>
+                        {job.claim && (
+                          <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                            {getInsurerName(insurers, job.claim.insurerId)} · {job.claim.status}
+                          </div>
+                        )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
                         {job.repairType}
                     </td>
                     <td className="px-6 py-4">
                         <div className="text-sm text-gray-900 dark:text-gray-300 max-w-xs truncate">
-                            {job.identifiedParts.join(', ') || <span className="text-gray-400 italic">-</span>}
+                            {formatPartsSummary(job.identifiedParts) || <span className="text-gray-400 italic">-</span>}
                         </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {new Date(job.createdAt).toLocaleDateString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="text-gray-300 dark:text-slate-600 group-hover:text-blue-500 dark:group-hover:text-blue-400 transition-colors">
-                           <ArrowRight size={18} />
-                        </div>
+                        {view === 'trash' ? (
+                          <div className="flex items-center justify-end gap-1">
+                            <span className="text-xs text-gray-400 mr-2">Se borrará en {getDaysUntilPurge(job)} días</span>
+                            {can(role, 'jobs.delete') && (<>
+                            <button onClick={() => onUpdateJob(job.id, restoreJob())} className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-slate-700 rounded" title="Restaurar">
+                              <RotateCcw size={16} />
+                            </button>
+                            <button onClick={() => handlePurge(job)} className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="Eliminar definitivamente">
+                              <Trash2 size={16} />
+                            </button>
+                            </>)}
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-end gap-2">
+                            {view === 'active' && canArchive(job) && can(role, 'jobs.archive') && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); onUpdateJob(job.id, archiveJob()); }}
+                                className="p-1.5 text-gray-300 dark:text-slate-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700 rounded"
+                                title="Archivar"
+                              >
+                                <Archive size={16} />
+                              </button>
+                            )}
+                            <div className="text-gray-300 dark:text-slate-600 group-hover:text-blue-500 dark:group-hover:text-blue-400 transition-colors">
+                               <ArrowRight size={18} />
+                            </div>
+                          </div>
+                        )}
                     </td>
                     </tr>
                 ))
@@ -222,11 +417,32 @@ export const DashboardTab: React.FC<Props> = ({ jobs, onUpdateJob }) => {
         </div>
       </div>
 
+      {/* Technician Productivity */}
+      {technicians.length > 0 && (
+        <div className="mt-6">
+          <ProductivityReport jobs={filteredJobs} technicians={technicians} />
+        </div>
+      )}
+
       <JobDetailsModal 
         job={selectedJob} 
+        jobs={jobs}
+        vehicles={vehicles}
+        customers={customers}
+        laborRates={laborRates}
+        branding={branding}
+        invoices={invoices}
+        insurers={insurers}
+        auditLog={auditLog}
+        technicians={technicians}
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
         onSave={onUpdateJob}
+        onCustomerCreated={onCustomerCreated}
+        onOpenJob={openModal}
+        onIssueInvoice={onIssueInvoice}
+        onRectifyInvoice={onRectifyInvoice}
+        role={role}
       />
     </div>
   );
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { Estimate, EstimateLine, EstimateLineType, EstimateStatus, Job, LaborRate, RepairType } from '../types';
+import { createEstimate, createSupplement, generateEstimateLines, getCurrentEstimate, calculateEstimateTotals, lineTotal, formatCurrency } from '../services/estimateService';
+import { Plus, Trash2, FileText, Check, X, Copy, RefreshCw, Calculator } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+
+interface Props {
+  job: Job;
+  laborRates?: Partial<Record<RepairType, LaborRate>>;
+  onChange: (estimates: Estimate[]) => void;
+  onExportPDF: (estimate: Estimate) => void;
+  readOnly?: boolean; // The user's role cannot change estimates, only view and export them
+}
+
+const getStatusColor = (status: EstimateStatus) => {
+  switch (status) {
+    case EstimateStatus.ACCEPTED: return 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300';
+    case EstimateStatus.REJECTED: return 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300';
+    default: return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+  }
+};
+
+export const EstimateEditor: React.FC<Props> = ({ job, laborRates, onChange, onExportPDF, readOnly }) => {
+  const estimates = job.estimates || [];
+  const current = getCurrentEstimate(job);
+  const [viewedId, setViewedId] = useState<string | undefined>(current?.id);
+
+  // Follow the latest version when a new one is created
+  useEffect(() => {
+    setViewedId(current?.id);
+  }, [current?.id]);
+
+  const viewed = estimates.find(e => e.id === viewedId) || current;
+  // Only the latest draft can be edited; decided versions are kept as-is for the record
+  const isEditable = !readOnly && !!viewed && viewed.id === current?.id && viewed.status === EstimateStatus.DRAFT;
+
+  const updateEstimate = (id: string, fields: Partial<Estimate>) => {
+    onChange(estimates.map(e => e.id === id ? { ...e, ...fields } : e));
+  };
+
+  const updateLine = (lineId: string, fields: Partial<EstimateLine>) => {
+    if (!viewed) return;
+    updateEstimate(viewed.id, { lines: viewed.lines.map(l => l.id === lineId ? { ...l, ...fields } : l) });
+  };
+
+  const removeLine = (lineId: string) => {
+    if (!viewed) return;
+    updateEstimate(viewed.id, { lines: viewed.lines.filter(l => l.id !== lineId) });
+  };
+
+  const addLine = () => {
+    if (!viewed) return;
+    const newLine: EstimateLine = { id: uuidv4(), type: EstimateLineType.OTHER, description: '', quantity: 1, unitPrice: 0 };
+    updateEstimate(viewed.id, { lines: [...viewed.lines, newLine] });
+  };
+
+  const regenerateLines = () => {
+    if (!viewed) return;
+    if (viewed.lines.length > 0 && !confirm('¿Reemplazar las líneas actuales por las calculadas desde los daños?')) return;
+    updateEstimate(viewed.id, { lines: generateEstimateLines(job, laborRates) });
+  };
+
+  const decide = (status: EstimateStatus.ACCEPTED | EstimateStatus.REJECTED) => {
+    if (!viewed) return;
+    updateEstimate(viewed.id, { status, decidedAt: Date.now() });
+  };
+
+  const numberInputClass = "w-full p-1.5 border border-gray-300 dark:border-slate-600 rounded text-xs text-right bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-transparent disabled:border-transparent";
+
+  if (!viewed) {
+    return (
+      <div className="text-center p-10 bg-white dark:bg-slate-800 rounded-lg border dark:border-slate-700">
+        <Calculator className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-500 dark:text-gray-400 mb-4">Este trabajo aún no tiene presupuesto.</p>
+        {!readOnly && (<>
+        <button
+          onClick={() => onChange([createEstimate(job, laborRates)])}
+          disabled={job.identifiedParts.length === 0}
+          className="px-5 py-2 bg-blue-600 text-white font-bold rounded shadow hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center"
+        >
+          <Calculator size={16} className="mr-2" /> Crear presupuesto desde daños
+        </button>
+        {job.identifiedParts.length === 0 && <p className="text-xs text-gray-400 mt-2">Registra al menos una pieza dañada.</p>}
+        </>)}
+      </div>
+    );
+  }
+
+  const totals = calculateEstimateTotals(viewed);
+
+  return (
+    <div className="space-y-4">
+      {/* Versions & Actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          {estimates.slice().sort((a, b) => a.version - b.version).map(e => (
+            <button
+              key={e.id}
+              onClick={() => setViewedId(e.id)}
+              className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${e.id === viewed.id ? 'bg-slate-900 text-white border-slate-900 dark:bg-blue-600 dark:border-blue-600' : 'bg-white dark:bg-slate-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-slate-600'}`}
+            >
+              v{e.version}
+            </button>
+          ))}
+          <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(viewed.status)}`}>{viewed.status}</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isEditable && (
+            <>
+              <button onClick={regenerateLines} className="px-3 py-1.5 text-xs font-medium rounded border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700 flex items-center">
+                <RefreshCw size={12} className="mr-1" /> Recalcular desde daños
+              </button>
+              <button onClick={() => decide(EstimateStatus.REJECTED)} className="px-3 py-1.5 text-xs font-bold rounded bg-red-50 text-red-700 border border-red-200 hover:bg-red-100 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800 flex items-center">
+                <X size={12} className="mr-1" /> Rechazado
+              </button>
+              <button onClick={() => decide(EstimateStatus.ACCEPTED)} className="px-3 py-1.5 text-xs font-bold rounded bg-green-600 text-white hover:bg-green-700 flex items-center">
+                <Check size={12} className="mr-1" /> Aceptado
+              </button>
+            </>
+          )}
+          {!readOnly && viewed.id === current?.id && viewed.status !== EstimateStatus.DRAFT && (
+            <button
+              onClick={() => onChange([...estimates, createSupplement(viewed)])}
+              className="px-3 py-1.5 text-xs font-bold rounded bg-blue-600 text-white hover:bg-blue-700 flex items-center"
+            >
+              <Copy size={12} className="mr-1" /> Nueva versión (suplemento)
+            </button>
+          )}
+          <button onClick={() => onExportPDF(viewed)} className="px-3 py-1.5 text-xs font-bold rounded bg-red-600 text-white hover:bg-red-700 flex items-center">
+            <FileText size={12} className="mr-1" /> PDF Presupuesto
+          </button>
+        </div>
+      </div>
+
+      {/* Lines */}
+      <div className="bg-white dark:bg-slate-800 rounded-lg border dark:border-slate-700 shadow-sm overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 dark:bg-slate-700/50 text-gray-500 dark:text-gray-400 uppercase">
+            <tr>
+              <th className="px-2 py-2 text-left w-36">Tipo</th>
+              <th className="px-2 py-2 text-left">Concepto</th>
+              <th className="px-2 py-2 text-right w-16">Cant./h</th>
+              <th className="px-2 py-2 text-right w-20">Precio</th>
+              <th className="px-2 py-2 text-right w-16">Dto %</th>
+              <th className="px-2 py-2 text-right w-24">Importe</th>
+              {isEditable && <th className="w-8"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+            {viewed.lines.map(l => (
+              <tr key={l.id}>
+                <td className="px-2 py-1.5">
+                  <select
+                    value={l.type}
+                    onChange={(e) => updateLine(l.id, { type: e.target.value as EstimateLineType })}
+                    disabled={!isEditable}
+                    className="w-full p-1.5 border border-gray-300 dark:border-slate-600 rounded text-xs bg-white dark:bg-slate-700 text-gray-900 dark:text-white disabled:bg-transparent disabled:border-transparent disabled:appearance-none"
+                  >
+                    {Object.values(EstimateLineType).map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-1.5">
+                  <input
+                    value={l.description}
+                    onChange={(e) => updateLine(l.id, { description: e.target.value })}
+                    disabled={!isEditable}
+                    className="w-full p-1.5 border border-gray-300 dark:border-slate-600 rounded text-xs bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-transparent disabled:border-transparent"
+                  />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" step="0.1" min="0" value={l.quantity} disabled={!isEditable}
+                    onChange={(e) => updateLine(l.id, { quantity: Number(e.target.value) || 0 })} className={numberInputClass} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" step="0.01" min="0" value={l.unitPrice} disabled={!isEditable}
+                    onChange={(e) => updateLine(l.id, { unitPrice: Number(e.target.value) || 0 })} className={numberInputClass} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" step="1" min="0" max="100" value={l.discount || 0} disabled={!isEditable}
+                    onChange={(e) => updateLine(l.id, { discount: Math.min(100, Number(e.target.value) || 0) })} className={numberInputClass} />
+                </td>
+                <td className="px-2 py-1.5 text-right font-medium text-gray-900 dark:text-white whitespace-nowrap">{formatCurrency(lineTotal(l))}</td>
+                {isEditable && (
+                  <td className="px-1">
+                    <button onClick={() => removeLine(l.id)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 size={12} /></button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {viewed.lines.length === 0 && (
+              <tr><td colSpan={7} className="px-2 py-6 text-center text-gray-400 italic">Sin líneas.</td></tr>
+            )}
+          </tbody>
+        </table>
+        {isEditable && (
+          <button onClick={addLine} className="w-full py-2 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-slate-700 flex items-center justify-center border-t dark:border-slate-700">
+            <Plus size={12} className="mr-1" /> Añadir línea
+          </button>
+        )}
+      </div>
+
+      {/* Totals */}
+      <div className="flex justify-end">
+        <div className="w-full md:w-72 bg-white dark:bg-slate-800 rounded-lg border dark:border-slate-700 shadow-sm p-4 text-sm space-y-1">
+          {Object.values(EstimateLineType).filter(t => totals.byType[t] !== 0).map(t => (
+            <div key={t} className="flex justify-between text-gray-500 dark:text-gray-400 text-xs">
+              <span>{t}</span><span>{formatCurrency(totals.byType[t])}</span>
+            </div>
+          ))}
+          {totals.discount > 0 && (
+            <div className="flex justify-between text-green-600 dark:text-green-400 text-xs">
+              <span>Descuentos aplicados</span><span>-{formatCurrency(totals.discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between pt-2 border-t dark:border-slate-700 text-gray-700 dark:text-gray-200">
+            <span>Base imponible</span><span>{formatCurrency(totals.base)}</span>
+          </div>
+          <div className="flex justify-between text-gray-700 dark:text-gray-200">
+            <span>IVA ({Math.round(viewed.ivaRate * 100)}%)</span><span>{formatCurrency(totals.iva)}</span>
+          </div>
+          <div className="flex justify-between pt-2 border-t dark:border-slate-700 font-bold text-gray-900 dark:text-white text-base">
+            <span>Total</span><span>{formatCurrency(totals.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Notes */}
+      <textarea
+        value={viewed.notes || ''}
+        onChange={(e) => updateEstimate(viewed.id, { notes: e.target.value })}
+        disabled={!isEditable}
+        placeholder="Condiciones, validez del presupuesto..."
+        className="w-full p-3 border dark:border-slate-600 rounded h-20 text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-70"
+      />
+    </div>
+  );
+};
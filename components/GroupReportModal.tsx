@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { FirebaseConfig, Workshop } from '../types';
+import { fetchWorkshopActivity } from '../services/firebaseService';
+import { summarizeWorkshop, WorkshopSummary } from '../services/workshopService';
+import { formatCurrency } from '../services/estimateService';
+import { BarChart3, X, RefreshCw } from 'lucide-react';
+
+interface Props {
+  config: FirebaseConfig;
+  workshops: Workshop[];
+  onClose: () => void;
+}
+
+type Row = { workshop: Workshop; summary?: WorkshopSummary; error?: string };
+
+// Activity of every workshop of the group side by side, read straight from the cloud
+export const GroupReportModal: React.FC<Props> = ({ config, workshops, onClose }) => {
+  const [rows, setRows] = useState<Row[]>(workshops.map(workshop => ({ workshop })));
+
+  useEffect(() => {
+    let cancelled = false;
+    workshops.forEach(workshop => {
+      fetchWorkshopActivity(config, workshop.id)
+        .then(({ jobs, invoices }) => ({ summary: summarizeWorkshop(jobs, invoices) }))
+        .catch(e => ({ error: e instanceof Error ? e.message : String(e) }))
+        .then(result => {
+          if (!cancelled) setRows(prev => prev.map(row => row.workshop.id === workshop.id ? { ...row, ...result } : row));
+        });
+    });
+    return () => { cancelled = true; };
+  }, [config, workshops]);
+
+  const loaded = rows.filter(row => row.summary).map(row => row.summary!);
+  const total = (key: keyof Omit<WorkshopSummary, 'averageStayDays'>) => loaded.reduce((sum, s) => sum + s[key], 0);
+
+  const cell = 'px-4 py-3 text-right text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden transition-colors">
+        <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white flex items-center">
+            <BarChart3 size={20} className="mr-2 text-blue-500" /> Informe del grupo
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-slate-900/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Taller</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Activos</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">En taller</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Para entregar</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Entregados 30 días</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Estancia media</th>
+                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Facturado este mes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+              {rows.map(({ workshop, summary, error }) => (
+                <tr key={workshop.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{workshop.name}</td>
+                  {summary ? (<>
+                    <td className={cell}>{summary.activeJobs}</td>
+                    <td className={cell}>{summary.inWorkshop}</td>
+                    <td className={cell}>{summary.awaitingDelivery}</td>
+                    <td className={cell}>{summary.deliveredLast30Days}</td>
+                    <td className={cell}>{summary.averageStayDays !== null ? `${summary.averageStayDays.toFixed(1)} días` : '-'}</td>
+                    <td className={`${cell} font-mono`}>{formatCurrency(summary.invoicedThisMonth)}</td>
+                  </>) : (
+                    <td colSpan={6} className="px-4 py-3 text-right text-xs">
+                      {error
+                        ? <span className="text-red-600 dark:text-red-400">No se pudo cargar: {error}</span>
+                        : <span className="text-gray-400 inline-flex items-center"><RefreshCw size={12} className="animate-spin mr-1" /> Cargando...</span>}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            {loaded.length > 1 && (
+              <tfoot className="bg-gray-50 dark:bg-slate-900/50 font-bold">
+                <tr>
+                  <td className="px-4 py-3 text-gray-900 dark:text-white">Total</td>
+                  <td className={cell}>{total('activeJobs')}</td>
+                  <td className={cell}>{total('inWorkshop')}</td>
+                  <td className={cell}>{total('awaitingDelivery')}</td>
+                  <td className={cell}>{total('deliveredLast30Days')}</td>
+                  <td className={cell}>-</td>
+                  <td className={`${cell} font-mono`}>{formatCurrency(total('invoicedThisMonth'))}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+        <p className="px-6 py-3 text-xs text-gray-400 border-t border-gray-100 dark:border-slate-700">
+          Datos de la nube. Los cambios de otros equipos que aún no se han sincronizado no aparecen.
+        </p>
+      </div>
+    </div>
+  );
+};
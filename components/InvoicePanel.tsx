@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Estimate, Invoice, InvoiceType, Job } from '../types';
+import { getAcceptedEstimate, formatCurrency } from '../services/estimateService';
+import { isInvoiceable } from '../services/workflowService';
+import { getJobInvoices, isRectified, verifyInvoiceChain, ChainVerification } from '../services/invoiceService';
+import { Receipt, FileText, ShieldCheck, ShieldAlert, Undo2, Lock } from 'lucide-react';
+
+interface Props {
+  job: Job; // Persisted job (not the unsaved form), invoices must come from saved data
+  hasUnsavedChanges: boolean;
+  invoices: Invoice[]; // All issued invoices, needed to verify the chain
+  onIssue: (job: Job, estimate: Estimate) => Promise<void>;
+  onRectify: (invoice: Invoice, reason: string) => Promise<void>;
+  onExportPDF: (invoice: Invoice) => void;
+  readOnly?: boolean; // The user's role cannot issue or rectify, only view and export
+}
+
+export const InvoicePanel: React.FC<Props> = ({ job, hasUnsavedChanges, invoices, onIssue, onRectify, onExportPDF, readOnly }) => {
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyInvoiceChain(invoices).then(result => {
+      if (!cancelled) setVerification(result);
+    });
+    return () => { cancelled = true; };
+  }, [invoices]);
+
+  const jobInvoices = getJobInvoices(invoices, job.id);
+  const acceptedEstimate = getAcceptedEstimate(job);
+  // An estimate can be invoiced again only once its previous invoice has been rectified
+  const activeInvoice = jobInvoices.find(i =>
+    i.type === InvoiceType.ORDINARY && i.estimateId === acceptedEstimate?.id && !isRectified(i, invoices)
+  );
+  const invoiceable = isInvoiceable(job.status);
+  const canIssue = invoiceable && !!acceptedEstimate && !activeInvoice && !hasUnsavedChanges;
+
+  const handleIssue = async () => {
+    if (!acceptedEstimate) return;
+    if (!confirm('Una factura emitida no se puede modificar. ¿Emitir factura?')) return;
+    setBusy(true);
+    try {
+      await onIssue(job, acceptedEstimate);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRectify = async (invoice: Invoice) => {
+    const reason = prompt(`Motivo de la rectificación de ${invoice.fullNumber}:`);
+    if (!reason || !reason.trim()) return;
+    setBusy(true);
+    try {
+      await onRectify(invoice, reason.trim());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Chain integrity */}
+      {verification && (
+        <div className={`flex items-center text-xs p-2 rounded border ${verification.valid
+          ? 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800'
+          : 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800'}`}
+        >
+          {verification.valid
+            ? <><ShieldCheck size={14} className="mr-2" /> Registro de facturas íntegro ({invoices.length} facturas encadenadas)</>
+            : <><ShieldAlert size={14} className="mr-2" /> Cadena de facturas alterada a partir de {verification.brokenAt}</>}
+        </div>
+      )}
+
+      {/* Issue */}
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm flex items-center justify-between gap-4">
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          {!invoiceable && 'Solo se pueden facturar trabajos terminados.'}
+          {invoiceable && !acceptedEstimate && 'No hay un presupuesto aceptado para facturar.'}
+          {invoiceable && acceptedEstimate && activeInvoice && `Presupuesto v${acceptedEstimate.version} facturado en ${activeInvoice.fullNumber}.`}
+          {canIssue && `Presupuesto v${acceptedEstimate!.version} aceptado, listo para facturar.`}
+          {hasUnsavedChanges && acceptedEstimate && !activeInvoice && ' Guarda la ficha antes de facturar.'}
+        </div>
+        {!readOnly && (
+        <button
+          onClick={handleIssue}
+          disabled={!canIssue || busy}
+          className="px-4 py-2 bg-green-600 text-white font-bold rounded shadow hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center text-sm flex-shrink-0"
+        >
+          <Receipt size={16} className="mr-2" /> Emitir Factura
+        </button>
+        )}
+      </div>
+
+      {/* Job invoices */}
+      {jobInvoices.length === 0 ? (
+        <p className="text-gray-400 italic text-sm">No hay facturas emitidas para este trabajo.</p>
+      ) : (
+        <div className="bg-white dark:bg-slate-800 rounded-lg border dark:border-slate-700 shadow-sm divide-y divide-gray-100 dark:divide-slate-700">
+          {jobInvoices.map(invoice => (
+            <div key={invoice.id} className="p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center text-sm font-bold text-gray-900 dark:text-white">
+                  <Lock size={12} className="mr-1 text-gray-400" /> {invoice.fullNumber}
+                  <span className={`ml-2 px-2 py-0.5 text-[10px] rounded-full ${invoice.type === InvoiceType.RECTIFYING ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300' : 'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-gray-300'}`}>
+                    {invoice.type}
+                  </span>
+                  {isRectified(invoice, invoices) && <span className="ml-2 text-[10px] text-red-500">Rectificada</span>}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(invoice.issuedAt).toLocaleString()} · {invoice.customer.name} · {formatCurrency(invoice.total)}
+                </div>
+                {invoice.rectificationReason && <div className="text-xs text-gray-400 italic">Motivo: {invoice.rectificationReason}</div>}
+                <div className="text-[10px] text-gray-400 font-mono truncate" title={invoice.hash}>Huella: {invoice.hash.substring(0, 16)}…</div>
+              </div>
+              <div className="flex space-x-2 flex-shrink-0">
+                {!readOnly && invoice.type === InvoiceType.ORDINARY && !isRectified(invoice, invoices) && (
+                  <button
+                    onClick={() => handleRectify(invoice)}
+                    disabled={busy}
+                    className="px-3 py-1.5 text-xs font-medium rounded border border-orange-300 text-orange-700 hover:bg-orange-50 dark:border-orange-700 dark:text-orange-300 dark:hover:bg-orange-900/20 flex items-center"
+                  >
+                    <Undo2 size={12} className="mr-1" /> Rectificar
+                  </button>
+                )}
+                <button
+                  onClick={() => onExportPDF(invoice)}
+                  className="px-3 py-1.5 text-xs font-bold rounded bg-red-600 text-white hover:bg-red-700 flex items-center"
+                >
+                  <FileText size={12} className="mr-1" /> PDF
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
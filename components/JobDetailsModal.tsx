@@ -1,14 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Job, JobStatus } from '../types';
-import { X, Save, Trash2, Plus, Image as ImageIcon, PenTool, Wrench, PaintBucket, RotateCw, Check, RotateCcw, Camera, FileText } from 'lucide-react';
+import { AuditEntry, Customer, Estimate, Insurer, Invoice, Job, JobStatus, LaborRate, RepairType, Technician, UserRole, Vehicle, WorkshopBranding } from '../types';
+import { X, Save, Trash2, AlertTriangle, Plus, Image as ImageIcon, PenTool, Wrench, PaintBucket, RotateCw, Check, RotateCcw, Camera, FileText, History, Calculator, Receipt, ScrollText, HardHat, Archive, ArchiveRestore } from 'lucide-react';
 import { ImageUploader } from './ImageUploader';
-import { generateJobPDF } from '../services/pdfService';
+import { CustomerSelector } from './CustomerSelector';
+import { ClaimSection } from './ClaimSection';
+import { DamagePartsEditor } from './DamagePartsEditor';
+import { EstimateEditor } from './EstimateEditor';
+import { InvoicePanel } from './InvoicePanel';
+import { VehicleHistory } from './VehicleHistory';
+import { AuditTimeline } from './AuditTimeline';
+import { TechnicianPanel } from './TechnicianPanel';
+import { findVehicle, getVehicleHistory } from '../services/vehicleService';
+import { reindexPartsAfterImageRemoval } from '../services/damageService';
+import { WORKFLOW, checkTransition } from '../services/workflowService';
+import { getJobAuditLog } from '../services/auditService';
+import { archiveJob, unarchiveJob, trashJob, canArchive, getDeleteBlocker, isArchived, TRASH_RETENTION_DAYS } from '../services/archiveService';
+import { getChangedFields } from '../services/revisionService';
+import { can } from '../services/permissionService';
+import { generateJobPDF, generateEstimatePDF, generateInvoicePDF } from '../services/pdfService';
 
 interface Props {
   job: Job | null;
+  jobs: Job[];
+  vehicles: Vehicle[];
+  customers: Customer[];
+  laborRates?: Partial<Record<RepairType, LaborRate>>;
+  branding?: WorkshopBranding; // Header of the printed documents
+  invoices: Invoice[];
+  insurers: Insurer[];
+  auditLog: AuditEntry[];
+  technicians: Technician[];
   isOpen: boolean;
   onClose: () => void;
   onSave: (id: string, updates: Partial<Job>) => void;
+  onCustomerCreated: (customer: Customer) => void;
+  onOpenJob?: (job: Job) => void;
+  onIssueInvoice: (job: Job, estimate: Estimate) => Promise<void>;
+  onRectifyInvoice: (invoice: Invoice, reason: string) => Promise<void>;
+  role?: UserRole; // Signed-in user's role: fields it may not change are shown read-only
 }
 
 // --- Internal Image Editor Component ---
@@ -119,35 +148,102 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ base64Image, onSave, onCancel
 
 // --- Main Modal Component ---
 
-export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave }) => {
+export const JobDetailsModal: React.FC<Props> = ({ job, jobs, vehicles, customers, laborRates, branding, invoices, insurers, auditLog, technicians, isOpen, onClose, onSave, onCustomerCreated, onOpenJob, onIssueInvoice, onRectifyInvoice, role }) => {
   const [formData, setFormData] = useState<Job | null>(null);
-  const [newPart, setNewPart] = useState('');
-  const [activeTab, setActiveTab] = useState<'details' | 'photos'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'photos' | 'estimate' | 'invoices' | 'history' | 'audit' | 'work'>('details');
   
   // Editing State
   const [editingPhoto, setEditingPhoto] = useState<{ index: number, type: 'intake' | 'damage' } | null>(null);
 
+  // Version of the job the form edits are relative to, and fields edited here that another device changed meanwhile
+  const [baseJob, setBaseJob] = useState<Job | null>(null);
+  const [conflicts, setConflicts] = useState<(keyof Job)[]>([]);
+
   useEffect(() => {
     if (job) {
       setFormData({ ...job });
+      setBaseJob(job);
+      setConflicts([]);
       setActiveTab('details'); // Reset tab on open
       setEditingPhoto(null);
     }
   }, [job]);
 
+  // Changes from other devices while the form is open: applied to the fields not edited here,
+  // the user's unsaved edits are kept
+  useEffect(() => {
+    if (!isOpen || !baseJob || !formData) return;
+    const live = jobs.find(j => j.id === baseJob.id);
+    if (!live || live === baseJob) return;
+    const remoteFields = getChangedFields(baseJob, live);
+    if (remoteFields.length > 0) {
+      const edited = getChangedFields(baseJob, formData);
+      setFormData({ ...live, ...Object.fromEntries(edited.map(f => [f, formData[f]])) });
+      const overlapping = remoteFields.filter(f => edited.includes(f));
+      if (overlapping.length > 0) setConflicts(prev => Array.from(new Set([...prev, ...overlapping])));
+    }
+    setBaseJob(live);
+  }, [jobs]);
+
   if (!isOpen || !formData) return null;
 
+  // Transitions start from the saved status; guards see the edited form (e.g. parts just added)
+  const savedJob = jobs.find(j => j.id === formData.id) || job || formData;
+  const savedStatus = savedJob.status;
+  const transitionBlockers: Partial<Record<JobStatus, string | null>> = Object.fromEntries(
+    WORKFLOW[savedStatus].next.map(status => [status, checkTransition({ ...formData, status: savedStatus }, status)])
+  );
+
+  // Only the fields edited in the form are saved, so changes made meanwhile on other devices survive
+  const getEdits = (): Partial<Job> => {
+    const base = baseJob || formData;
+    return Object.fromEntries(getChangedFields(base, formData).map(f => [f, formData[f]]));
+  };
+
   const handleSave = () => {
-    onSave(formData.id, formData);
+    onSave(formData.id, getEdits());
+    onClose();
+  };
+
+  // Pending form edits are saved together with the archive / trash change
+  const handleLifecycleChange = (fields: Partial<Job>) => {
+    onSave(formData.id, { ...getEdits(), ...fields });
     onClose();
   };
 
+  const discardEdits = () => {
+    setFormData({ ...savedJob });
+    setBaseJob(savedJob);
+    setConflicts([]);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`¿Enviar este trabajo a la papelera? Podrás restaurarlo desde el historial durante ${TRASH_RETENTION_DAYS} días.`)) return;
+    handleLifecycleChange(trashJob());
+  };
+
+  const deleteBlocker = getDeleteBlocker(savedJob, invoices);
+
+  const canEdit = can(role, 'jobs.edit');
+
   const handleExportPDF = () => {
     if (formData) {
-      generateJobPDF(formData);
+      generateJobPDF(
+        formData,
+        customers.find(c => c.id === formData.customerId),
+        insurers.find(i => i.id === formData.claim?.insurerId),
+        branding
+      );
     }
   };
 
+  // Clocking is saved right away, the rest of the form still waits for "Guardar"
+  const handleTimeTrackingChange = (fields: Pick<Job, 'assignments' | 'timeEntries'>) => {
+    setFormData(prev => prev ? { ...prev, ...fields } : null);
+    setBaseJob(prev => prev ? { ...prev, ...fields } : null);
+    onSave(formData.id, fields);
+  };
+
   const handleChange = (field: keyof Job, value: any) => {
     setFormData(prev => prev ? { ...prev, [field]: value } : null);
   };
@@ -159,23 +255,6 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
     } : null);
   };
 
-  const addPart = () => {
-    if (newPart.trim()) {
-      setFormData(prev => prev ? {
-        ...prev,
-        identifiedParts: [...(prev.identifiedParts || []), newPart.trim()]
-      } : null);
-      setNewPart('');
-    }
-  };
-
-  const removePart = (partToRemove: string) => {
-    setFormData(prev => prev ? {
-      ...prev,
-      identifiedParts: prev.identifiedParts.filter(p => p !== partToRemove)
-    } : null);
-  };
-
   // Image Actions
   const deleteDamageImage = (index: number) => {
     if (!confirm('¿Estás seguro de eliminar esta foto?')) return;
@@ -183,7 +262,11 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
       if (!prev) return null;
       const newImages = [...(prev.damageImages || [])];
       newImages.splice(index, 1);
-      return { ...prev, damageImages: newImages };
+      return {
+        ...prev,
+        damageImages: newImages,
+        identifiedParts: reindexPartsAfterImageRemoval(prev.identifiedParts, index)
+      };
     });
   };
 
@@ -248,8 +331,50 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
           >
             <ImageIcon size={16} className="mr-2" /> Galería de Daños
           </button>
+          <button 
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 py-3 font-medium text-sm flex items-center justify-center ${activeTab === 'history' ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-slate-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <History size={16} className="mr-2" /> Historial Vehículo
+          </button>
+          <button 
+            onClick={() => setActiveTab('audit')}
+            className={`flex-1 py-3 font-medium text-sm flex items-center justify-center ${activeTab === 'audit' ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-slate-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <ScrollText size={16} className="mr-2" /> Cambios
+          </button>
+          <button 
+            onClick={() => setActiveTab('estimate')}
+            className={`flex-1 py-3 font-medium text-sm flex items-center justify-center ${activeTab === 'estimate' ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-slate-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <Calculator size={16} className="mr-2" /> Presupuesto
+          </button>
+          <button 
+            onClick={() => setActiveTab('work')}
+            className={`flex-1 py-3 font-medium text-sm flex items-center justify-center ${activeTab === 'work' ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-slate-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <HardHat size={16} className="mr-2" /> Técnicos
+          </button>
+          <button 
+            onClick={() => setActiveTab('invoices')}
+            className={`flex-1 py-3 font-medium text-sm flex items-center justify-center ${activeTab === 'invoices' ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50 dark:bg-slate-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <Receipt size={16} className="mr-2" /> Facturación
+          </button>
         </div>
 
+        {conflicts.length > 0 && (
+          <div className="flex items-center justify-between gap-3 px-4 py-2 text-sm bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 border-b border-amber-200 dark:border-amber-800 shrink-0">
+            <span className="flex items-center">
+              <AlertTriangle size={16} className="mr-2 shrink-0" />
+              Otro dispositivo ha modificado campos que estás editando. Al guardar se mantendrán tus cambios.
+            </span>
+            <button onClick={discardEdits} className="px-3 py-1 text-xs font-medium rounded hover:bg-amber-100 dark:hover:bg-amber-800/50 whitespace-nowrap">
+              Descartar mis cambios
+            </button>
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 bg-gray-50 dark:bg-slate-900/50">
           
@@ -263,15 +388,32 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                   <select 
                     value={formData.status}
                     onChange={(e) => handleChange('status', e.target.value)}
-                    className="w-full p-2 border dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-gray-900 dark:text-white font-medium outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={!can(role, 'jobs.status')}
+                    className="w-full p-2 border dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-gray-900 dark:text-white font-medium outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-70"
                   >
-                    {Object.values(JobStatus).map(status => (
-                      <option key={status} value={status}>{status}</option>
+                    <option value={savedStatus}>{savedStatus}</option>
+                    {WORKFLOW[savedStatus].next.map(status => (
+                      <option key={status} value={status} disabled={!!transitionBlockers[status]} title={transitionBlockers[status] || ''}>
+                        → {status}
+                      </option>
                     ))}
                   </select>
+                  {Array.from(new Set(Object.values(transitionBlockers).filter(Boolean))).map(reason => (
+                    <p key={reason} className="text-xs text-purple-600 dark:text-purple-300 mt-2">{reason}</p>
+                  ))}
+                  {formData.statusHistory && formData.statusHistory.length > 0 && (
+                    <ol className="mt-3 space-y-1 max-h-32 overflow-y-auto text-xs text-gray-500 dark:text-gray-400 border-t dark:border-slate-700 pt-2">
+                      {formData.statusHistory.slice().reverse().map((change, idx) => (
+                        <li key={idx} className="flex justify-between gap-2">
+                          <span className="font-medium text-gray-700 dark:text-gray-300">{change.to}</span>
+                          <span>{new Date(change.at).toLocaleString()}{change.by ? ` · ${change.by}` : ''}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
 
-                <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+                <fieldset disabled={!canEdit} className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
                   <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2">Tipo de Reparación</label>
                   <div className="flex space-x-2">
                     {['CHAPA', 'PINTURA', 'AMBOS'].map((type) => (
@@ -288,9 +430,11 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                       </button>
                     ))}
                   </div>
-                </div>
+                </fieldset>
               </div>
 
+              {/* Fields below are read-only for roles that cannot edit job details */}
+              <fieldset disabled={!canEdit} className="space-y-6">
               {/* Car Details */}
               <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
                 <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Datos del Vehículo</h3>
@@ -327,35 +471,63 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                       className="w-full p-2 border dark:border-slate-600 rounded mt-1 bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
                     />
                   </div>
+                  <div>
+                    <label className="text-xs text-gray-500 dark:text-gray-400">Año</label>
+                    <input 
+                      value={formData.carDetails?.year || ''}
+                      onChange={(e) => handleCarChange('year', e.target.value)}
+                      className="w-full p-2 border dark:border-slate-600 rounded mt-1 bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-500 dark:text-gray-400">Código Pintura</label>
+                    <input 
+                      value={formData.carDetails?.paintCode || ''}
+                      onChange={(e) => handleCarChange('paintCode', e.target.value)}
+                      className="w-full p-2 border dark:border-slate-600 rounded mt-1 font-mono bg-white dark:bg-slate-700 text-gray-900 dark:text-white uppercase"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="text-xs text-gray-500 dark:text-gray-400">Bastidor (VIN)</label>
+                    <input 
+                      value={formData.carDetails?.vin || ''}
+                      onChange={(e) => handleCarChange('vin', e.target.value)}
+                      maxLength={17}
+                      className="w-full p-2 border dark:border-slate-600 rounded mt-1 font-mono bg-white dark:bg-slate-700 text-gray-900 dark:text-white uppercase"
+                    />
+                  </div>
                 </div>
               </div>
 
+              {/* Customer */}
+              <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+                <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Datos del Cliente</h3>
+                <CustomerSelector
+                  customers={customers}
+                  selectedCustomerId={formData.customerId}
+                  onSelect={(id) => handleChange('customerId', id)}
+                  onCreate={onCustomerCreated}
+                />
+              </div>
+
+              {/* Insurance claim */}
+              <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+                <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Siniestro / Aseguradora</h3>
+                <ClaimSection
+                  claim={formData.claim}
+                  insurers={insurers}
+                  onChange={(claim) => handleChange('claim', claim)}
+                />
+              </div>
+
               {/* Parts */}
               <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
                 <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Piezas a Reparar (Daños)</h3>
-                <div className="flex flex-wrap gap-2 mb-3">
-                  {formData.identifiedParts.map((part, idx) => (
-                    <span key={idx} className="inline-flex items-center bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm px-3 py-1 rounded-full">
-                      {part}
-                      <button onClick={() => removePart(part)} className="ml-2 text-red-400 hover:text-red-500 dark:hover:text-red-300"><X size={14}/></button>
-                    </span>
-                  ))}
-                  {formData.identifiedParts.length === 0 && <span className="text-gray-400 italic text-sm">No hay piezas registradas.</span>}
-                </div>
-                <div className="flex mt-4">
-                  <input 
-                    type="text"
-                    value={newPart}
-                    onChange={(e) => setNewPart(e.target.value)}
-                    placeholder="Añadir pieza/daño manualmente..."
-                    className="flex-1 p-2 border dark:border-slate-600 rounded-l text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-400"
-                    onKeyDown={(e) => e.key === 'Enter' && addPart()}
-                  />
-                  <button onClick={addPart} className="bg-blue-600 text-white px-4 rounded-r hover:bg-blue-700 flex items-center">
-                    <Plus size={16} className="mr-1"/> Añadir
-                  </button>
-                </div>
-                <p className="text-xs text-gray-400 mt-2">Escribe el nombre de la pieza o daño y presiona Enter o Añadir.</p>
+                <DamagePartsEditor
+                  parts={formData.identifiedParts}
+                  onChange={(parts) => handleChange('identifiedParts', parts)}
+                  images={formData.damageImages}
+                />
               </div>
 
               {/* Notes */}
@@ -368,6 +540,7 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                   placeholder="Notas adicionales sobre la reparación..."
                 />
               </div>
+              </fieldset>
             </div>
           )}
 
@@ -388,6 +561,7 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                         className="h-64 object-contain rounded bg-black"
                         alt="Ingreso"
                         />
+                        {canEdit && (
                         <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity">
                             <button 
                                 onClick={() => setEditingPhoto({ index: 0, type: 'intake' })}
@@ -397,6 +571,7 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                                 <PenTool size={16} />
                             </button>
                         </div>
+                        )}
                     </>
                   ) : (
                     <div className="h-32 w-32 bg-gray-100 dark:bg-slate-700 flex items-center justify-center text-gray-400 text-xs">Sin foto</div>
@@ -412,10 +587,12 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                 </h3>
                 
                 {/* Upload New Photo Area */}
+                {canEdit && (
                 <div className="mb-4 bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-100 dark:border-blue-800">
                     <h4 className="text-xs font-bold text-blue-800 dark:text-blue-300 mb-2 uppercase">Agregar Nueva Foto de Daño</h4>
                     <ImageUploader onImageSelected={handleAddDamageImage} label="Subir Foto" />
                 </div>
+                )}
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
                   {formData.damageImages && formData.damageImages.length > 0 ? (
@@ -429,6 +606,7 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                             />
                         </div>
                         
+                        {canEdit && (
                         <div className="absolute top-3 right-3 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
                              <button 
                                 onClick={() => setEditingPhoto({ index: idx, type: 'damage' })}
@@ -445,6 +623,7 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
                                 <Trash2 size={14} />
                             </button>
                         </div>
+                        )}
 
                         <div className="mt-2 flex justify-between items-center">
                            <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">Foto {idx + 1}</span>
@@ -459,18 +638,97 @@ export const JobDetailsModal: React.FC<Props> = ({ job, isOpen, onClose, onSave
             </div>
           )}
 
+          {/* ESTIMATE TAB */}
+          {activeTab === 'estimate' && (
+            <EstimateEditor
+              job={formData}
+              laborRates={laborRates}
+              onChange={(estimates) => handleChange('estimates', estimates)}
+              readOnly={!can(role, 'estimates.edit')}
+              onExportPDF={(estimate) => generateEstimatePDF(formData, estimate, customers.find(c => c.id === formData.customerId), branding)}
+            />
+          )}
+
+          {/* INVOICES TAB */}
+          {activeTab === 'invoices' && job && (
+            <InvoicePanel
+              job={savedJob}
+              hasUnsavedChanges={JSON.stringify(formData) !== JSON.stringify(savedJob)}
+              invoices={invoices}
+              onIssue={onIssueInvoice}
+              onRectify={onRectifyInvoice}
+              onExportPDF={(invoice) => generateInvoicePDF(invoice, formData)}
+              readOnly={!can(role, 'invoices.issue')}
+            />
+          )}
+
+          {/* VEHICLE HISTORY TAB */}
+          {activeTab === 'history' && (
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+              <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">
+                Trabajos anteriores · <span className="font-mono">{formData.carDetails?.plate}</span>
+              </h3>
+              <VehicleHistory
+                vehicle={findVehicle(vehicles, formData.carDetails?.plate || '')}
+                jobs={getVehicleHistory(jobs, formData.carDetails?.plate || '')}
+                excludeJobId={formData.id}
+                onOpenJob={onOpenJob}
+              />
+            </div>
+          )}
+
+          {/* WORK TAB */}
+          {activeTab === 'work' && (
+            <fieldset disabled={!can(role, 'time.track')}>
+              <TechnicianPanel
+                job={formData}
+                technicians={technicians}
+                onChange={handleTimeTrackingChange}
+              />
+            </fieldset>
+          )}
+
+          {/* AUDIT TAB */}
+          {activeTab === 'audit' && (
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+              <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-4 border-b dark:border-slate-700 pb-2">Registro de cambios</h3>
+              <AuditTimeline entries={getJobAuditLog(auditLog, formData.id)} />
+            </div>
+          )}
+
         </div>
 
         {/* Footer */}
         <div className="bg-gray-100 dark:bg-slate-800 border-t dark:border-slate-700 p-4 shrink-0 flex justify-between items-center gap-3">
-          <button 
-            onClick={handleExportPDF}
-            className="px-4 py-2 bg-red-600 text-white font-bold rounded shadow hover:bg-red-700 transition-all flex items-center text-sm"
-            title="Descargar PDF"
-          >
-            <FileText className="mr-2" size={16} />
-            Exportar PDF
-          </button>
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={handleExportPDF}
+              className="px-4 py-2 bg-red-600 text-white font-bold rounded shadow hover:bg-red-700 transition-all flex items-center text-sm"
+              title="Descargar PDF"
+            >
+              <FileText className="mr-2" size={16} />
+              Exportar PDF
+            </button>
+            {!can(role, 'jobs.archive') ? null : isArchived(savedJob) ? (
+              <button onClick={() => handleLifecycleChange(unarchiveJob())} className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700 rounded" title="Desarchivar">
+                <ArchiveRestore size={18} />
+              </button>
+            ) : canArchive(savedJob) && (
+              <button onClick={() => handleLifecycleChange(archiveJob())} className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700 rounded" title="Archivar">
+                <Archive size={18} />
+              </button>
+            )}
+            {can(role, 'jobs.delete') && (
+            <button
+              onClick={handleDelete}
+              disabled={!!deleteBlocker}
+              className="p-2 text-gray-500 dark:text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+              title={deleteBlocker || 'Enviar a la papelera'}
+            >
+              <Trash2 size={18} />
+            </button>
+            )}
+          </div>
 
           <div className="flex space-x-3">
             <button 
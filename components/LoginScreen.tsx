@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { FirebaseConfig } from '../types';
+import { signIn, createFirstAdmin } from '../services/authService';
+import { Wrench, LogIn, UserPlus, RefreshCw, AlertCircle, Settings as SettingsIcon } from 'lucide-react';
+
+interface Props {
+  config: FirebaseConfig;
+  error?: string; // Why the last account was turned away, from the auth listener
+  onOpenSettings: () => void; // Connection settings, e.g. to point the device at another project
+}
+
+// Shown instead of the app when a cloud is configured and nobody is signed in on this device
+export const LoginScreen: React.FC<Props> = ({ config, error, onOpenSettings }) => {
+  const [mode, setMode] = useState<'signIn' | 'firstAdmin'>('signIn');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'firstAdmin' && !name.trim()) {
+      setFormError('Indica tu nombre, aparecerá en el historial de los trabajos.');
+      return;
+    }
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      if (mode === 'signIn') await signIn(config, email, password);
+      else await createFirstAdmin(config, name, email, password);
+    } catch (err: any) {
+      setFormError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const shownError = formError || error;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4 font-sans transition-colors duration-300">
+      <div className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        <div className="bg-slate-900 text-white px-6 py-5 flex items-center">
+          <Wrench className="h-7 w-7 text-blue-500 mr-3" />
+          <span className="font-bold text-xl tracking-tight">TallerPro <span className="text-blue-400">AI</span></span>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">
+            {mode === 'signIn' ? 'Iniciar sesión' : 'Crear cuenta de administrador'}
+          </h2>
+          {mode === 'firstAdmin' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Solo para el primer usuario de un taller nuevo. El resto de cuentas las crea el administrador desde Configuración.
+            </p>
+          )}
+
+          {mode === 'firstAdmin' && (
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nombre"
+              className="w-full p-2.5 border border-gray-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          )}
+          <input
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            required
+            className="w-full p-2.5 border border-gray-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <input
+            type="password"
+            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Contraseña"
+            required
+            className="w-full p-2.5 border border-gray-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+
+          {shownError && (
+            <div className="flex items-start p-2.5 rounded text-xs bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800">
+              <AlertCircle size={14} className="mr-2 mt-0.5 shrink-0" />
+              <span>{shownError}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-2.5 bg-blue-600 text-white font-bold rounded shadow hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+          >
+            {submitting
+              ? <RefreshCw size={16} className="animate-spin mr-2" />
+              : mode === 'signIn' ? <LogIn size={16} className="mr-2" /> : <UserPlus size={16} className="mr-2" />}
+            {mode === 'signIn' ? 'Entrar' : 'Crear y entrar'}
+          </button>
+
+          <div className="flex justify-between text-xs pt-2 border-t border-gray-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={() => { setMode(mode === 'signIn' ? 'firstAdmin' : 'signIn'); setFormError(null); }}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {mode === 'signIn' ? 'Taller nuevo: crear administrador' : 'Ya tengo cuenta'}
+            </button>
+            <button type="button" onClick={onOpenSettings} className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 flex items-center">
+              <SettingsIcon size={12} className="mr-1" /> Conexión
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
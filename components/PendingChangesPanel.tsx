@@ -0,0 +1,85 @@
+import React from 'react';
+import { AppData, OutboxEntry } from '../types';
+import { getRetryDelay } from '../services/outboxService';
+import { RefreshCw, X, AlertCircle, Clock } from 'lucide-react';
+
+interface Props {
+  entries: OutboxEntry[];
+  online: boolean;
+  syncing: boolean;
+  failures: number; // Consecutive failed syncs
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<keyof AppData, string> = {
+  jobs: 'Trabajo',
+  customers: 'Cliente',
+  vehicles: 'Vehículo',
+  invoices: 'Factura',
+  insurers: 'Aseguradora',
+  auditLog: 'Historial',
+  technicians: 'Técnico'
+};
+
+// Dropdown under the navbar sync indicator listing the changes not uploaded yet
+export const PendingChangesPanel: React.FC<Props> = ({ entries, online, syncing, failures, onRetry, onClose }) => {
+  const sorted = entries.slice().sort((a, b) => a.queuedAt - b.queuedAt);
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-white dark:bg-slate-800 text-gray-800 dark:text-gray-100 rounded-lg shadow-xl border border-gray-200 dark:border-slate-700 z-50">
+      <div className="flex items-center justify-between px-4 py-3 border-b dark:border-slate-700">
+        <span className="font-bold text-sm">Cambios pendientes ({entries.length})</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-b dark:border-slate-700">
+        {!online
+          ? 'Sin conexión. Se enviarán al recuperar la conexión.'
+          : failures > 0
+            ? `Último intento fallido. Nuevo intento en ${Math.round(getRetryDelay(failures) / 1000)} s.`
+            : 'Se enviarán en la próxima sincronización.'}
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-gray-400">Todo está sincronizado.</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 dark:divide-slate-700">
+          {sorted.map(entry => (
+            <li key={entry.id} className="px-4 py-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center min-w-0">
+                  {entry.lastError
+                    ? <AlertCircle size={14} className="mr-2 shrink-0 text-red-500" />
+                    : <Clock size={14} className="mr-2 shrink-0 text-amber-500" />}
+                  <span className="text-gray-500 dark:text-gray-400 mr-1">{COLLECTION_LABELS[entry.collection]}:</span>
+                  <span className="font-medium truncate">{entry.label}</span>
+                </span>
+                <span className="text-xs text-gray-400 ml-2 whitespace-nowrap">
+                  {new Date(entry.queuedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              {entry.lastError && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400 break-words">
+                  {entry.attempts} intento(s): {entry.lastError}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="px-4 py-3 border-t dark:border-slate-700 flex justify-end">
+        <button
+          onClick={onRetry}
+          disabled={!online || syncing}
+          className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+        >
+          <RefreshCw size={14} className={`mr-1 ${syncing ? 'animate-spin' : ''}`} /> Reintentar ahora
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { Job, Technician } from '../types';
+import { buildProductivityReport, formatHours } from '../services/timeTrackingService';
+import { Gauge } from 'lucide-react';
+
+interface Props {
+  jobs: Job[]; // Already filtered by the dashboard
+  technicians: Technician[];
+}
+
+const getEfficiencyColor = (efficiency?: number) => {
+  if (efficiency === undefined) return 'text-gray-400';
+  if (efficiency >= 1) return 'text-green-600 dark:text-green-400';
+  if (efficiency >= 0.8) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+export const ProductivityReport: React.FC<Props> = ({ jobs, technicians }) => {
+  const report = useMemo(() => buildProductivityReport(jobs, technicians), [jobs, technicians]);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden transition-colors">
+      <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700">
+        <h3 className="text-sm font-bold text-gray-800 dark:text-white flex items-center">
+          <Gauge size={16} className="mr-2 text-blue-500" /> Productividad de técnicos
+          <span className="ml-2 text-xs font-normal text-gray-400">(trabajos filtrados)</span>
+        </h3>
+      </div>
+      {report.length === 0 ? (
+        <p className="px-6 py-6 text-sm text-gray-400 italic">No hay horas fichadas en los trabajos seleccionados.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-slate-900/50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Técnico</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Trabajos</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Horas reales</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Horas presupuestadas</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Rendimiento</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+            {report.map(row => (
+              <tr key={row.technician.id}>
+                <td className="px-6 py-3">
+                  <div className="font-medium text-gray-900 dark:text-white">{row.technician.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{row.technician.role}</div>
+                </td>
+                <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">{row.jobs}</td>
+                <td className="px-6 py-3 text-right font-mono text-gray-700 dark:text-gray-300">{formatHours(row.actualHours)}</td>
+                <td className="px-6 py-3 text-right font-mono text-gray-700 dark:text-gray-300">{formatHours(row.earnedHours)}</td>
+                <td className={`px-6 py-3 text-right font-bold ${getEfficiencyColor(row.efficiency)}`}>
+                  {row.efficiency !== undefined ? `${Math.round(row.efficiency * 100)}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
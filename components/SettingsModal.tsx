@@ -1,21 +1,82 @@
 import React, { useState } from 'react';
-import { AppSettings, FirebaseConfig } from '../types';
-import { Save, X, Database, AlertCircle, Wifi, Flame, HelpCircle, RefreshCw, DownloadCloud } from 'lucide-react';
-import { syncWithFirebase } from '../services/firebaseService';
+import { AppData, AppSettings, AutoBackupSettings, BackupArchive, FiscalParty, FirebaseConfig, Insurer, InvoiceSeriesSettings, LaborRate, QuarantinedRecord, RepairType, SyncBackendKind, AiProviderKind, Technician, TechnicianRole, UserProfile, Workshop, WorkshopBranding } from '../types';
+import { Save, X, Database, AlertCircle, Wifi, Flame, HelpCircle, RefreshCw, DownloadCloud, Euro, Receipt, ShieldCheck, Plus, User, HardHat, AlertTriangle, Download, Trash2, Building2, Sparkles } from 'lucide-react';
+import { testFirebaseConnection } from '../services/firebaseService';
+import { getLaborRate } from '../services/estimateService';
+import { DEFAULT_INVOICE_SERIES } from '../services/invoiceService';
+import { DEFAULT_AUTO_BACKUP, downloadFile } from '../services/backupService';
+import { can } from '../services/permissionService';
+import { SYNC_BACKENDS, getBackend } from '../services/syncBackendService';
+import { AI_PROVIDERS } from '../services/aiProviderService';
+import { BackupSection } from './BackupSection';
+import { UsersSection } from './UsersSection';
+import { WorkshopsSection } from './WorkshopsSection';
 import { ToastType } from './Toast';
+import { v4 as uuidv4 } from 'uuid';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
+  insurers: Insurer[];
   onSave: (settings: AppSettings) => void;
+  onInsurersChange: (insurers: Insurer[]) => void; // Catalogue changes apply immediately
+  technicians: Technician[];
+  onTechniciansChange: (technicians: Technician[]) => void;
   onShowToast: (msg: string, type: ToastType) => void;
+  quarantine: QuarantinedRecord[];
+  onDiscardQuarantine: (id: string) => void;
+  data: AppData; // For backups
+  onRestoreBackup: (archive: BackupArchive) => void;
+  currentUser?: UserProfile | null; // Signed-in account; sections are shown by its role's permissions
+  connectionOnly?: boolean; // Opened from the sign-in screen: only the cloud connection can be changed
+  onCreateWorkshop?: (name: string) => Promise<Workshop>;
+  onWorkshopsChange?: (workshops: Workshop[]) => void;
 }
 
-export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSave, onShowToast }) => {
+// Empty fields are dropped so documents fall back to the default header
+const cleanBranding = (branding: WorkshopBranding): WorkshopBranding | undefined => {
+  const displayName = branding.displayName?.trim();
+  const contact = branding.contact?.trim();
+  return displayName || contact ? { displayName: displayName || undefined, contact: contact || undefined } : undefined;
+};
+
+const SOURCE_LABELS: Record<QuarantinedRecord['source'], string> = {
+  local: 'Local',
+  firebase: 'Firebase',
+  sheets: 'Google Sheets',
+  rest: 'Servidor propio',
+  backup: 'Copia de seguridad'
+};
+
+export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, insurers, onSave, onInsurersChange, technicians, onTechniciansChange, onShowToast, quarantine, onDiscardQuarantine, data, onRestoreBackup, currentUser, connectionOnly, onCreateWorkshop, onWorkshopsChange }) => {
+  const [syncBackend, setSyncBackend] = useState<SyncBackendKind | ''>(settings.syncBackend ?? (settings.firebaseConfig ? 'firebase' : ''));
+  const [mirrorBackend, setMirrorBackend] = useState<SyncBackendKind | ''>(settings.mirrorBackend ?? '');
+  const [sheetId, setSheetId] = useState(settings.googleSheetId || '');
+  const [sheetToken, setSheetToken] = useState(settings.googleAccessToken || '');
+  const [serverUrl, setServerUrl] = useState(settings.restServer?.url || '');
+  const [serverToken, setServerToken] = useState(settings.restServer?.token || '');
+  const [aiProxyUrl, setAiProxyUrl] = useState(settings.aiProxy?.url || '');
+  const [aiProxyKey, setAiProxyKey] = useState(settings.aiProxy?.key || '');
+  const [aiProvider, setAiProvider] = useState<AiProviderKind>(settings.aiProvider ?? 'gemini');
+  const [openAiUrl, setOpenAiUrl] = useState(settings.openAiCompatible?.url || '');
+  const [openAiModel, setOpenAiModel] = useState(settings.openAiCompatible?.model || '');
+  const [openAiKey, setOpenAiKey] = useState(settings.openAiCompatible?.apiKey || '');
   const [configJson, setConfigJson] = useState<string>(
     settings.firebaseConfig ? JSON.stringify(settings.firebaseConfig, null, 2) : ''
   );
+  const [laborRates, setLaborRates] = useState<Record<RepairType, LaborRate>>(() => ({
+    CHAPA: getLaborRate('CHAPA', settings.laborRates),
+    PINTURA: getLaborRate('PINTURA', settings.laborRates),
+    AMBOS: getLaborRate('AMBOS', settings.laborRates)
+  }));
+  const [workshopFiscal, setWorkshopFiscal] = useState<FiscalParty>(settings.workshopFiscal || { name: '', nif: '', address: '' });
+  const [invoiceSeries, setInvoiceSeries] = useState<InvoiceSeriesSettings>({ ...DEFAULT_INVOICE_SERIES, ...(settings.invoiceSeries || {}) });
+  const [branding, setBranding] = useState<WorkshopBranding>(settings.branding || {});
+  const [operatorName, setOperatorName] = useState(settings.operatorName || '');
+  const [autoBackup, setAutoBackup] = useState<AutoBackupSettings>({ ...DEFAULT_AUTO_BACKUP, ...settings.autoBackup });
+  const [newInsurerName, setNewInsurerName] = useState('');
+  const [newTechnician, setNewTechnician] = useState<{ name: string; role: TechnicianRole }>({ name: '', role: TechnicianRole.BODYWORKER });
   const [loading, setLoading] = useState(false);
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [testMessage, setTestMessage] = useState('');
@@ -23,6 +84,50 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
 
   if (!isOpen) return null;
 
+  const role = currentUser?.role;
+  const showConnection = connectionOnly || can(role, 'settings.manage');
+  const showSettings = !connectionOnly && can(role, 'settings.manage');
+  const showCatalog = !connectionOnly && can(role, 'catalog.manage');
+
+  const addInsurer = () => {
+    const name = newInsurerName.trim();
+    if (!name) return;
+    if (insurers.some(i => i.name.toLowerCase() === name.toLowerCase())) {
+      onShowToast("Ya existe una aseguradora con ese nombre", 'error');
+      return;
+    }
+    onInsurersChange([...insurers, { id: uuidv4(), name, active: true }]);
+    setNewInsurerName('');
+  };
+
+  // Insurers are never deleted, claims keep referencing them by id
+  const updateInsurer = (id: string, fields: Partial<Insurer>) => {
+    onInsurersChange(insurers.map(i => i.id === id ? { ...i, ...fields } : i));
+  };
+
+  // Raw record as it was found, so it can be repaired by hand
+  const downloadQuarantined = (record: QuarantinedRecord) => {
+    const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+    downloadFile(blob, `cuarentena_${record.source}_${record.recordId || 'sin-id'}.json`);
+  };
+
+  const discardQuarantined = (record: QuarantinedRecord) => {
+    if (!confirm('El registro dejará de mostrarse aquí. Si sigue siendo inválido volverá a aparecer en la próxima carga o sincronización. ¿Continuar?')) return;
+    onDiscardQuarantine(record.id);
+  };
+
+  const addTechnician = () => {
+    const name = newTechnician.name.trim();
+    if (!name) return;
+    onTechniciansChange([...technicians, { id: uuidv4(), name, role: newTechnician.role, active: true }]);
+    setNewTechnician({ ...newTechnician, name: '' });
+  };
+
+  // Like insurers, technicians are deactivated rather than deleted so their hours stay attributable
+  const updateTechnician = (id: string, fields: Partial<Technician>) => {
+    onTechniciansChange(technicians.map(t => t.id === id ? { ...t, ...fields } : t));
+  };
+
   const getParsedConfig = (): FirebaseConfig | null => {
     if (!configJson.trim()) return null;
 
@@ -62,8 +167,7 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
     setDetailedError(null);
 
     try {
-        const tempSettings: AppSettings = { firebaseConfig: config };
-        await syncWithFirebase([], tempSettings);
+        await testFirebaseConnection(config, currentUser?.uid);
         
         setTestStatus('success');
         setTestMessage('¡Conexión Exitosa con Firebase!');
@@ -80,7 +184,9 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
 
         if (JSON.stringify(error).includes("permission-denied") || error.code === "permission-denied") {
             msg = "Permiso Denegado.";
-            detail = "Ve a Firebase Console > Firestore > Reglas. Cambia 'allow read, write: if false;' a 'if true;' para modo de prueba.";
+            detail = currentUser
+                ? "Tu usuario no tiene permiso de lectura. Comprueba que su cuenta esté activa."
+                : "La conexión es correcta, pero las reglas exigen iniciar sesión. Guarda la configuración y entra con tu usuario. Si es un proyecto nuevo, publica las reglas del repositorio: firebase deploy --only firestore:rules,storage";
         } else if (JSON.stringify(error).includes("not-found") || error.code === "not-found" || error.code === "unimplemented") {
             msg = "Base de datos no encontrada.";
             detail = "Asegúrate de haber hecho clic en 'Crear base de datos' en la sección Firestore de la consola.";
@@ -94,16 +200,82 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
     }
   };
 
-  const handleSave = async () => {
+  const handleTestSheets = async () => {
+    setTestStatus('testing');
+    setTestMessage('Conectando con Google Sheets...');
+    setDetailedError(null);
+    try {
+        await getBackend('sheets').testConnection({ googleSheetId: sheetId.trim(), googleAccessToken: sheetToken.trim() });
+        setTestStatus('success');
+        setTestMessage('¡Conexión Exitosa con Google Sheets!');
+        onShowToast("Conexión exitosa", "success");
+    } catch (error: any) {
+        setTestStatus('error');
+        setTestMessage(error.message);
+        setDetailedError('El token de acceso caduca al cabo de una hora; genera uno nuevo si ha pasado más tiempo.');
+        onShowToast("Error conectando: " + error.message, "error");
+    }
+  };
+
+  const handleTestServer = async () => {
+    setTestStatus('testing');
+    setTestMessage('Conectando con el servidor...');
+    setDetailedError(null);
+    try {
+        await getBackend('rest').testConnection({ restServer: { url: serverUrl.trim(), token: serverToken.trim() } });
+        setTestStatus('success');
+        setTestMessage('¡Conexión Exitosa con el servidor!');
+        onShowToast("Conexión exitosa", "success");
+    } catch (error: any) {
+        setTestStatus('error');
+        setTestMessage(error.message);
+        setDetailedError('Comprueba que el servidor está en marcha en ese equipo y que la dirección incluye el puerto (ej: http://192.168.1.20:8787).');
+        onShowToast("Error conectando: " + error.message, "error");
+    }
+  };
+
+  // Connection fields as chosen in the form, or an error to show. Without a primary backend there is no mirror either.
+  const getConnection = (): Partial<AppSettings> | string => {
     const config = getParsedConfig();
-    if (!config) {
-        onShowToast("El texto introducido no es válido", "error");
+    const mirror = syncBackend && mirrorBackend !== syncBackend ? mirrorBackend : '';
+    if (syncBackend === 'firebase' && !config) return "Pega una configuración de Firebase válida";
+    if ((syncBackend === 'sheets' || mirror === 'sheets') && (!sheetId.trim() || !sheetToken.trim())) {
+        return "Indica el ID de la hoja de cálculo y el token de acceso";
+    }
+    if (syncBackend === 'rest' && (!serverUrl.trim() || !serverToken.trim())) return "Indica la dirección y el token del servidor";
+    if (aiProvider === 'openai' && (!openAiUrl.trim() || !openAiModel.trim())) return "Indica la dirección y el modelo del servidor de IA";
+    return {
+        syncBackend: syncBackend || undefined,
+        mirrorBackend: mirror || undefined,
+        firebaseConfig: syncBackend === 'firebase' ? config! : undefined,
+        googleSheetId: sheetId.trim() || undefined,
+        googleAccessToken: sheetToken.trim() || undefined,
+        restServer: syncBackend === 'rest' ? { url: serverUrl.trim(), token: serverToken.trim() } : settings.restServer,
+        aiProvider: aiProvider === 'gemini' ? undefined : aiProvider,
+        aiProxy: aiProxyKey.trim() ? { url: aiProxyUrl.trim() || undefined, key: aiProxyKey.trim() } : undefined,
+        openAiCompatible: openAiUrl.trim() && openAiModel.trim()
+            ? { url: openAiUrl.trim(), model: openAiModel.trim(), apiKey: openAiKey.trim() || undefined }
+            : undefined
+    };
+  };
+
+  const handleRateChange = (repairType: RepairType, field: keyof LaborRate, value: string) => {
+    setLaborRates(prev => ({
+        ...prev,
+        [repairType]: { ...prev[repairType], [field]: Number(value) || 0 }
+    }));
+  };
+
+  const handleSave = async () => {
+    const connection = getConnection();
+    if (typeof connection === 'string') {
+        onShowToast(connection, "error");
         return;
     }
 
     setLoading(true);
     try {
-        onSave({ firebaseConfig: config });
+        onSave({ ...settings, ...connection, laborRates, workshopFiscal, invoiceSeries, branding: cleanBranding(branding), operatorName: operatorName.trim() || undefined, autoBackup });
         onClose();
     } catch (error) {
         onShowToast("Error guardando configuración", "error");
@@ -113,14 +285,14 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
   };
   
   const handleImport = async () => {
-      const config = getParsedConfig();
-      if (!config) {
-          onShowToast("Configuración inválida", "error");
+      const connection = getConnection();
+      if (typeof connection === 'string' || !connection.syncBackend) {
+          onShowToast(typeof connection === 'string' ? connection : "Elige un servicio de sincronización", "error");
           return;
       }
       onShowToast("Importando datos de la nube...", "info");
       // This triggers the sync in App.tsx
-      onSave({ firebaseConfig: config }); 
+      onSave({ ...settings, ...connection, laborRates, workshopFiscal, invoiceSeries, branding: cleanBranding(branding), operatorName: operatorName.trim() || undefined, autoBackup }); 
       onClose();
   };
 
@@ -130,7 +302,7 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
         <div className="bg-orange-600 text-white p-4 flex justify-between items-center shrink-0">
           <h2 className="text-lg font-bold flex items-center">
             <Database className="mr-2" size={20} />
-            Configuración Firebase
+            Configuración
           </h2>
           <button onClick={onClose} className="text-white hover:text-gray-200">
             <X size={24} />
@@ -138,6 +310,102 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
         </div>
 
         <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {showConnection && (<>
+          {/* Sync Backend */}
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1">Sincronización</label>
+            <select
+              value={syncBackend}
+              onChange={(e) => { setSyncBackend(e.target.value as SyncBackendKind | ''); setTestStatus('idle'); }}
+              className="w-full p-2 border border-gray-300 rounded text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+            >
+              <option value="">Solo este equipo (sin nube)</option>
+              {SYNC_BACKENDS.map(b => <option key={b.kind} value={b.kind}>{b.label}</option>)}
+            </select>
+            {syncBackend === 'sheets' && (
+              <div className="mt-2 p-3 rounded border bg-yellow-50 text-yellow-800 border-yellow-200 text-xs">
+                <div className="flex items-center font-bold mb-1">
+                  <AlertTriangle size={14} className="mr-1 shrink-0" /> Google Sheets solo sincroniza los trabajos
+                </div>
+                <p>Sin fotos ni usuarios. Clientes, vehículos, aseguradoras, técnicos, facturas e historial de cambios quedan solo en este equipo: los demás no los verán.</p>
+                <p className="mt-1">Las facturas se numeran en este equipo, así que emítelas siempre desde el mismo para no repetir números.</p>
+              </div>
+            )}
+          </div>
+
+          {syncBackend && (
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1">Copia de solo lectura</label>
+            <select
+              value={mirrorBackend}
+              onChange={(e) => { setMirrorBackend(e.target.value as SyncBackendKind | ''); setTestStatus('idle'); }}
+              className="w-full p-2 border border-gray-300 rounded text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+            >
+              <option value="">Ninguna</option>
+              {SYNC_BACKENDS.filter(b => b.push && b.kind !== syncBackend).map(b => <option key={b.kind} value={b.kind}>{b.label}</option>)}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">Se reescribe tras cada sincronización (p. ej. para la gestoría). Los cambios hechos en la copia no vuelven a la app.</p>
+          </div>
+          )}
+
+          {(syncBackend === 'sheets' || (syncBackend && mirrorBackend === 'sheets')) && (
+          <div className="grid grid-cols-1 gap-2 text-sm">
+            <input
+              value={sheetId}
+              onChange={(e) => setSheetId(e.target.value)}
+              placeholder="ID de la hoja de cálculo (de su URL)"
+              className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            <input
+              type="password"
+              value={sheetToken}
+              onChange={(e) => setSheetToken(e.target.value)}
+              placeholder="Token de acceso OAuth de Google"
+              className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleTestSheets}
+                disabled={testStatus === 'testing'}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center bg-blue-50 px-3 py-1.5 rounded border border-blue-100 transition-colors"
+              >
+                {testStatus === 'testing' ? <RefreshCw className="animate-spin mr-2" size={14}/> : <Wifi size={14} className="mr-2"/>}
+                Probar Google Sheets
+              </button>
+            </div>
+          </div>
+          )}
+
+          {syncBackend === 'rest' && (
+          <div className="grid grid-cols-1 gap-2 text-sm">
+            <input
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="Dirección del servidor (ej: http://192.168.1.20:8787)"
+              className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            <input
+              type="password"
+              value={serverToken}
+              onChange={(e) => setServerToken(e.target.value)}
+              placeholder="Token del servidor"
+              className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            <p className="text-xs text-gray-400">Servidor de sincronización instalado en un equipo del taller (carpeta <code>server/</code>). Sin cuentas de usuario: cualquiera con el token sincroniza.</p>
+            <div className="flex justify-end">
+              <button
+                onClick={handleTestServer}
+                disabled={testStatus === 'testing'}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center bg-blue-50 px-3 py-1.5 rounded border border-blue-100 transition-colors"
+              >
+                {testStatus === 'testing' ? <RefreshCw className="animate-spin mr-2" size={14}/> : <Wifi size={14} className="mr-2"/>}
+                Probar servidor
+              </button>
+            </div>
+          </div>
+          )}
+
+          {syncBackend === 'firebase' && (<>
           <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
             <h3 className="text-sm font-bold text-orange-800 mb-2 flex items-center">
                 <Flame size={16} className="mr-1"/> Integración Firestore
@@ -182,6 +450,7 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
                </button>
             </div>
           </div>
+          </>)}
 
           {/* Test Result Area */}
           {testStatus !== 'idle' && (
@@ -202,6 +471,368 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
                   )}
               </div>
           )}
+
+          {/* AI Provider */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <Sparkles size={16} className="mr-1"/> Inteligencia artificial
+            </h3>
+            <select
+              value={aiProvider}
+              onChange={(e) => setAiProvider(e.target.value as AiProviderKind)}
+              className="w-full p-2 mb-2 border border-gray-300 rounded text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+            >
+              {AI_PROVIDERS.map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+            </select>
+            {aiProvider === 'gemini' && (<>
+            <div className="grid grid-cols-1 gap-2 text-sm">
+              <input
+                value={aiProxyUrl}
+                onChange={(e) => setAiProxyUrl(e.target.value)}
+                placeholder="Dirección del proxy (vacío: la misma que la app)"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                type="password"
+                value={aiProxyKey}
+                onChange={(e) => setAiProxyKey(e.target.value)}
+                placeholder="Clave de usuario del proxy"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">La identificación de matrículas, el análisis de daños y el asistente pasan por el proxy, que guarda la clave de Gemini. Pide tu clave al administrador.</p>
+            </>)}
+            {aiProvider === 'openai' && (<>
+            <div className="grid grid-cols-1 gap-2 text-sm">
+              <input
+                value={openAiUrl}
+                onChange={(e) => setOpenAiUrl(e.target.value)}
+                placeholder="Dirección de la API (ej: http://localhost:11434/v1)"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                value={openAiModel}
+                onChange={(e) => setOpenAiModel(e.target.value)}
+                placeholder="Modelo con visión (ej: qwen2.5vl:7b)"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                type="password"
+                value={openAiKey}
+                onChange={(e) => setOpenAiKey(e.target.value)}
+                placeholder="Clave de la API (opcional)"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">Para un modelo instalado en un equipo del taller (Ollama, LM Studio, llama.cpp...). La clave, si la hay, se guarda en este equipo. Sin búsqueda web en el asistente.</p>
+            </>)}
+            {aiProvider === 'mock' && (
+              <p className="text-xs text-gray-400">Respuestas de prueba fijas, sin conexión: para desarrollo y demostraciones. No analiza las fotos de verdad.</p>
+            )}
+          </div>
+          </>)}
+
+          {showSettings && (<>
+          {/* Labor Rates */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <Euro size={16} className="mr-1"/> Tarifas de Presupuesto (sin IVA)
+            </h3>
+            <table className="w-full text-xs">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left py-1">Tipo</th>
+                  <th className="text-right py-1">Chapa €/h</th>
+                  <th className="text-right py-1">Pintura €/h</th>
+                  <th className="text-right py-1">Material €/h</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(['CHAPA', 'PINTURA', 'AMBOS'] as RepairType[]).map(type => (
+                  <tr key={type}>
+                    <td className="py-1 font-bold text-gray-700">{type}</td>
+                    {(['bodyHour', 'paintHour', 'paintMaterialPerHour'] as (keyof LaborRate)[]).map(field => (
+                      <td key={field} className="py-1 pl-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={laborRates[type][field]}
+                          onChange={(e) => handleRateChange(type, field, e.target.value)}
+                          className="w-full p-1.5 border border-gray-300 rounded text-right bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Operator, only without accounts: signed-in users are recorded by name */}
+          {!currentUser && (
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <User size={16} className="mr-1"/> Operario
+            </h3>
+            <input
+              value={operatorName}
+              onChange={(e) => setOperatorName(e.target.value)}
+              placeholder="Nombre de quien usa este equipo"
+              className="w-full p-2 border border-gray-300 rounded text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            <p className="text-xs text-gray-400 mt-1">Se registra en cada cambio de estado de los trabajos.</p>
+          </div>
+          )}
+
+          {/* Branding, on printed documents */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <Building2 size={16} className="mr-1"/> Rótulo en documentos
+            </h3>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <input
+                value={branding.displayName || ''}
+                onChange={(e) => setBranding({ ...branding, displayName: e.target.value })}
+                placeholder="Nombre comercial (ej: Taller Norte)"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                value={branding.contact || ''}
+                onChange={(e) => setBranding({ ...branding, contact: e.target.value })}
+                placeholder="Teléfono, email o web"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">Aparece en la cabecera de las órdenes de trabajo y presupuestos en PDF.</p>
+          </div>
+
+          {/* Fiscal Data & Invoice Series */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <Receipt size={16} className="mr-1"/> Datos Fiscales y Facturación
+            </h3>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <input
+                value={workshopFiscal.name}
+                onChange={(e) => setWorkshopFiscal({ ...workshopFiscal, name: e.target.value })}
+                placeholder="Razón social del taller"
+                className="col-span-2 p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                value={workshopFiscal.nif}
+                onChange={(e) => setWorkshopFiscal({ ...workshopFiscal, nif: e.target.value.toUpperCase() })}
+                placeholder="NIF / CIF"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 uppercase focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <input
+                value={workshopFiscal.address || ''}
+                onChange={(e) => setWorkshopFiscal({ ...workshopFiscal, address: e.target.value })}
+                placeholder="Dirección fiscal"
+                className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+              />
+              <label className="text-xs text-gray-500 flex items-center">
+                Serie ordinaria
+                <input
+                  value={invoiceSeries.ordinaryPrefix}
+                  onChange={(e) => setInvoiceSeries({ ...invoiceSeries, ordinaryPrefix: e.target.value.toUpperCase() })}
+                  maxLength={4}
+                  className="ml-2 w-16 p-1.5 border border-gray-300 rounded bg-white text-gray-900 font-mono uppercase focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+              </label>
+              <label className="text-xs text-gray-500 flex items-center">
+                Serie rectificativa
+                <input
+                  value={invoiceSeries.rectifyingPrefix}
+                  onChange={(e) => setInvoiceSeries({ ...invoiceSeries, rectifyingPrefix: e.target.value.toUpperCase() })}
+                  maxLength={4}
+                  className="ml-2 w-16 p-1.5 border border-gray-300 rounded bg-white text-gray-900 font-mono uppercase focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">El año se añade a la serie automáticamente (ej: {invoiceSeries.ordinaryPrefix}{new Date().getFullYear()}-0001).</p>
+          </div>
+          </>)}
+
+          {showCatalog && (<>
+          {/* Insurer Catalogue */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <ShieldCheck size={16} className="mr-1"/> Aseguradoras
+            </h3>
+            <div className="space-y-2">
+              {insurers.length === 0 && (
+                <p className="text-xs text-gray-400 italic">No hay aseguradoras registradas.</p>
+              )}
+              {insurers.map(insurer => (
+                <div key={insurer.id} className={`grid grid-cols-12 gap-2 items-center text-sm ${insurer.active ? '' : 'opacity-60'}`}>
+                  <input
+                    value={insurer.name}
+                    onChange={(e) => updateInsurer(insurer.id, { name: e.target.value })}
+                    className="col-span-4 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                  />
+                  <input
+                    value={insurer.phone || ''}
+                    onChange={(e) => updateInsurer(insurer.id, { phone: e.target.value || undefined })}
+                    placeholder="Teléfono"
+                    className="col-span-3 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                  />
+                  <input
+                    value={insurer.email || ''}
+                    onChange={(e) => updateInsurer(insurer.id, { email: e.target.value || undefined })}
+                    placeholder="Email"
+                    className="col-span-3 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                  />
+                  <label className="col-span-2 text-xs text-gray-500 flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={insurer.active}
+                      onChange={(e) => updateInsurer(insurer.id, { active: e.target.checked })}
+                      className="mr-1"
+                    />
+                    Activa
+                  </label>
+                </div>
+              ))}
+              <div className="flex">
+                <input
+                  value={newInsurerName}
+                  onChange={(e) => setNewInsurerName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addInsurer()}
+                  placeholder="Nueva aseguradora (Ej: Mapfre, Allianz...)"
+                  className="flex-1 p-2 border border-gray-300 rounded-l text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+                <button onClick={addInsurer} className="bg-orange-600 text-white px-3 rounded-r hover:bg-orange-700 flex items-center text-sm">
+                  <Plus size={14} className="mr-1" /> Añadir
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Technicians Roster */}
+          <div>
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+                <HardHat size={16} className="mr-1"/> Técnicos
+            </h3>
+            <div className="space-y-2">
+              {technicians.length === 0 && (
+                <p className="text-xs text-gray-400 italic">No hay técnicos registrados.</p>
+              )}
+              {technicians.map(technician => (
+                <div key={technician.id} className={`grid grid-cols-12 gap-2 items-center text-sm ${technician.active ? '' : 'opacity-60'}`}>
+                  <input
+                    value={technician.name}
+                    onChange={(e) => updateTechnician(technician.id, { name: e.target.value })}
+                    className="col-span-6 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                  />
+                  <select
+                    value={technician.role}
+                    onChange={(e) => updateTechnician(technician.id, { role: e.target.value as TechnicianRole })}
+                    className="col-span-4 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                  >
+                    {Object.values(TechnicianRole).map(role => <option key={role} value={role}>{role}</option>)}
+                  </select>
+                  <label className="col-span-2 text-xs text-gray-500 flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={technician.active}
+                      onChange={(e) => updateTechnician(technician.id, { active: e.target.checked })}
+                      className="mr-1"
+                    />
+                    Activo
+                  </label>
+                </div>
+              ))}
+              <div className="flex">
+                <input
+                  value={newTechnician.name}
+                  onChange={(e) => setNewTechnician({ ...newTechnician, name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && addTechnician()}
+                  placeholder="Nombre del técnico"
+                  className="flex-1 p-2 border border-gray-300 rounded-l text-sm bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+                <select
+                  value={newTechnician.role}
+                  onChange={(e) => setNewTechnician({ ...newTechnician, role: e.target.value as TechnicianRole })}
+                  className="p-2 border-y border-gray-300 text-sm bg-white text-gray-900 outline-none"
+                >
+                  {Object.values(TechnicianRole).map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+                <button onClick={addTechnician} className="bg-orange-600 text-white px-3 rounded-r hover:bg-orange-700 flex items-center text-sm">
+                  <Plus size={14} className="mr-1" /> Añadir
+                </button>
+              </div>
+            </div>
+          </div>
+
+          </>)}
+
+          {/* Users */}
+          {currentUser && settings.firebaseConfig && can(role, 'users.manage') && (
+            <UsersSection config={settings.firebaseConfig} currentUid={currentUser.uid} currentWorkshopId={settings.workshopId} onShowToast={onShowToast} />
+          )}
+
+          {/* Workshops */}
+          {currentUser && settings.firebaseConfig && onCreateWorkshop && onWorkshopsChange && can(role, 'workshops.manage') && (
+            <WorkshopsSection
+              config={settings.firebaseConfig}
+              currentWorkshopId={settings.workshopId}
+              onCreate={onCreateWorkshop}
+              onWorkshopsChange={onWorkshopsChange}
+              onShowToast={onShowToast}
+            />
+          )}
+
+          {showSettings && (<>
+          {/* Backup & Restore */}
+          <BackupSection
+            data={data}
+            settings={settings}
+            autoBackup={autoBackup}
+            onAutoBackupChange={setAutoBackup}
+            onRestore={(archive) => { onRestoreBackup(archive); onClose(); }}
+            onShowToast={onShowToast}
+          />
+
+          {/* Quarantined Records */}
+          {quarantine.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-red-700 mb-2 flex items-center">
+                  <AlertTriangle size={16} className="mr-1"/> Registros en cuarentena ({quarantine.length})
+              </h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Estos registros no superaron la validación y no se han cargado. Los originales no se modifican.
+              </p>
+              <div className="space-y-2">
+                {quarantine.map(record => (
+                  <div key={record.id} className="border border-red-200 bg-red-50 rounded p-2 text-sm">
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-800 truncate">
+                          {record.kind === 'job' ? 'Trabajo' : 'Configuración'} {record.recordId || '(sin identificador)'}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {SOURCE_LABELS[record.source]} · {new Date(record.at).toLocaleString()}
+                        </div>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <button onClick={() => downloadQuarantined(record)} className="p-1.5 text-gray-600 hover:bg-red-100 rounded" title="Descargar JSON">
+                          <Download size={14} />
+                        </button>
+                        <button onClick={() => discardQuarantined(record)} className="p-1.5 text-gray-600 hover:text-red-600 hover:bg-red-100 rounded" title="Descartar">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    <ul className="mt-1 text-xs text-red-700 list-disc list-inside">
+                      {record.reasons.map((reason, idx) => <li key={idx}>{reason}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          </>)}
         </div>
 
         {/* Footer */}
@@ -214,14 +845,16 @@ export const SettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSa
           </button>
           
           <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+              {!connectionOnly && (
               <button 
                 onClick={handleImport}
                 className="px-4 py-2 bg-indigo-100 text-indigo-700 font-bold rounded shadow hover:bg-indigo-200 transition-all flex items-center justify-center"
-                title="Descargar datos existentes de Firebase"
+                title="Descargar los datos existentes en la nube"
               >
                 <DownloadCloud className="mr-2" size={18} />
                 Importar Datos
               </button>
+              )}
 
               <button 
                 onClick={handleSave}
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { EstimateLineType, Job, Technician } from '../types';
+import { formatPart } from '../services/damageService';
+import {
+  LABOR_CATEGORIES, LABOR_LINE_BY_ROLE, createAssignment, getRunningEntry, startTimer, pauseTimer, stopTimer,
+  getAssignmentHours, getEstimatedHours, getActualHours, formatHours
+} from '../services/timeTrackingService';
+import { Play, Pause, Square, Plus, Trash2, CheckCircle } from 'lucide-react';
+
+interface Props {
+  job: Job;
+  technicians: Technician[];
+  onChange: (fields: Pick<Job, 'assignments' | 'timeEntries'>) => void; // Persisted immediately, clocking cannot wait for "Guardar"
+}
+
+export const TechnicianPanel: React.FC<Props> = ({ job, technicians, onChange }) => {
+  const [technicianId, setTechnicianId] = useState('');
+  const [partId, setPartId] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  const assignments = job.assignments || [];
+  const anyRunning = assignments.some(a => getRunningEntry(job, a.id));
+
+  // Refresh running timers every 30s
+  useEffect(() => {
+    if (!anyRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [anyRunning]);
+
+  const activeTechnicians = technicians.filter(t => t.active);
+  const technicianName = (id: string) => technicians.find(t => t.id === id)?.name || 'Técnico desconocido';
+
+  const addAssignment = () => {
+    const technician = technicians.find(t => t.id === technicianId);
+    if (!technician) return;
+    onChange({ assignments: [...assignments, createAssignment(technician, partId || undefined)], timeEntries: job.timeEntries || [] });
+    setPartId('');
+  };
+
+  const removeAssignment = (id: string) => {
+    if (getAssignmentHours(job, id) > 0 && !confirm('Esta tarea tiene horas fichadas. ¿Eliminarla junto con sus horas?')) return;
+    onChange({
+      assignments: assignments.filter(a => a.id !== id),
+      timeEntries: (job.timeEntries || []).filter(e => e.assignmentId !== id)
+    });
+  };
+
+  const getDeviationColor = (estimated: number, actual: number) => {
+    if (estimated === 0 || actual === 0) return 'text-gray-500 dark:text-gray-400';
+    return actual <= estimated ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+  };
+
+  const selectClass = "p-2 border border-gray-300 dark:border-slate-600 rounded text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-4">
+      {/* Estimated vs actual */}
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+        <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Horas previstas vs reales</h3>
+        <div className="grid grid-cols-2 gap-4">
+          {LABOR_CATEGORIES.map(category => {
+            const estimated = getEstimatedHours(job, category);
+            const actual = getActualHours(job, category, undefined, now);
+            return (
+              <div key={category} className="text-sm">
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{category === EstimateLineType.BODY_LABOR ? 'Chapa' : 'Pintura y preparación'}</div>
+                <span className="text-gray-700 dark:text-gray-300">{formatHours(estimated)}</span>
+                <span className="text-gray-400 mx-1">/</span>
+                <span className={`font-bold ${getDeviationColor(estimated, actual)}`}>{formatHours(actual)}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Assignments */}
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border dark:border-slate-700 shadow-sm">
+        <h3 className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-3 border-b dark:border-slate-700 pb-2">Técnicos asignados</h3>
+
+        {assignments.length === 0 ? (
+          <p className="text-gray-400 italic text-sm mb-3">No hay técnicos asignados a este trabajo.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-slate-700 mb-3">
+            {assignments.map(assignment => {
+              const running = !!getRunningEntry(job, assignment.id);
+              const part = assignment.partId ? job.identifiedParts.find(p => p.id === assignment.partId) : undefined;
+              const actual = getAssignmentHours(job, assignment.id, now);
+              const estimated = getEstimatedHours(job, LABOR_LINE_BY_ROLE[assignment.task], assignment.partId);
+              return (
+                <div key={assignment.id} className="py-2 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+                      {technicianName(assignment.technicianId)}
+                      {assignment.completedAt && <CheckCircle size={14} className="ml-2 text-green-500" />}
+                      {running && <span className="ml-2 w-2 h-2 rounded-full bg-red-500 animate-pulse" title="Fichando" />}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {assignment.task} · {part ? formatPart(part) : 'Todo el trabajo'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className={`text-sm font-mono ${getDeviationColor(estimated, actual)}`} title={`Previsto: ${formatHours(estimated)}`}>
+                      {formatHours(actual)}
+                    </span>
+                    {running ? (
+                      <button onClick={() => onChange(pauseTimer(job, assignment.id))} className="p-1.5 rounded bg-yellow-100 text-yellow-700 hover:bg-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-300" title="Pausar">
+                        <Pause size={14} />
+                      </button>
+                    ) : (
+                      <button onClick={() => onChange(startTimer(job, assignment.id))} className="p-1.5 rounded bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300" title={assignment.completedAt ? 'Reabrir' : 'Iniciar'}>
+                        <Play size={14} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onChange(stopTimer(job, assignment.id))}
+                      disabled={!!assignment.completedAt}
+                      className="p-1.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-gray-300 disabled:opacity-40"
+                      title="Terminar tarea"
+                    >
+                      <Square size={14} />
+                    </button>
+                    <button onClick={() => removeAssignment(assignment.id)} className="p-1.5 text-gray-400 hover:text-red-500" title="Quitar asignación">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <select value={technicianId} onChange={(e) => setTechnicianId(e.target.value)} className={`flex-1 ${selectClass}`}>
+            <option value="">Técnico...</option>
+            {activeTechnicians.map(t => <option key={t.id} value={t.id}>{t.name} ({t.role})</option>)}
+          </select>
+          <select value={partId} onChange={(e) => setPartId(e.target.value)} className={`flex-1 ${selectClass}`}>
+            <option value="">Todo el trabajo</option>
+            {job.identifiedParts.map(p => <option key={p.id} value={p.id}>{formatPart(p)}</option>)}
+          </select>
+          <button
+            onClick={addAssignment}
+            disabled={!technicianId}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center text-sm"
+          >
+            <Plus size={16} className="mr-1" /> Asignar
+          </button>
+        </div>
+        {activeTechnicians.length === 0 && (
+          <p className="text-xs text-gray-400 mt-2">Da de alta técnicos en Configuración para poder asignarlos.</p>
+        )}
+      </div>
+    </div>
+  );
+};
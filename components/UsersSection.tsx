@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { FirebaseConfig, UserProfile, UserRole, Workshop } from '../types';
+import { listUserProfiles, listWorkshops, updateUserProfile } from '../services/firebaseService';
+import { createUserAccount, describeAuthError } from '../services/authService';
+import { USER_ROLES } from '../services/permissionService';
+import { ToastType } from './Toast';
+import { Users, Plus, RefreshCw } from 'lucide-react';
+
+interface Props {
+  config: FirebaseConfig;
+  currentUid: string;
+  currentWorkshopId?: string; // New accounts start with access to it
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+const EMPTY_ACCOUNT = { name: '', email: '', password: '', role: UserRole.RECEPTION };
+
+// Accounts of the workshop. Changes are written straight to the cloud, not with the rest of the settings.
+// Users are deactivated rather than deleted so their name stays on the history they signed.
+// Administrators see every workshop; everyone else only the ones ticked here.
+export const UsersSection: React.FC<Props> = ({ config, currentUid, currentWorkshopId, onShowToast }) => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [workshops, setWorkshops] = useState<Workshop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    Promise.all([listUserProfiles(config), listWorkshops(config)])
+      .then(([profiles, allWorkshops]) => {
+        setUsers(profiles);
+        setWorkshops(allWorkshops);
+      })
+      .catch(e => onShowToast(`No se pudieron cargar los usuarios: ${describeAuthError(e)}`, 'error'))
+      .finally(() => setLoading(false));
+  }, [config]);
+
+  const updateUser = async (uid: string, changes: Partial<Pick<UserProfile, 'name' | 'role' | 'active' | 'workshopIds'>>) => {
+    const previous = users;
+    setUsers(users.map(u => u.uid === uid ? { ...u, ...changes } : u));
+    try {
+      await updateUserProfile(config, uid, changes);
+    } catch (e) {
+      setUsers(previous);
+      onShowToast(`No se pudo guardar el usuario: ${describeAuthError(e)}`, 'error');
+    }
+  };
+
+  const addUser = async () => {
+    if (!newAccount.name.trim() || !newAccount.email.trim() || !newAccount.password) {
+      onShowToast("Rellena nombre, email y contraseña", 'error');
+      return;
+    }
+    setCreating(true);
+    try {
+      const profile = await createUserAccount(config, { ...newAccount, workshopIds: currentWorkshopId ? [currentWorkshopId] : [] });
+      setUsers([...users, profile].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewAccount(EMPTY_ACCOUNT);
+      onShowToast(`Cuenta creada para ${profile.name}`, 'success');
+    } catch (e: any) {
+      onShowToast(e.message, 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+          <Users size={16} className="mr-1"/> Usuarios
+      </h3>
+      <div className="space-y-2">
+        {loading && <p className="text-xs text-gray-400 italic">Cargando usuarios...</p>}
+        {users.map(user => {
+          const isSelf = user.uid === currentUid;
+          return (
+            <div key={user.uid} className={`grid grid-cols-12 gap-2 items-center text-sm ${user.active ? '' : 'opacity-60'}`}>
+              <div className="col-span-6 min-w-0">
+                <input
+                  value={user.name}
+                  onChange={(e) => setUsers(users.map(u => u.uid === user.uid ? { ...u, name: e.target.value } : u))}
+                  onBlur={(e) => e.target.value.trim() && updateUser(user.uid, { name: e.target.value.trim() })}
+                  className="w-full p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+                <div className="text-xs text-gray-400 truncate mt-0.5">{user.email}</div>
+              </div>
+              <select
+                value={user.role}
+                disabled={isSelf}
+                onChange={(e) => updateUser(user.uid, { role: e.target.value as UserRole })}
+                className="col-span-4 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none disabled:bg-gray-100"
+              >
+                {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <label className="col-span-2 text-xs text-gray-500 flex items-center">
+                <input
+                  type="checkbox"
+                  checked={user.active}
+                  disabled={isSelf}
+                  onChange={(e) => updateUser(user.uid, { active: e.target.checked })}
+                  className="mr-1"
+                />
+                Activo
+              </label>
+              {workshops.length > 0 && user.role !== UserRole.ADMIN && (
+                <div className="col-span-12 flex flex-wrap gap-x-3 text-xs text-gray-500">
+                  {workshops.map(workshop => (
+                    <label key={workshop.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={!!user.workshopIds?.includes(workshop.id)}
+                        onChange={(e) => updateUser(user.uid, {
+                          workshopIds: e.target.checked
+                            ? [...(user.workshopIds || []), workshop.id]
+                            : (user.workshopIds || []).filter(id => id !== workshop.id)
+                        })}
+                        className="mr-1"
+                      />
+                      {workshop.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <div className="grid grid-cols-2 gap-2 text-sm pt-2 border-t border-gray-100">
+          <input
+            value={newAccount.name}
+            onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })}
+            placeholder="Nombre"
+            className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <select
+            value={newAccount.role}
+            onChange={(e) => setNewAccount({ ...newAccount, role: e.target.value as UserRole })}
+            className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          >
+            {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+          </select>
+          <input
+            type="email"
+            value={newAccount.email}
+            onChange={(e) => setNewAccount({ ...newAccount, email: e.target.value })}
+            placeholder="Email"
+            className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <input
+            type="password"
+            value={newAccount.password}
+            onChange={(e) => setNewAccount({ ...newAccount, password: e.target.value })}
+            placeholder="Contraseña inicial"
+            className="p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <button
+            onClick={addUser}
+            disabled={creating}
+            className="col-span-2 bg-orange-600 text-white px-3 py-2 rounded hover:bg-orange-700 flex items-center justify-center text-sm disabled:opacity-50"
+          >
+            {creating ? <RefreshCw size={14} className="animate-spin mr-1" /> : <Plus size={14} className="mr-1" />} Crear cuenta
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Comunica la contraseña inicial al usuario. Los usuarios desactivados no pueden ver ni modificar datos. Las cuentas nuevas tienen acceso al taller actual.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Job, Vehicle } from '../types';
+import { History, ArrowRight, Image as ImageIcon } from 'lucide-react';
+import { formatPartsSummary } from '../services/damageService';
+
+interface Props {
+  vehicle?: Vehicle;
+  jobs: Job[]; // Already filtered to this vehicle, newest first
+  excludeJobId?: string;
+  onOpenJob?: (job: Job) => void;
+  compact?: boolean;
+}
+
+export const VehicleHistory: React.FC<Props> = ({ vehicle, jobs, excludeJobId, onOpenJob, compact = false }) => {
+  const pastJobs = jobs.filter(j => j.id !== excludeJobId);
+
+  return (
+    <div className="space-y-3">
+      {vehicle && !compact && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          <div><span className="text-gray-400 block">Bastidor (VIN)</span><span className="font-mono text-gray-800 dark:text-gray-200">{vehicle.vin || '-'}</span></div>
+          <div><span className="text-gray-400 block">Año</span><span className="text-gray-800 dark:text-gray-200">{vehicle.year || '-'}</span></div>
+          <div><span className="text-gray-400 block">Color</span><span className="text-gray-800 dark:text-gray-200">{vehicle.color || '-'}</span></div>
+          <div><span className="text-gray-400 block">Código Pintura</span><span className="font-mono text-gray-800 dark:text-gray-200">{vehicle.paintCode || '-'}</span></div>
+        </div>
+      )}
+
+      {pastJobs.length === 0 ? (
+        <p className="text-gray-400 italic text-sm">No hay trabajos anteriores para este vehículo.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 overflow-hidden">
+          {pastJobs.map(job => (
+            <div
+              key={job.id}
+              onClick={() => onOpenJob?.(job)}
+              className={`p-3 flex items-start justify-between ${onOpenJob ? 'cursor-pointer hover:bg-blue-50/50 dark:hover:bg-slate-700/50 group' : ''}`}
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center text-sm">
+                  <History size={14} className="text-gray-400 mr-2 flex-shrink-0" />
+                  <span className="font-medium text-gray-800 dark:text-white">{new Date(job.createdAt).toLocaleDateString()}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{job.status} · {job.repairType}</span>
+                </div>
+                <div className="text-xs text-gray-600 dark:text-gray-300 mt-1 truncate">
+                  {formatPartsSummary(job.identifiedParts) || <span className="italic text-gray-400">Sin piezas registradas</span>}
+                </div>
+                {!compact && job.damageImages && job.damageImages.length > 0 && (
+                  <div className="flex space-x-1 mt-2">
+                    {job.damageImages.slice(0, 4).map((img, idx) => (
+                      <img key={idx} src={`data:image/jpeg;base64,${img}`} className="h-10 w-14 object-cover rounded border dark:border-slate-600" alt={`Daño ${idx + 1}`} />
+                    ))}
+                    {job.damageImages.length > 4 && (
+                      <span className="h-10 w-10 flex items-center justify-center text-xs text-gray-500 bg-gray-100 dark:bg-slate-700 rounded">
+                        <ImageIcon size={10} className="mr-0.5" />+{job.damageImages.length - 4}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+              {onOpenJob && (
+                <ArrowRight size={16} className="text-gray-300 dark:text-slate-600 group-hover:text-blue-500 ml-2 mt-1 flex-shrink-0" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Workshop } from '../types';
+import { Wrench, Building2, Plus, RefreshCw, AlertCircle, LogOut } from 'lucide-react';
+
+interface Props {
+  workshops: Workshop[] | null; // Null while loading or when they could not be loaded
+  error?: string;
+  canCreate: boolean;
+  onSelect: (workshop: Workshop) => void;
+  onCreate: (name: string) => Promise<Workshop>;
+  onRetry: () => void;
+  onSignOut: () => void;
+}
+
+// Shown after signing in until the device works for one of the user's workshops
+export const WorkshopPicker: React.FC<Props> = ({ workshops, error, canCreate, onSelect, onCreate, onRetry, onSignOut }) => {
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    setFormError(null);
+    try {
+      onSelect(await onCreate(name));
+    } catch (err: any) {
+      setFormError(err.message);
+      setCreating(false);
+    }
+  };
+
+  const shownError = formError || error;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4 font-sans transition-colors duration-300">
+      <div className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        <div className="bg-slate-900 text-white px-6 py-5 flex items-center">
+          <Wrench className="h-7 w-7 text-blue-500 mr-3" />
+          <span className="font-bold text-xl tracking-tight">TallerPro <span className="text-blue-400">AI</span></span>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">Elige el taller</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Este equipo trabajará con los datos del taller elegido. Puedes cambiarlo después desde la barra superior.
+          </p>
+
+          {workshops === null && !error && (
+            <div className="flex items-center text-sm text-gray-400">
+              <RefreshCw size={14} className="animate-spin mr-2" /> Cargando talleres...
+            </div>
+          )}
+
+          {workshops && (
+            <div className="space-y-2">
+              {workshops.map(workshop => (
+                <button
+                  key={workshop.id}
+                  onClick={() => onSelect(workshop)}
+                  className="w-full flex items-center p-3 rounded border border-gray-200 dark:border-slate-600 text-left text-gray-800 dark:text-gray-100 hover:bg-blue-50 dark:hover:bg-slate-700 hover:border-blue-300 transition-colors"
+                >
+                  <Building2 size={18} className="mr-3 text-blue-500 shrink-0" />
+                  <span className="font-medium truncate">{workshop.name}</span>
+                </button>
+              ))}
+              {workshops.length === 0 && !canCreate && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                  No tienes ningún taller asignado. Pide al administrador que te dé acceso.
+                </p>
+              )}
+            </div>
+          )}
+
+          {workshops && canCreate && (
+            <form onSubmit={handleCreate} className="flex pt-2 border-t border-gray-100 dark:border-slate-700">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nuevo taller (ej: Taller Norte)"
+                className="flex-1 p-2.5 border border-gray-300 dark:border-slate-600 rounded-l bg-white dark:bg-slate-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button
+                type="submit"
+                disabled={creating || !name.trim()}
+                className="px-3 bg-blue-600 text-white rounded-r hover:bg-blue-700 disabled:opacity-50 flex items-center text-sm"
+              >
+                {creating ? <RefreshCw size={14} className="animate-spin mr-1" /> : <Plus size={14} className="mr-1" />} Crear
+              </button>
+            </form>
+          )}
+
+          {shownError && (
+            <div className="flex items-start p-2.5 rounded text-xs bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800">
+              <AlertCircle size={14} className="mr-2 mt-0.5 shrink-0" />
+              <span>{shownError}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between text-xs pt-2 border-t border-gray-100 dark:border-slate-700">
+            {error ? (
+              <button onClick={onRetry} className="text-blue-600 dark:text-blue-400 hover:underline flex items-center">
+                <RefreshCw size={12} className="mr-1" /> Reintentar
+              </button>
+            ) : <span />}
+            <button onClick={onSignOut} className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 flex items-center">
+              <LogOut size={12} className="mr-1" /> Cerrar sesión
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { FirebaseConfig, Workshop } from '../types';
+import { listWorkshops, renameWorkshop } from '../services/firebaseService';
+import { describeAuthError } from '../services/authService';
+import { ToastType } from './Toast';
+import { Building2, Plus, RefreshCw } from 'lucide-react';
+
+interface Props {
+  config: FirebaseConfig;
+  currentWorkshopId?: string;
+  onCreate: (name: string) => Promise<Workshop>; // Seeded with the current workshop's settings
+  onWorkshopsChange: (workshops: Workshop[]) => void;
+  onShowToast: (msg: string, type: ToastType) => void;
+}
+
+// Locations of the group. Written straight to the cloud, like the user accounts.
+// Each workshop's rates, fiscal data and series are edited from that workshop.
+export const WorkshopsSection: React.FC<Props> = ({ config, currentWorkshopId, onCreate, onWorkshopsChange, onShowToast }) => {
+  const [workshops, setWorkshops] = useState<Workshop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    listWorkshops(config)
+      .then(setWorkshops)
+      .catch(e => onShowToast(`No se pudieron cargar los talleres: ${describeAuthError(e)}`, 'error'))
+      .finally(() => setLoading(false));
+  }, [config]);
+
+  const rename = async (workshop: Workshop, name: string) => {
+    const saved = workshops.map(w => w.id === workshop.id ? { ...w, name } : w);
+    try {
+      await renameWorkshop(config, workshop.id, name);
+      onWorkshopsChange(saved);
+    } catch (e) {
+      onShowToast(`No se pudo renombrar el taller: ${describeAuthError(e)}`, 'error');
+    }
+  };
+
+  const addWorkshop = async () => {
+    if (!newName.trim()) return;
+    setCreating(true);
+    try {
+      const workshop = await onCreate(newName);
+      const updated = [...workshops, workshop].sort((a, b) => a.name.localeCompare(b.name));
+      setWorkshops(updated);
+      onWorkshopsChange(updated);
+      setNewName('');
+      onShowToast(`Taller ${workshop.name} creado. Da acceso a sus usuarios en la lista de usuarios.`, 'success');
+    } catch (e) {
+      onShowToast(`No se pudo crear el taller: ${describeAuthError(e)}`, 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center">
+          <Building2 size={16} className="mr-1"/> Talleres
+      </h3>
+      <div className="space-y-2">
+        {loading && <p className="text-xs text-gray-400 italic">Cargando talleres...</p>}
+        {workshops.map(workshop => (
+          <div key={workshop.id} className="flex items-center text-sm">
+            <input
+              value={workshop.name}
+              onChange={(e) => setWorkshops(workshops.map(w => w.id === workshop.id ? { ...w, name: e.target.value } : w))}
+              onBlur={(e) => e.target.value.trim() && rename(workshop, e.target.value.trim())}
+              className="flex-1 p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+            />
+            {workshop.id === currentWorkshopId && <span className="ml-2 text-xs text-orange-600 font-medium">Actual</span>}
+          </div>
+        ))}
+        <div className="flex text-sm pt-2 border-t border-gray-100">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Nombre del nuevo taller"
+            className="flex-1 p-2 border border-gray-300 rounded-l bg-white text-gray-900 focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <button
+            onClick={addWorkshop}
+            disabled={creating || !newName.trim()}
+            className="bg-orange-600 text-white px-3 rounded-r hover:bg-orange-700 flex items-center text-sm disabled:opacity-50"
+          >
+            {creating ? <RefreshCw size={14} className="animate-spin mr-1" /> : <Plus size={14} className="mr-1" />} Añadir
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Los talleres nuevos parten de las tarifas y datos fiscales de este. Ajústalos después desde cada taller.</p>
+      </div>
+    </div>
+  );
+};
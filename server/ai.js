@@ -0,0 +1,80 @@
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createHandler, HttpError } from './http.js';
+import { handleAiRequest, hashKey, createRateLimiter, createRequestLog } from './aiApi.js';
+import { createGemini, createMockGemini } from './gemini.js';
+
+// --- TALLERPRO AI PROXY ---
+// Holds the Gemini API key so it never ships in the app bundle.
+//   node server/ai.js add-user <name>   Creates a user and prints their key (shown only once)
+//   node server/ai.js                   Starts the proxy
+// Environment: GEMINI_API_KEY, PORT (8788), HOST (0.0.0.0), TALLERPRO_DATA_DIR (./tallerpro-data),
+// TALLERPRO_AI_MOCK=1 (canned answers, no key needed), AI_RATE_PER_MINUTE (10), AI_RATE_PER_DAY (300).
+
+const port = Number(process.env.PORT) || 8788;
+const host = process.env.HOST || '0.0.0.0';
+const dataDir = resolve(process.env.TALLERPRO_DATA_DIR || 'tallerpro-data');
+const usersFile = join(dataDir, 'ai-users.json');
+const mock = process.env.TALLERPRO_AI_MOCK === '1';
+
+const loadUsers = async () => {
+  try {
+    return JSON.parse(await readFile(usersFile, 'utf8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+};
+
+const addUser = async (name) => {
+  if (!name) {
+    console.error('Uso: node server/ai.js add-user <nombre>');
+    process.exit(1);
+  }
+  const users = (await loadUsers()).filter(u => u.name !== name); // Adding an existing user replaces their key
+  const key = randomBytes(24).toString('base64url');
+  await mkdir(dataDir, { recursive: true });
+  await writeFile(usersFile, JSON.stringify([...users, { name, keyHash: hashKey(key) }], null, 2), { mode: 0o600 });
+  console.log(`Clave de ${name}: ${key}`);
+  console.log('Reinicia el proxy para que la use.');
+};
+
+if (process.argv[2] === 'add-user') {
+  await addUser(process.argv[3]);
+  process.exit(0);
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!mock && !apiKey) {
+  console.error('Falta GEMINI_API_KEY (o TALLERPRO_AI_MOCK=1 para respuestas de prueba).');
+  process.exit(1);
+}
+
+const users = await loadUsers();
+if (users.length === 0) console.warn(`Sin usuarios: crea uno con "node server/ai.js add-user <nombre>".`);
+await mkdir(dataDir, { recursive: true });
+
+const context = {
+  model: mock ? createMockGemini() : await createGemini(apiKey),
+  users,
+  checkRate: createRateLimiter({
+    perMinute: Number(process.env.AI_RATE_PER_MINUTE) || 10,
+    perDay: Number(process.env.AI_RATE_PER_DAY) || 300
+  }),
+  log: createRequestLog(join(dataDir, 'ai-requests.log')),
+  mock
+};
+
+const server = createServer(createHandler(async (req, res, url) => {
+  if (!(await handleAiRequest(context, req, res, url))) throw new HttpError(404, 'Ruta no encontrada');
+}));
+
+server.listen(port, host, () => {
+  console.log(`TallerPro AI proxy en http://${host}:${port}${mock ? ' (modo simulado)' : ''}, ${users.length} usuarios`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
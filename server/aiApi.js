@@ -0,0 +1,88 @@
+import { createHash } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import { HttpError, sendJson, readJson } from './http.js';
+
+// --- AI PROXY API (/api/v1/ai) ---
+// identify-car, analyze-damage and chat, for signed-in proxy users only. Each user has a key of their own
+// (see `node server/ai.js add-user`), requests are rate limited per user and logged without their content.
+
+const MAX_JSON_BYTES = 15 * 1024 * 1024; // A base64 photo
+
+export const hashKey = (key) => createHash('sha256').update(key).digest('hex');
+
+// Users file entries: { name, keyHash }
+export const findUser = (users, req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const keyHash = match ? hashKey(match[1]) : undefined;
+  const user = keyHash && users.find(u => u.keyHash === keyHash);
+  if (!user) throw new HttpError(401, 'Clave de la IA no válida');
+  return user;
+};
+
+// Sliding windows of recent request times, per user
+export const createRateLimiter = ({ perMinute, perDay }) => {
+  const history = new Map();
+  const MINUTE = 60 * 1000;
+  const DAY = 24 * 60 * MINUTE;
+
+  return (userName, now = Date.now()) => {
+    const times = (history.get(userName) || []).filter(t => t > now - DAY);
+    const lastMinute = times.filter(t => t > now - MINUTE);
+    if (lastMinute.length >= perMinute) {
+      throw new HttpError(429, `Demasiadas peticiones a la IA. Espera ${Math.ceil((lastMinute[0] + MINUTE - now) / 1000)} s.`);
+    }
+    if (times.length >= perDay) throw new HttpError(429, 'Límite diario de peticiones a la IA alcanzado.');
+    times.push(now);
+    history.set(userName, times);
+  };
+};
+
+// One JSON line per request: who, what, outcome and time. Images and messages are never written.
+export const createRequestLog = (file) => (entry) => {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  console.log(line);
+  return appendFile(file, `${line}\n`).catch(e => console.error('No se pudo escribir el registro de la IA', e));
+};
+
+const requireString = (value, field) => {
+  if (typeof value !== 'string' || value === '') throw new HttpError(400, `Falta el campo ${field}`);
+  return value;
+};
+
+const ENDPOINTS = {
+  'identify-car': (model, body) => model.identifyCar(requireString(body.image, 'image')),
+  'analyze-damage': (model, body) => model.analyzeDamage(requireString(body.image, 'image')),
+  chat: (model, body) => model.chat(requireString(body.message, 'message'), body.useSearch === true)
+};
+
+// Returns false when the path is not part of the AI API
+export const handleAiRequest = async ({ model, users, checkRate, log, mock }, req, res, url) => {
+  const match = /^\/api\/v1\/ai\/([a-z-]+)$/.exec(url.pathname);
+  if (!match) return false;
+  const endpoint = ENDPOINTS[match[1]];
+  if (!endpoint || req.method !== 'POST') throw new HttpError(404, 'Ruta no encontrada');
+
+  const started = Date.now();
+  let user;
+  let status = 200;
+  try {
+    user = findUser(users, req);
+    checkRate(user.name);
+    const body = await readJson(req, MAX_JSON_BYTES);
+    let result;
+    try {
+      result = await endpoint(model, body && typeof body === 'object' ? body : {});
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      // Gemini's own message ("SAFETY", quota...) is what the app shows to the user
+      throw new HttpError(502, e instanceof Error ? e.message : String(e));
+    }
+    sendJson(res, 200, result);
+  } catch (e) {
+    status = e instanceof HttpError ? e.status : 500;
+    throw e;
+  } finally {
+    log({ user: user?.name, endpoint: match[1], status, ms: Date.now() - started, mock });
+  }
+  return true;
+};
@@ -0,0 +1,162 @@
+// --- GEMINI CALLS ---
+// The prompts, models and response schemas of the three AI features. They live here, next to the API key,
+// so the proxy can only be used for what the app does. Results are shaped as services/geminiService.ts returns them.
+
+// Same values as the enums in types.ts (PartPosition, DamageType, DamageSeverity, RepairAction): keep them in step
+const PART_POSITIONS = ['Delantero', 'Delantero izquierdo', 'Delantero derecho', 'Lateral izquierdo', 'Lateral derecho', 'Trasero', 'Trasero izquierdo', 'Trasero derecho', 'Techo'];
+const DAMAGE_TYPES = ['Abolladura', 'Arañazo', 'Rotura', 'Grieta', 'Deformación', 'Desconchado'];
+const DAMAGE_SEVERITIES = ['Leve', 'Moderado', 'Grave'];
+const REPAIR_ACTIONS = ['Reparar', 'Sustituir', 'Pintar', 'Desmontar/Montar'];
+
+// Helper to clean LLM response that might be wrapped in markdown
+const cleanAndParseJSON = (text) => {
+  try {
+    return JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch {
+    throw new Error(`La respuesta de la IA no tiene un formato válido: ${text.substring(0, 50)}...`);
+  }
+};
+
+export const createGemini = async (apiKey) => {
+  // Loaded only when needed, so mock mode runs without the dependency configured
+  const { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold } = await import('@google/genai');
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Common safety settings to prevent blocking vehicle damage or license plates (PII)
+  const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH }
+  ];
+
+  const imageRequest = (base64Image, prompt) => ({
+    parts: [
+      { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+      { text: prompt }
+    ]
+  });
+
+  return {
+    // Uses gemini-2.5-flash for speed and robustness with OCR/JSON
+    identifyCar: async (base64Image) => {
+      const prompt = `
+        Analiza esta imagen de la parte trasera de un coche.
+        1. Extrae la matrícula exactamente como aparece.
+        2. Identifica la Marca y el Modelo del vehículo.
+        3. Identifica el color principal.
+
+        IMPORTANTE: Responde SIEMPRE en ESPAÑOL (ej: "Rojo", "Azul", "Gris").
+        Devuelve el resultado en formato JSON.
+      `;
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: imageRequest(base64Image, prompt),
+        config: {
+          responseMimeType: 'application/json',
+          safetySettings,
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              plate: { type: Type.STRING, description: 'Número de matrícula' },
+              make: { type: Type.STRING, description: 'Marca del fabricante' },
+              model: { type: Type.STRING, description: 'Modelo del coche' },
+              color: { type: Type.STRING, description: 'Color del coche en Español' }
+            },
+            required: ['plate', 'make', 'model']
+          }
+        }
+      });
+      if (!response.text) throw new Error('No response from Gemini');
+      return cleanAndParseJSON(response.text);
+    },
+
+    analyzeDamage: async (base64Image) => {
+      const prompt = `
+        Eres un experto chapista y perito de taller mecánico en España. Analiza esta imagen de un vehículo dañado.
+        Lista las piezas específicas de la carrocería que parecen estar dañadas.
+        Para cada pieza indica su posición en el vehículo, el tipo de daño, la gravedad,
+        la intervención recomendada y tu confianza (0 a 1) en la detección.
+
+        IMPORTANTE:
+        1. Usa terminología técnica en ESPAÑOL de España (ej: "Parachoques", "Aleta", "Capó", "Faro", "Puerta", "Retrovisor").
+        2. Sé preciso.
+      `;
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: imageRequest(base64Image, prompt),
+        config: {
+          responseMimeType: 'application/json',
+          thinkingConfig: { thinkingBudget: 1024 }, // Enough for reasoning without timing out
+          safetySettings,
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              detectedParts: {
+                type: Type.ARRAY,
+                description: 'Lista de piezas dañadas en Español',
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING, description: 'Nombre de la pieza' },
+                    position: { type: Type.STRING, enum: PART_POSITIONS, description: 'Posición en el vehículo' },
+                    damageType: { type: Type.STRING, enum: DAMAGE_TYPES, description: 'Tipo de daño' },
+                    severity: { type: Type.STRING, enum: DAMAGE_SEVERITIES, description: 'Gravedad del daño' },
+                    action: { type: Type.STRING, enum: REPAIR_ACTIONS, description: 'Intervención recomendada' },
+                    confidence: { type: Type.NUMBER, description: 'Confianza de la detección entre 0 y 1' },
+                    description: { type: Type.STRING, description: 'Breve descripción del daño en Español' }
+                  },
+                  required: ['name']
+                }
+              },
+              assessment: {
+                type: Type.STRING,
+                description: 'Breve evaluación técnica del daño (abolladura, arañazo, rotura) en Español'
+              }
+            }
+          }
+        }
+      });
+      if (!response.text) throw new Error('No response from Gemini');
+      const result = cleanAndParseJSON(response.text);
+      return {
+        detectedParts: Array.isArray(result.detectedParts) ? result.detectedParts : [],
+        assessment: result.assessment
+      };
+    },
+
+    // Google Search grounding for parts and specs
+    chat: async (message, useSearch) => {
+      const response = await ai.models.generateContent({
+        model: useSearch ? 'gemini-2.5-flash' : 'gemini-3-pro-preview',
+        contents: message,
+        config: {
+          tools: useSearch ? [{ googleSearch: {} }] : undefined,
+          safetySettings,
+          systemInstruction: 'Eres un asistente útil para un Taller de Chapa y Pintura en España. Ayudas a encontrar códigos de pintura, procedimientos de reparación y recambios. Responde siempre en Español.'
+        }
+      });
+      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      return {
+        text: response.text || 'No se pudo generar respuesta.',
+        sources: groundingChunks.filter(chunk => chunk.web).map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title }))
+      };
+    }
+  };
+};
+
+// Canned answers for offline development (TALLERPRO_AI_MOCK=1): no key, no network, same shapes
+export const createMockGemini = () => ({
+  identifyCar: async () => ({ plate: '1234 ABC', make: 'Seat', model: 'León', color: 'Gris' }),
+  analyzeDamage: async () => ({
+    detectedParts: [
+      { name: 'Parachoques', position: 'Trasero', damageType: 'Arañazo', severity: 'Leve', action: 'Pintar', confidence: 0.9, description: 'Arañazos superficiales en la esquina' },
+      { name: 'Aleta', position: 'Trasero izquierdo', damageType: 'Abolladura', severity: 'Moderado', action: 'Reparar', confidence: 0.75, description: 'Abolladura sobre el paso de rueda' }
+    ],
+    assessment: 'Daño leve en la zona trasera izquierda (respuesta de prueba).'
+  }),
+  chat: async (message) => ({
+    text: `Respuesta de prueba a: "${message.slice(0, 80)}". El proxy está en modo simulado.`,
+    sources: []
+  })
+});
@@ -0,0 +1,83 @@
+import { timingSafeEqual } from 'node:crypto';
+
+// --- HTTP HELPERS ---
+
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// The app is served from another origin (Vite, a hosting) and authenticates with a bearer token, not cookies
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Max-Age': '86400'
+};
+
+export const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendEmpty = (res, status) => {
+  res.writeHead(status, CORS_HEADERS);
+  res.end();
+};
+
+export const sendBinary = (res, contentType, data, headOnly = false) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': contentType, 'Content-Length': data.length });
+  res.end(headOnly ? undefined : data);
+};
+
+export const readBody = (req, maxBytes) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new HttpError(413, `La petición supera el máximo de ${Math.round(maxBytes / 1024 / 1024)} MB`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+export const readJson = async (req, maxBytes) => {
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'El cuerpo no es JSON válido');
+  }
+};
+
+const sameSecret = (a, b) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+// Bearer token check; throws 401 when it is missing or wrong
+export const requireToken = (req, token) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match || !sameSecret(match[1], token)) throw new HttpError(401, 'Token no válido');
+};
+
+// Wraps a handler: CORS preflight, errors as JSON
+export const createHandler = (handle) => async (req, res) => {
+  if (req.method === 'OPTIONS') return sendEmpty(res, 204);
+  try {
+    await handle(req, res, new URL(req.url, 'http://localhost'));
+  } catch (e) {
+    const status = e instanceof HttpError ? e.status : 500;
+    if (status === 500) console.error(`${req.method} ${req.url}`, e);
+    if (!res.headersSent) sendJson(res, status, { error: status === 500 ? 'Error interno del servidor' : e.message });
+    else res.end();
+  }
+};
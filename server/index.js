@@ -0,0 +1,49 @@
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createHandler, requireToken, HttpError } from './http.js';
+import { createStore } from './store.js';
+import { handleSyncRequest, COLLECTION_NAMES } from './syncApi.js';
+
+// --- TALLERPRO SYNC SERVER ---
+// Reference server for the "Servidor propio" sync backend: Node built-ins only, data in plain files.
+//   node server/index.js
+// Environment: PORT (8787), HOST (0.0.0.0), TALLERPRO_DATA_DIR (./tallerpro-data), TALLERPRO_TOKEN.
+// Without TALLERPRO_TOKEN a random token is generated once and kept in the data directory.
+
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || '0.0.0.0';
+const dataDir = resolve(process.env.TALLERPRO_DATA_DIR || 'tallerpro-data');
+
+const loadToken = async () => {
+  if (process.env.TALLERPRO_TOKEN) return process.env.TALLERPRO_TOKEN;
+  const file = join(dataDir, 'token');
+  try {
+    return (await readFile(file, 'utf8')).trim();
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+    const token = randomBytes(24).toString('base64url');
+    await mkdir(dataDir, { recursive: true });
+    await writeFile(file, token, { mode: 0o600 });
+    return token;
+  }
+};
+
+const token = await loadToken();
+const store = await createStore(dataDir);
+await store.init(COLLECTION_NAMES);
+
+const server = createServer(createHandler(async (req, res, url) => {
+  requireToken(req, token);
+  if (!(await handleSyncRequest(store, req, res, url))) throw new HttpError(404, 'Ruta no encontrada');
+}));
+
+server.listen(port, host, () => {
+  console.log(`TallerPro sync server en http://${host}:${port} (datos en ${dataDir})`);
+  if (!process.env.TALLERPRO_TOKEN) console.log(`Token: ${token}`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
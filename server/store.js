@@ -0,0 +1,91 @@
+import { mkdir, readFile, writeFile, rename, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// --- FILE STORE ---
+// One JSON file per collection in the data directory, held in memory and rewritten (atomically) on change.
+// Every write stamps the record with a global, increasing sequence number: clients pull "changes since"
+// the last number they saw, so device clocks never matter. Photos are plain files under images/.
+
+const SAFE_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const isSafeId = (id) => typeof id === 'string' && SAFE_ID.test(id);
+
+export const createStore = async (dataDir) => {
+  await mkdir(join(dataDir, 'images'), { recursive: true });
+  const collections = new Map(); // name -> Map(key -> { seq, doc })
+  const pendingWrites = new Map(); // name -> Promise, so writes of a collection never overlap
+  let seq = 0;
+
+  const load = async (name) => {
+    if (collections.has(name)) return collections.get(name);
+    let records = new Map();
+    try {
+      records = new Map(Object.entries(JSON.parse(await readFile(join(dataDir, `${name}.json`), 'utf8'))));
+    } catch (e) {
+      if (e.code !== 'ENOENT') throw e;
+    }
+    records.forEach(record => { seq = Math.max(seq, record.seq); });
+    collections.set(name, records);
+    return records;
+  };
+
+  const persist = (name) => {
+    const previous = pendingWrites.get(name) || Promise.resolve();
+    const next = previous.then(async () => {
+      const file = join(dataDir, `${name}.json`);
+      await writeFile(`${file}.tmp`, JSON.stringify(Object.fromEntries(collections.get(name))));
+      await rename(`${file}.tmp`, file);
+    });
+    pendingWrites.set(name, next.catch(() => {}));
+    return next;
+  };
+
+  const imageDir = (jobId) => join(dataDir, 'images', jobId);
+
+  return {
+    // Loads every collection up front, so the cursor starts after the last stored change
+    init: async (names) => { for (const name of names) await load(name); },
+
+    cursor: () => seq,
+
+    list: async (name, since = 0) => {
+      const records = await load(name);
+      return Array.from(records.values()).filter(record => record.seq > since).map(record => record.doc);
+    },
+
+    get: async (name, key) => (await load(name)).get(key)?.doc,
+
+    // Writes several records with one file rewrite
+    putMany: async (name, entries) => {
+      if (entries.length === 0) return;
+      const records = await load(name);
+      entries.forEach(({ key, doc }) => records.set(key, { seq: ++seq, doc }));
+      await persist(name);
+    },
+
+    remove: async (name, key) => {
+      const records = await load(name);
+      if (!records.delete(key)) return false;
+      await persist(name);
+      return true;
+    },
+
+    readImage: async (jobId, imageId) => {
+      try {
+        return await readFile(join(imageDir(jobId), `${imageId}.jpg`));
+      } catch (e) {
+        if (e.code === 'ENOENT') return undefined;
+        throw e;
+      }
+    },
+
+    writeImage: async (jobId, imageId, data) => {
+      await mkdir(imageDir(jobId), { recursive: true });
+      const file = join(imageDir(jobId), `${imageId}.jpg`);
+      await writeFile(`${file}.tmp`, data);
+      await rename(`${file}.tmp`, file);
+    },
+
+    removeImages: (jobId) => rm(imageDir(jobId), { recursive: true, force: true })
+  };
+};
@@ -0,0 +1,249 @@
+import { HttpError, sendJson, sendEmpty, sendBinary, readBody, readJson } from './http.js';
+import { isSafeId } from './store.js';
+
+// --- SYNC API (/api/v1) ---
+// The REST/JSON API used by services/restSyncService.ts. Documented in the README.
+
+const MAX_JSON_BYTES = 20 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// Collection -> how records are keyed and how a write combines with the stored copy
+const COLLECTIONS = {
+  jobs: { key: doc => doc.id, write: 'mergeJob' },
+  customers: { key: doc => doc.id, write: 'mergeRecord' },
+  vehicles: { key: doc => doc.plate, write: 'mergeRecord' }, // Keyed by normalized plate, like in Firebase
+  insurers: { key: doc => doc.id, write: 'mergeRecord' },
+  technicians: { key: doc => doc.id, write: 'mergeRecord' },
+  invoices: { key: doc => doc.id, write: 'chain' }, // Issued invoices are immutable and must continue the chain
+  jobAudit: { key: doc => doc.id, write: 'create' } // Append-only
+};
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS);
+
+// --- JOB MERGE ---
+// Same rule as the app (services/revisionService.ts): field by field, the most recent edit wins,
+// so two devices editing different fields of a job both keep their change. Status history is a union.
+
+const META_FIELDS = ['id', 'createdAt', 'updatedAt', 'revision', 'fieldUpdatedAt', 'schemaVersion'];
+
+// Unstamped fields count as edited at the job's last change, except those it does not hold: never set there
+const fieldTime = (job, field) => {
+  const stamp = job.fieldUpdatedAt?.[field];
+  if (stamp !== undefined) return stamp;
+  return job[field] === undefined ? 0 : job.updatedAt ?? job.createdAt ?? 0;
+};
+
+const mergeStatusHistory = (a = [], b = []) => {
+  const byKey = new Map();
+  [...a, ...b].forEach(change => byKey.set(`${change.at}:${change.to}`, change));
+  return Array.from(byKey.values()).sort((x, y) => x.at - y.at);
+};
+
+export const mergeJob = (stored, incoming) => {
+  if (!stored) return incoming;
+  const merged = { ...stored, ...Object.fromEntries(META_FIELDS.filter(f => incoming[f] !== undefined).map(f => [f, incoming[f]])) };
+  const fieldUpdatedAt = {};
+  const fields = new Set([...Object.keys(stored), ...Object.keys(incoming)].filter(f => !META_FIELDS.includes(f)));
+
+  fields.forEach(field => {
+    const storedTime = fieldTime(stored, field);
+    // Missing and never stamped: the sender did not know the field yet, it is kept
+    if (incoming[field] === undefined && incoming.fieldUpdatedAt?.[field] === undefined) {
+      fieldUpdatedAt[field] = storedTime;
+      return;
+    }
+    const incomingTime = fieldTime(incoming, field);
+    // A stamped field missing from the incoming job was removed there
+    if (incomingTime >= storedTime) {
+      if (incoming[field] === undefined) delete merged[field];
+      else merged[field] = incoming[field];
+    }
+    fieldUpdatedAt[field] = Math.max(storedTime, incomingTime);
+  });
+  if (stored.statusHistory || incoming.statusHistory) merged.statusHistory = mergeStatusHistory(stored.statusHistory, incoming.statusHistory);
+
+  return {
+    ...merged,
+    createdAt: stored.createdAt ?? incoming.createdAt,
+    updatedAt: Math.max(stored.updatedAt ?? 0, incoming.updatedAt ?? 0),
+    revision: Math.max(stored.revision ?? 0, incoming.revision ?? 0),
+    fieldUpdatedAt
+  };
+};
+
+// --- REGISTRY MERGE ---
+// Customers, vehicles, insurers and technicians, same rule as the app: field by field, the latest stamp wins.
+// Values never stamped count as the oldest; ties take the incoming value, as a plain upsert would.
+
+const RECORD_META_FIELDS = ['createdAt', 'updatedAt', 'fieldUpdatedAt'];
+
+const recordFieldTime = (record, field) => record.fieldUpdatedAt?.[field] ?? 0;
+
+export const mergeRecord = (stored, incoming) => {
+  if (!stored) return incoming;
+  const merged = { ...stored };
+  const fieldUpdatedAt = {};
+  const fields = new Set([...Object.keys(stored), ...Object.keys(incoming)].filter(f => !RECORD_META_FIELDS.includes(f)));
+
+  fields.forEach(field => {
+    const storedTime = recordFieldTime(stored, field);
+    const incomingTime = recordFieldTime(incoming, field);
+    // Missing and never stamped: the sender did not know the field, it is kept
+    const unknown = incoming[field] === undefined && incomingTime === 0;
+    if (!unknown && incomingTime >= storedTime) {
+      if (incoming[field] === undefined) delete merged[field];
+      else merged[field] = incoming[field];
+    }
+    const time = Math.max(storedTime, incomingTime);
+    if (time > 0) fieldUpdatedAt[field] = time;
+  });
+
+  const updatedAt = Math.max(stored.updatedAt ?? 0, incoming.updatedAt ?? 0);
+  return {
+    ...merged,
+    ...(updatedAt > 0 ? { updatedAt } : {}),
+    ...(Object.keys(fieldUpdatedAt).length > 0 ? { fieldUpdatedAt } : {})
+  };
+};
+
+// --- INVOICE CHAIN ---
+// Same rule as the app (services/invoiceService.ts): a new invoice must point at the hash of the last one,
+// take the next number of its series and be issued after it. Writes run one at a time (see serializeWrites), so
+// of two devices issuing the same number only the first is stored; the other gets the new head and issues again.
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const sortInvoiceChain = invoices => invoices.slice().sort((a, b) => a.issuedAt - b.issuedAt || a.number - b.number);
+
+export const getChainHead = (invoices) => {
+  const chain = sortInvoiceChain(invoices);
+  const last = chain[chain.length - 1];
+  const lastNumbers = {};
+  chain.forEach(i => { lastNumbers[i.series] = Math.max(lastNumbers[i.series] ?? 0, i.number); });
+  return { hash: last?.hash ?? GENESIS_HASH, lastNumbers, lastIssuedAt: last?.issuedAt ?? 0 };
+};
+
+const continuesChain = (head, invoice) => invoice.previousHash === head.hash
+  && invoice.number === (head.lastNumbers[invoice.series] ?? 0) + 1
+  && invoice.issuedAt > head.lastIssuedAt;
+
+const advanceChainHead = (head, invoice) => ({
+  hash: invoice.hash,
+  lastNumbers: { ...head.lastNumbers, [invoice.series]: invoice.number },
+  lastIssuedAt: invoice.issuedAt
+});
+
+// Writes to a collection run one at a time: each reads the stored copies, merges and stores the result,
+// so two overlapping uploads would otherwise merge against the same copy and the last one would undo the first
+const writeQueues = new Map(); // name -> Promise
+
+const serializeWrites = (name, task) => {
+  const run = (writeQueues.get(name) || Promise.resolve()).then(task);
+  writeQueues.set(name, run.catch(() => {}));
+  return run;
+};
+
+const isObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Upsert of several records. Returns the ones rejected (key -> reason); the rest are stored.
+const writeItems = async (store, name, items) => {
+  const { key: getKey, write } = COLLECTIONS[name];
+  const failed = {};
+  const entries = new Map();
+  let head = write === 'chain' ? getChainHead(await store.list(name)) : undefined;
+
+  for (const [index, doc] of items.entries()) {
+    const key = isObject(doc) ? getKey(doc) : undefined;
+    if (typeof key !== 'string' || key === '') {
+      failed[`#${index}`] = 'Registro sin clave';
+      continue;
+    }
+    const stored = entries.get(key) ?? await store.get(name, key);
+    if (write === 'create' || (write === 'chain' && stored)) {
+      if (stored && JSON.stringify(stored) !== JSON.stringify(doc)) failed[key] = 'Ya existe y no se puede modificar';
+      else if (!stored) entries.set(key, doc);
+    } else if (write === 'chain') {
+      if (!continuesChain(head, doc)) {
+        failed[key] = `La factura ${doc.fullNumber} no se ha publicado: otro equipo ya emitió ese número o facturas posteriores. Revísala con tu gestoría.`;
+      } else {
+        entries.set(key, doc);
+        head = advanceChainHead(head, doc);
+      }
+    } else if (write === 'mergeRecord') {
+      entries.set(key, mergeRecord(stored, doc));
+    } else {
+      if (name === 'jobs' && !isSafeId(key)) failed[key] = 'ID de trabajo no válido';
+      else entries.set(key, mergeJob(stored, doc));
+    }
+  }
+
+  await store.putMany(name, Array.from(entries, ([key, doc]) => ({ key, doc })));
+  return failed;
+};
+
+const parseSince = (value) => {
+  if (value === null || value === '') return 0;
+  const since = Number(value);
+  if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'El parámetro since no es válido');
+  return since;
+};
+
+// Returns false when the path is not part of the sync API
+export const handleSyncRequest = async (store, req, res, url) => {
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts[0] !== 'api' || parts[1] !== 'v1') return false;
+  const [resource, ...rest] = parts.slice(2);
+
+  if (resource === 'ping' && req.method === 'GET') {
+    sendJson(res, 200, { ok: true, cursor: store.cursor() });
+    return true;
+  }
+
+  if (resource === 'images' && rest.length === 2) {
+    const [jobId, imageId] = rest;
+    if (!isSafeId(jobId) || !isSafeId(imageId)) throw new HttpError(400, 'Ruta de foto no válida');
+    if (req.method === 'PUT') {
+      await store.writeImage(jobId, imageId, await readBody(req, MAX_IMAGE_BYTES));
+      sendEmpty(res, 204);
+      return true;
+    }
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      const data = await store.readImage(jobId, imageId);
+      if (!data) throw new HttpError(404, 'Foto no encontrada');
+      sendBinary(res, 'image/jpeg', data, req.method === 'HEAD');
+      return true;
+    }
+  }
+
+  if (resource === 'invoices' && rest.length === 1 && rest[0] === 'head' && req.method === 'GET') {
+    sendJson(res, 200, await serializeWrites('invoices', async () => getChainHead(await store.list('invoices'))));
+    return true;
+  }
+
+  if (COLLECTIONS[resource] && rest.length === 0) {
+    if (req.method === 'GET') {
+      // Cursor read before listing: a write landing in between is listed again next time, never skipped
+      const cursor = store.cursor();
+      const items = await store.list(resource, parseSince(url.searchParams.get('since')));
+      sendJson(res, 200, { items, cursor });
+      return true;
+    }
+    if (req.method === 'POST') {
+      const body = await readJson(req, MAX_JSON_BYTES);
+      if (!isObject(body) || !Array.isArray(body.items)) throw new HttpError(400, 'Se esperaba { "items": [...] }');
+      sendJson(res, 200, { failed: await serializeWrites(resource, () => writeItems(store, resource, body.items)) });
+      return true;
+    }
+  }
+
+  if (resource === 'jobs' && rest.length === 1 && req.method === 'DELETE') {
+    const [jobId] = rest;
+    if (!isSafeId(jobId)) throw new HttpError(400, 'ID de trabajo no válido');
+    await serializeWrites('jobs', () => store.remove('jobs', jobId));
+    await store.removeImages(jobId);
+    sendEmpty(res, 204);
+    return true;
+  }
+
+  throw new HttpError(404, 'Ruta no encontrada');
+};
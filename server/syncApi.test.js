@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHandler } from './http.js';
+import { createStore } from './store.js';
+import { handleSyncRequest, mergeJob, COLLECTION_NAMES } from './syncApi.js';
+import { mergeJob as mergeJobInApp } from '../services/revisionService.ts';
+
+// The server and the app must merge jobs the same way, or a push and the next pull disagree.
+// Each case is a stored (local) copy, an incoming (remote) copy and the data fields expected after the merge.
+// No case has equal stamps: there the app keeps its local copy and the server takes the upload.
+const JOB_MERGE_CASES = [
+  {
+    name: 'keeps a stamped field the stored copy never had, even if the stored job changed later',
+    stored: { id: 'j1', createdAt: 1, updatedAt: 10, manualNotes: 'a' },
+    incoming: { id: 'j1', createdAt: 1, updatedAt: 5, manualNotes: 'a', repairType: 'CHAPA', fieldUpdatedAt: { repairType: 5 } },
+    expected: { manualNotes: 'a', repairType: 'CHAPA' }
+  },
+  {
+    name: 'keeps edits to different fields made on two devices',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 300, manualNotes: 'Revisar', fieldUpdatedAt: { manualNotes: 300 } },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 200, manualNotes: '', claim: { insurerId: 'i1' }, fieldUpdatedAt: { claim: 200 } },
+    expected: { manualNotes: 'Revisar', claim: { insurerId: 'i1' } }
+  },
+  {
+    name: 'applies a removal newer than the stored value',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 200, claim: { insurerId: 'i1' }, fieldUpdatedAt: { claim: 200 } },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 300, fieldUpdatedAt: { claim: 300 } },
+    expected: {}
+  },
+  {
+    name: 'keeps a value newer than the incoming removal',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 300, claim: { insurerId: 'i1' }, fieldUpdatedAt: { claim: 300 } },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 200, fieldUpdatedAt: { claim: 200 } },
+    expected: { claim: { insurerId: 'i1' } }
+  },
+  {
+    name: 'counts unstamped values as edited at the last change of their job',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 250, manualNotes: 'Antes' },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 200, manualNotes: 'Después', fieldUpdatedAt: { manualNotes: 200 } },
+    expected: { manualNotes: 'Antes' }
+  },
+  {
+    name: 'takes a newer stamped value over an unstamped one',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 150, manualNotes: 'Antes' },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 200, manualNotes: 'Después', fieldUpdatedAt: { manualNotes: 200 } },
+    expected: { manualNotes: 'Después' }
+  },
+  {
+    name: 'keeps a field the incoming copy does not hold and never stamped',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 150, claim: { insurerId: 'i1' } },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 200, manualNotes: 'x', fieldUpdatedAt: { manualNotes: 200 } },
+    expected: { claim: { insurerId: 'i1' }, manualNotes: 'x' }
+  },
+  {
+    name: 'joins the status history of both copies',
+    stored: { id: 'j1', createdAt: 100, updatedAt: 200, statusHistory: [{ at: 200, to: 'Valoración' }], fieldUpdatedAt: { statusHistory: 200 } },
+    incoming: { id: 'j1', createdAt: 100, updatedAt: 150, statusHistory: [{ at: 150, to: 'Pendiente de perito' }], fieldUpdatedAt: { statusHistory: 150 } },
+    expected: { statusHistory: [{ at: 150, to: 'Pendiente de perito' }, { at: 200, to: 'Valoración' }] }
+  }
+];
+
+const META_FIELDS = ['id', 'createdAt', 'updatedAt', 'revision', 'fieldUpdatedAt', 'syncedAt', 'schemaVersion'];
+
+// Data fields only, with absent and undefined values alike
+const dataOf = job => JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(job).filter(([k]) => !META_FIELDS.includes(k)))));
+
+describe('mergeJob', () => {
+  JOB_MERGE_CASES.forEach(({ name, stored, incoming, expected }) => {
+    it(name, () => {
+      expect(dataOf(mergeJob(stored, incoming))).toEqual(expected);
+      expect(dataOf(mergeJobInApp(stored, incoming))).toEqual(expected);
+    });
+  });
+});
+
+describe('sync API', () => {
+  let dataDir;
+  let server;
+  let baseUrl;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'tallerpro-sync-'));
+    const store = await createStore(dataDir);
+    await store.init(COLLECTION_NAMES);
+    // Slow reads, so overlapping uploads would both read the stored copy before either writes
+    const slowStore = {
+      ...store,
+      get: async (name, key) => {
+        const doc = await store.get(name, key);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return doc;
+      }
+    };
+    server = createServer(createHandler(async (req, res, url) => { await handleSyncRequest(slowStore, req, res, url); }));
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  const post = async (collection, items) => (await fetch(`${baseUrl}/${collection}`, { method: 'POST', body: JSON.stringify({ items }) })).json();
+  const list = async (collection) => (await (await fetch(`${baseUrl}/${collection}`)).json()).items;
+
+  it('keeps both of two overlapping uploads of the same job', async () => {
+    const job = { id: 'j1', createdAt: 100, updatedAt: 100, manualNotes: '' };
+    await post('jobs', [job]);
+
+    await Promise.all([
+      post('jobs', [{ ...job, updatedAt: 200, claim: { insurerId: 'i1' }, fieldUpdatedAt: { claim: 200 } }]),
+      post('jobs', [{ ...job, updatedAt: 300, manualNotes: 'Revisar', fieldUpdatedAt: { manualNotes: 300 } }])
+    ]);
+
+    const [stored] = await list('jobs');
+    expect(stored.claim).toEqual({ insurerId: 'i1' });
+    expect(stored.manualNotes).toBe('Revisar');
+  });
+
+  it('keeps both of two overlapping uploads of the same registry record', async () => {
+    const customer = { id: 'c1', createdAt: 100, name: 'Ana' };
+    await post('customers', [customer]);
+
+    await Promise.all([
+      post('customers', [{ ...customer, phone: '600000000', fieldUpdatedAt: { phone: 200 } }]),
+      post('customers', [{ ...customer, email: 'ana@example.com', fieldUpdatedAt: { email: 300 } }])
+    ]);
+
+    const [stored] = await list('customers');
+    expect(stored.phone).toBe('600000000');
+    expect(stored.email).toBe('ana@example.com');
+  });
+
+  it('stores only the first of two invoices issuing the same number', async () => {
+    const invoice = (id, issuedAt) => ({ id, series: 'F', number: 1, fullNumber: 'F-1', issuedAt, previousHash: '0'.repeat(64), hash: id.repeat(64) });
+
+    const results = await Promise.all([post('invoices', [invoice('a', 100)]), post('invoices', [invoice('b', 200)])]);
+
+    expect(results.flatMap(r => Object.keys(r.failed))).toHaveLength(1);
+    const stored = await list('invoices');
+    expect(stored).toHaveLength(1);
+    const head = await (await fetch(`${baseUrl}/invoices/head`)).json();
+    expect(head).toEqual({ hash: stored[0].hash, lastNumbers: { F: 1 }, lastIssuedAt: stored[0].issuedAt });
+  });
+
+  it('rejects changes to an audit entry already stored', async () => {
+    const entry = { id: 'e1', jobId: 'j1', at: 100 };
+    await post('jobAudit', [entry]);
+
+    const { failed } = await post('jobAudit', [{ ...entry, at: 200 }]);
+
+    expect(Object.keys(failed)).toEqual(['e1']);
+  });
+});
@@ -0,0 +1,91 @@
+import { AiProviderKind, AnalyzedPart, AppSettings, AssistantReply, CarDetails, DamageAnalysisResult, PartPosition, DamageType, DamageSeverity, RepairAction } from '../types';
+import { identifyCarWithGemini, analyzeDamageWithGemini, chatWithGemini } from './geminiService';
+import { identifyCarWithOpenAi, analyzeDamageWithOpenAi, chatWithOpenAi } from './openAiService';
+import { identifyCarWithMock, analyzeDamageWithMock, chatWithMock } from './mockAiService';
+
+// --- AI PROVIDERS ---
+// The AI features go through this interface only, whatever the model behind it (Configuración > Inteligencia
+// artificial). Answers are normalized here, so every provider gives the app the same structured results.
+
+export interface AiProvider {
+  kind: AiProviderKind;
+  label: string;
+  identifyCar: (base64Image: string, settings: AppSettings) => Promise<CarDetails>;
+  analyzeDamage: (base64Image: string, settings: AppSettings) => Promise<DamageAnalysisResult>;
+  chat: (message: string, useSearch: boolean, settings: AppSettings) => Promise<AssistantReply>;
+  supportsSearch: boolean;
+}
+
+export const AI_PROVIDERS: AiProvider[] = [
+  { kind: 'gemini', label: 'Gemini (proxy)', identifyCar: identifyCarWithGemini, analyzeDamage: analyzeDamageWithGemini, chat: chatWithGemini, supportsSearch: true },
+  { kind: 'openai', label: 'Servidor compatible con OpenAI', identifyCar: identifyCarWithOpenAi, analyzeDamage: analyzeDamageWithOpenAi, chat: chatWithOpenAi, supportsSearch: false },
+  { kind: 'mock', label: 'Simulado (sin conexión)', identifyCar: identifyCarWithMock, analyzeDamage: analyzeDamageWithMock, chat: chatWithMock, supportsSearch: true }
+];
+
+export const getAiProvider = (settings: AppSettings): AiProvider => {
+  return AI_PROVIDERS.find(p => p.kind === (settings.aiProvider ?? 'gemini'))!;
+};
+
+// --- NORMALIZATION ---
+// Models do not always honour the schema: unknown enum values are dropped rather than stored
+
+const text = (value: unknown): string | undefined => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const oneOf = <T extends string>(values: Record<string, T>, value: unknown): T | undefined => {
+  return (Object.values(values) as string[]).includes(value as string) ? value as T : undefined;
+};
+
+const normalizePart = (raw: any): AnalyzedPart | null => {
+  const name = text(raw?.name);
+  if (!name) return null;
+  return {
+    name,
+    position: oneOf(PartPosition, raw.position),
+    damageType: oneOf(DamageType, raw.damageType),
+    severity: oneOf(DamageSeverity, raw.severity),
+    action: oneOf(RepairAction, raw.action),
+    confidence: typeof raw.confidence === 'number' ? Math.min(1, Math.max(0, raw.confidence)) : undefined,
+    description: text(raw.description)
+  };
+};
+
+// Function 1: Identify Car (License Plate, Make, Model)
+export const identifyCarFromImage = async (base64Image: string, settings: AppSettings): Promise<CarDetails> => {
+  try {
+    const raw: any = await getAiProvider(settings).identifyCar(base64Image, settings);
+    return { plate: text(raw?.plate) || '', make: text(raw?.make) || '', model: text(raw?.model) || '', color: text(raw?.color) };
+  } catch (error: any) {
+    console.error("Error identifying car:", error);
+    // Throw the raw message to help debugging in UI
+    throw new Error(error.message || "Error desconocido en la IA");
+  }
+};
+
+// Function 2: Analyze Damage
+export const analyzeDamageFromImage = async (base64Image: string, settings: AppSettings): Promise<DamageAnalysisResult> => {
+  try {
+    const raw: any = await getAiProvider(settings).analyzeDamage(base64Image, settings);
+    return {
+      detectedParts: (Array.isArray(raw?.detectedParts) ? raw.detectedParts : []).map(normalizePart).filter((p: AnalyzedPart | null): p is AnalyzedPart => !!p),
+      assessment: text(raw?.assessment)
+    };
+  } catch (error: any) {
+    console.error("Error analyzing damage:", error);
+    throw new Error(error.message || "Error analizando daños");
+  }
+};
+
+// Function 3: Assistant Chat. Search is only used by providers that support it.
+export const sendAssistantMessage = async (message: string, settings: AppSettings, useSearch: boolean = false): Promise<AssistantReply> => {
+  try {
+    const provider = getAiProvider(settings);
+    const reply = await provider.chat(message, useSearch && provider.supportsSearch, settings);
+    return {
+      text: text(reply?.text) || "No se pudo generar respuesta.",
+      sources: (reply?.sources || []).filter(s => s && typeof s.uri === 'string').map(s => ({ uri: s.uri, title: s.title || s.uri }))
+    };
+  } catch (error) {
+    console.error("Error in chat:", error);
+    throw error;
+  }
+};
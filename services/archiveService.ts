@@ -0,0 +1,40 @@
+import { Invoice, Job, JobStatus } from '../types';
+
+// --- ARCHIVE & TRASH ---
+// Archiving hides delivered jobs from the day-to-day views. Deleting only sets a tombstone (deletedAt),
+// which syncs like any other field so other devices hide the job too; it is purged for good after the retention period.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const TRASH_RETENTION_DAYS = 30;
+
+export const isDeleted = (job: Job): boolean => job.deletedAt !== undefined;
+
+export const isArchived = (job: Job): boolean => !isDeleted(job) && job.archivedAt !== undefined;
+
+// Shown in the workshop views (assessment, dashboard counters)
+export const isActiveJob = (job: Job): boolean => !isDeleted(job) && job.archivedAt === undefined;
+
+export const canArchive = (job: Job): boolean => job.status === JobStatus.DELIVERED;
+
+// Invoiced jobs must be kept: the invoices reference them
+export const getDeleteBlocker = (job: Job, invoices: Invoice[]): string | null => {
+  return invoices.some(i => i.jobId === job.id) ? 'El trabajo tiene facturas emitidas y no se puede eliminar.' : null;
+};
+
+export const archiveJob = (now: number = Date.now()): Partial<Job> => ({ archivedAt: now });
+
+export const unarchiveJob = (): Partial<Job> => ({ archivedAt: undefined });
+
+// Who deleted or restored it is recorded in the audit log
+export const trashJob = (now: number = Date.now()): Partial<Job> => ({ deletedAt: now });
+
+export const restoreJob = (): Partial<Job> => ({ deletedAt: undefined });
+
+export const getPurgeDate = (job: Job): number => (job.deletedAt ?? 0) + TRASH_RETENTION_DAYS * DAY_MS;
+
+export const getDaysUntilPurge = (job: Job, now: number = Date.now()): number => Math.max(0, Math.ceil((getPurgeDate(job) - now) / DAY_MS));
+
+// Jobs whose time in the trash is over
+export const getExpiredTrash = (jobs: Job[], now: number = Date.now()): Job[] => {
+  return jobs.filter(job => isDeleted(job) && getPurgeDate(job) <= now);
+};
@@ -0,0 +1,176 @@
+import { AuditAction, AuditEntry, CarDetails, Customer, DamagePart, Estimate, InsuranceClaim, Insurer, Job, Technician, TechnicianAssignment } from '../types';
+import { formatPart } from './damageService';
+import { calculateEstimateTotals, formatCurrency } from './estimateService';
+import { v4 as uuidv4 } from 'uuid';
+
+const MAX_VALUE_LENGTH = 200;
+
+const CAR_FIELD_LABELS: Record<keyof CarDetails, string> = {
+  plate: 'Matrícula',
+  make: 'Marca',
+  model: 'Modelo',
+  color: 'Color',
+  year: 'Año',
+  vin: 'Bastidor',
+  paintCode: 'Código de pintura'
+};
+
+const CLAIM_FIELD_LABELS: Record<keyof InsuranceClaim, string> = {
+  insurerId: 'Aseguradora',
+  policyNumber: 'Póliza',
+  claimNumber: 'Nº siniestro',
+  peritoName: 'Perito',
+  inspectionDate: 'Fecha de peritación',
+  status: 'Estado del siniestro',
+  franchise: 'Franquicia'
+};
+
+// Used to show names instead of ids in the log
+interface AuditContext {
+  by?: string;
+  customers?: Customer[];
+  insurers?: Insurer[];
+  technicians?: Technician[];
+}
+
+const displayValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.substring(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const entry = (jobId: string, action: AuditAction, fields: Partial<AuditEntry>, by?: string): AuditEntry => ({
+  id: uuidv4(),
+  jobId,
+  at: Date.now(),
+  by,
+  action,
+  ...fields
+});
+
+export const createJobCreatedEntry = (job: Job, by?: string): AuditEntry => {
+  return entry(job.id, AuditAction.CREATED, { to: job.carDetails?.plate }, by);
+};
+
+const diffImages = (jobId: string, label: string, before: string[], after: string[], by?: string): AuditEntry[] => {
+  // Same count: a photo was replaced in place by the editor
+  if (before.length === after.length) {
+    return after
+      .map((img, idx) => img !== before[idx] ? entry(jobId, AuditAction.PHOTO_EDITED, { field: `${label} ${idx + 1}` }, by) : null)
+      .filter((e): e is AuditEntry => e !== null);
+  }
+
+  const entries: AuditEntry[] = [];
+  before.forEach((img, idx) => {
+    if (!after.includes(img)) entries.push(entry(jobId, AuditAction.PHOTO_REMOVED, { field: `${label} ${idx + 1}` }, by));
+  });
+  after.forEach((img, idx) => {
+    if (!before.includes(img)) entries.push(entry(jobId, AuditAction.PHOTO_ADDED, { field: `${label} ${idx + 1}` }, by));
+  });
+  return entries;
+};
+
+const diffParts = (jobId: string, before: DamagePart[], after: DamagePart[], by?: string): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+
+  before.forEach(part => {
+    if (!afterIds.has(part.id)) entries.push(entry(jobId, AuditAction.PART_REMOVED, { from: formatPart(part) }, by));
+  });
+  after.forEach(part => {
+    const previous = beforeById.get(part.id);
+    if (!previous) {
+      entries.push(entry(jobId, AuditAction.PART_ADDED, { to: formatPart(part), aiGenerated: part.confidence !== undefined }, by));
+    } else if (JSON.stringify(previous) !== JSON.stringify(part)) {
+      const describe = (p: DamagePart) => [formatPart(p), p.damageType, p.severity, p.action].filter(Boolean).join(' · ');
+      entries.push(entry(jobId, AuditAction.FIELD_CHANGED, { field: 'Pieza', from: describe(previous), to: describe(part) }, by));
+    }
+  });
+  return entries;
+};
+
+const describeEstimate = (estimate: Estimate): string => {
+  return `v${estimate.version} ${estimate.status} (${formatCurrency(calculateEstimateTotals(estimate).total)})`;
+};
+
+const diffEstimates = (jobId: string, before: Estimate[], after: Estimate[], by?: string): AuditEntry[] => {
+  const beforeById = new Map(before.map(e => [e.id, e]));
+  return after
+    .map(estimate => {
+      const previous = beforeById.get(estimate.id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(estimate)) return null;
+      return entry(jobId, AuditAction.FIELD_CHANGED, {
+        field: 'Presupuesto',
+        from: previous ? describeEstimate(previous) : undefined,
+        to: describeEstimate(estimate)
+      }, by);
+    })
+    .filter((e): e is AuditEntry => e !== null);
+};
+
+// Every user-visible difference between two versions of a job, as log entries
+export const diffJob = (before: Job, after: Job, context: AuditContext = {}): AuditEntry[] => {
+  const { by } = context;
+  const jobId = after.id;
+  const entries: AuditEntry[] = [];
+  const change = (field: string, from: unknown, to: unknown) => {
+    const previous = displayValue(from);
+    const current = displayValue(to);
+    if (previous !== current) entries.push(entry(jobId, AuditAction.FIELD_CHANGED, { field, from: previous, to: current }, by));
+  };
+  const customerName = (id?: string) => id ? context.customers?.find(c => c.id === id)?.name || id : undefined;
+  const insurerName = (id?: string) => id ? context.insurers?.find(i => i.id === id)?.name || id : undefined;
+
+  if (!before.deletedAt && after.deletedAt) entries.push(entry(jobId, AuditAction.DELETED, {}, by));
+  if (before.deletedAt && !after.deletedAt) entries.push(entry(jobId, AuditAction.RESTORED, {}, by));
+  if (!before.archivedAt && after.archivedAt) entries.push(entry(jobId, AuditAction.ARCHIVED, {}, by));
+  if (before.archivedAt && !after.archivedAt) entries.push(entry(jobId, AuditAction.UNARCHIVED, {}, by));
+
+  change('Estado', before.status, after.status);
+  change('Cliente', customerName(before.customerId), customerName(after.customerId));
+  change('Tipo de reparación', before.repairType, after.repairType);
+  change('Observaciones', before.manualNotes, after.manualNotes);
+
+  (Object.keys(CAR_FIELD_LABELS) as (keyof CarDetails)[]).forEach(key => {
+    change(CAR_FIELD_LABELS[key], before.carDetails?.[key], after.carDetails?.[key]);
+  });
+
+  if (before.claim || after.claim) {
+    (Object.keys(CLAIM_FIELD_LABELS) as (keyof InsuranceClaim)[]).forEach(key => {
+      const from = key === 'insurerId' ? insurerName(before.claim?.insurerId) : before.claim?.[key];
+      const to = key === 'insurerId' ? insurerName(after.claim?.insurerId) : after.claim?.[key];
+      change(CLAIM_FIELD_LABELS[key], from, to);
+    });
+  }
+
+  if (before.intakeImage !== after.intakeImage) {
+    const action = !after.intakeImage ? AuditAction.PHOTO_REMOVED : !before.intakeImage ? AuditAction.PHOTO_ADDED : AuditAction.PHOTO_EDITED;
+    entries.push(entry(jobId, action, { field: 'Foto de ingreso' }, by));
+  }
+  entries.push(...diffImages(jobId, 'Foto de daño', before.damageImages || [], after.damageImages || [], by));
+  entries.push(...diffParts(jobId, before.identifiedParts, after.identifiedParts, by));
+  entries.push(...diffEstimates(jobId, before.estimates || [], after.estimates || [], by));
+
+  // Assignments only, clocked time is not logged entry by entry
+  const describeAssignment = (a: TechnicianAssignment) => {
+    const technician = context.technicians?.find(t => t.id === a.technicianId)?.name || a.technicianId;
+    const part = a.partId ? after.identifiedParts.find(p => p.id === a.partId) || before.identifiedParts.find(p => p.id === a.partId) : undefined;
+    return `${technician} · ${a.task}${part ? ` · ${formatPart(part)}` : ''}`;
+  };
+  const beforeAssignments = new Set((before.assignments || []).map(a => a.id));
+  const afterAssignments = new Set((after.assignments || []).map(a => a.id));
+  (before.assignments || []).filter(a => !afterAssignments.has(a.id)).forEach(a => {
+    entries.push(entry(jobId, AuditAction.FIELD_CHANGED, { field: 'Técnico asignado', from: describeAssignment(a) }, by));
+  });
+  (after.assignments || []).filter(a => !beforeAssignments.has(a.id)).forEach(a => {
+    entries.push(entry(jobId, AuditAction.FIELD_CHANGED, { field: 'Técnico asignado', to: describeAssignment(a) }, by));
+  });
+
+  return entries;
+};
+
+// Newest first
+export const getJobAuditLog = (log: AuditEntry[], jobId: string): AuditEntry[] => {
+  return log.filter(e => e.jobId === jobId).sort((a, b) => b.at - a.at);
+};
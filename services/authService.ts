@@ -0,0 +1,171 @@
+import { initializeApp, deleteApp } from 'firebase/app';
+import {
+  getAuth, connectAuthEmulator, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword,
+  signOut as firebaseSignOut, Auth
+} from 'firebase/auth';
+import { FirebaseConfig, UserProfile, UserRole } from '../types';
+import { getFirebaseApp, parseEmulatorAddress, loadUserProfile, saveUserProfile, bootstrapAdminProfile } from './firebaseService';
+import { loadCachedProfile, saveCachedProfile } from './storageService';
+
+// --- AUTHENTICATION ---
+// With a cloud configured every device signs in with email and password (Firebase Authentication).
+// The role comes from the user's profile document; see services/permissionService.ts and firestore.rules.
+
+let auth: Auth | undefined;
+
+// Set while the first administrator is being registered: the new account has no profile yet
+// and must not be turned away by the auth listener meanwhile
+let bootstrapping = false;
+
+const connectEmulator = (instance: Auth, config: FirebaseConfig) => {
+  if (config.emulators?.auth) {
+    const [host, port] = parseEmulatorAddress(config.emulators.auth);
+    connectAuthEmulator(instance, `http://${host}:${port}`, { disableWarnings: true });
+  }
+};
+
+const getAppAuth = (config: FirebaseConfig): Auth => {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp(config));
+    connectEmulator(auth, config);
+  }
+  return auth;
+};
+
+const AUTH_ERRORS: Record<string, string> = {
+  'auth/invalid-credential': 'Email o contraseña incorrectos.',
+  'auth/wrong-password': 'Email o contraseña incorrectos.',
+  'auth/user-not-found': 'Email o contraseña incorrectos.',
+  'auth/invalid-email': 'El email no es válido.',
+  'auth/email-already-in-use': 'Ya existe una cuenta con ese email.',
+  'auth/weak-password': 'La contraseña debe tener al menos 6 caracteres.',
+  'auth/too-many-requests': 'Demasiados intentos. Espera unos minutos y vuelve a probar.',
+  'auth/network-request-failed': 'Sin conexión con el servidor de autenticación.',
+  'auth/user-disabled': 'Esta cuenta está deshabilitada.',
+  'permission-denied': 'Permiso denegado por las reglas de Firestore.'
+};
+
+// Firebase errors carry a code; anything else keeps its own message
+export const describeAuthError = (e: unknown): string => {
+  const code = (e as { code?: string })?.code;
+  if (code && AUTH_ERRORS[code]) return AUTH_ERRORS[code];
+  return e instanceof Error ? e.message : String(e);
+};
+
+export interface AuthState {
+  user: UserProfile | null;
+  error?: string; // Why a signed-in account was turned away (no profile, deactivated)
+}
+
+// Calls back on every sign-in and sign-out with the user's profile. Accounts without a profile
+// or deactivated are signed out again, since the rules would reject all their reads and writes.
+export const subscribeAuth = (config: FirebaseConfig, listener: (state: AuthState) => void): (() => void) => {
+  const instance = getAppAuth(config);
+  return onAuthStateChanged(instance, async firebaseUser => {
+    if (!firebaseUser) {
+      listener({ user: null });
+      return;
+    }
+    if (bootstrapping) return;
+    let profile: UserProfile | null | undefined;
+    try {
+      profile = await loadUserProfile(config, firebaseUser.uid);
+      if (profile) await saveCachedProfile(profile);
+    } catch (e) {
+      // Offline: the session persists, so keep working with the profile from the last time
+      profile = await loadCachedProfile(firebaseUser.uid).catch(() => undefined);
+      if (!profile) {
+        await firebaseSignOut(instance);
+        listener({ user: null, error: `No se pudo cargar tu perfil: ${describeAuthError(e)}` });
+        return;
+      }
+    }
+    if (!profile) {
+      await firebaseSignOut(instance);
+      listener({ user: null, error: 'Tu cuenta no tiene acceso a este taller. Pide al administrador que te dé de alta.' });
+    } else if (!profile.active) {
+      await firebaseSignOut(instance);
+      listener({ user: null, error: 'Tu cuenta está desactivada. Habla con el administrador.' });
+    } else {
+      listener({ user: profile });
+    }
+  });
+};
+
+export const signIn = async (config: FirebaseConfig, email: string, password: string): Promise<void> => {
+  try {
+    await signInWithEmailAndPassword(getAppAuth(config), email.trim(), password);
+  } catch (e) {
+    throw new Error(describeAuthError(e));
+  }
+};
+
+export const signOut = async (config: FirebaseConfig): Promise<void> => {
+  await firebaseSignOut(getAppAuth(config));
+};
+
+// Registers the first administrator of a new project. If the project already has one the rules reject
+// the profile, and the account just created is deleted again so the email stays free.
+export const createFirstAdmin = async (config: FirebaseConfig, name: string, email: string, password: string): Promise<void> => {
+  const instance = getAppAuth(config);
+  bootstrapping = true;
+  try {
+    let credential;
+    try {
+      credential = await createUserWithEmailAndPassword(instance, email.trim(), password);
+    } catch (e) {
+      throw new Error(describeAuthError(e));
+    }
+    const profile: UserProfile = {
+      uid: credential.user.uid,
+      email: email.trim(),
+      name: name.trim(),
+      role: UserRole.ADMIN,
+      active: true,
+      createdAt: Date.now()
+    };
+    try {
+      await bootstrapAdminProfile(config, profile);
+    } catch (e) {
+      await credential.user.delete().catch(() => undefined);
+      throw new Error((e as { code?: string })?.code === 'permission-denied'
+        ? 'Este taller ya tiene administrador. Pídele que te cree una cuenta.'
+        : describeAuthError(e));
+    }
+  } finally {
+    bootstrapping = false;
+  }
+  // The listener skipped the sign-in while the profile did not exist: sign in again so it loads it
+  await firebaseSignOut(instance);
+  await signInWithEmailAndPassword(instance, email.trim(), password);
+};
+
+// Creates another user's account. Done on a secondary app instance, since creating an account
+// signs it in and the administrator must stay signed in on this one.
+export const createUserAccount = async (
+  config: FirebaseConfig,
+  details: { name: string; email: string; password: string; role: UserRole; workshopIds?: string[] }
+): Promise<UserProfile> => {
+  const secondary = initializeApp(config, `user-admin-${Date.now()}`);
+  try {
+    const secondaryAuth = getAuth(secondary);
+    connectEmulator(secondaryAuth, config);
+    const credential = await createUserWithEmailAndPassword(secondaryAuth, details.email.trim(), details.password);
+    await firebaseSignOut(secondaryAuth);
+    const profile: UserProfile = {
+      uid: credential.user.uid,
+      email: details.email.trim(),
+      name: details.name.trim(),
+      role: details.role,
+      active: true,
+      workshopIds: details.workshopIds,
+      createdAt: Date.now()
+    };
+    await saveUserProfile(config, profile);
+    return profile;
+  } catch (e) {
+    throw new Error(describeAuthError(e));
+  } finally {
+    await deleteApp(secondary);
+  }
+};
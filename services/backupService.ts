@@ -0,0 +1,201 @@
+import { AppData, AppSettings, AutoBackupSettings, BackupArchive, Job, QuarantinedRecord } from '../types';
+import { JOB_SCHEMA_VERSION, upgradeJob, upgradeSettings } from './schemaService';
+import { listLocalBackups, saveLocalBackup } from './storageService';
+import { stampJobChanges, stampListChanges } from './revisionService';
+
+// --- BACKUP & RESTORE ---
+// A backup is a single JSON file with every collection, the settings and the photos as stored locally
+// (original resolution; photos never opened on this device are only their cloud thumbnails).
+
+const BACKUP_FORMAT = 'tallerpro-backup';
+const BACKUP_VERSION = 1;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_AUTO_BACKUP: AutoBackupSettings = { enabled: true, intervalHours: 24, retention: 3 };
+
+// Connection credentials never leave the device inside a backup file
+const stripSecrets = (settings: AppSettings): AppSettings => {
+  const { firebaseConfig, googleAccessToken, restServer, aiProxy, openAiCompatible, ...rest } = settings;
+  return rest;
+};
+
+export const createBackup = (data: AppData, settings: AppSettings, now: number = Date.now()): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: now,
+  jobSchemaVersion: JOB_SCHEMA_VERSION,
+  data,
+  settings: stripSecrets(settings)
+});
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadBackup = (archive: BackupArchive) => {
+  const date = new Date(archive.createdAt).toISOString().slice(0, 10);
+  downloadFile(new Blob([JSON.stringify(archive)], { type: 'application/json' }), `tallerpro_copia_${date}.json`);
+};
+
+// Throws with a user-facing message when the file is not a usable backup
+export const parseBackup = (text: string): BackupArchive => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  if (!parsed || parsed.format !== BACKUP_FORMAT || typeof parsed.data !== 'object' || parsed.data === null) {
+    throw new Error("El archivo no es una copia de seguridad de TallerPro.");
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error("La copia se creó con una versión más reciente de la aplicación.");
+  }
+
+  const list = (value: unknown) => Array.isArray(value) ? value : [];
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : 0,
+    jobSchemaVersion: parsed.jobSchemaVersion,
+    data: {
+      jobs: list(parsed.data.jobs),
+      customers: list(parsed.data.customers),
+      vehicles: list(parsed.data.vehicles),
+      invoices: list(parsed.data.invoices),
+      insurers: list(parsed.data.insurers),
+      auditLog: list(parsed.data.auditLog),
+      technicians: list(parsed.data.technicians)
+    },
+    settings: parsed.settings || {}
+  };
+};
+
+export interface RestoreCounts {
+  added: number;
+  overwritten: number;
+  skipped: number; // Identical, or records that are never overwritten (issued invoices, audit entries)
+}
+
+export interface RestorePlan {
+  data: AppData; // Current data with the backup applied
+  settings: AppSettings;
+  counts: Record<keyof AppData, RestoreCounts>;
+  invalid: QuarantinedRecord[]; // Records in the backup that failed validation, not restored
+}
+
+const mergeRecords = <T>(current: T[], incoming: T[], getKey: (item: T) => string, overwrite: boolean): { items: T[]; counts: RestoreCounts } => {
+  const counts: RestoreCounts = { added: 0, overwritten: 0, skipped: 0 };
+  const byKey = new Map(current.map(item => [getKey(item), item]));
+  incoming.forEach(item => {
+    const key = getKey(item);
+    const existing = byKey.get(key);
+    if (existing === undefined) {
+      byKey.set(key, item);
+      counts.added++;
+    } else if (!overwrite || JSON.stringify(existing) === JSON.stringify(item)) {
+      counts.skipped++;
+    } else {
+      byKey.set(key, item);
+      counts.overwritten++;
+    }
+  });
+  return { items: Array.from(byKey.values()), counts };
+};
+
+// What restoring the archive would do: used both for the preview and to apply it
+export const planRestore = (archive: BackupArchive, current: AppData, currentSettings: AppSettings): RestorePlan => {
+  const invalid: QuarantinedRecord[] = [];
+  const validJobs: Job[] = [];
+  archive.data.jobs.forEach(raw => {
+    const result = upgradeJob(raw, 'backup');
+    if (result.ok) validJobs.push(result.value);
+    else invalid.push(result.quarantined);
+  });
+
+  let settings = currentSettings;
+  const settingsResult = upgradeSettings(archive.settings, 'backup');
+  if (settingsResult.ok) {
+    // Credentials are not in the backup: the connection configured on this device is kept
+    settings = {
+      ...settingsResult.value,
+      syncBackend: currentSettings.syncBackend,
+      mirrorBackend: currentSettings.mirrorBackend,
+      firebaseConfig: currentSettings.firebaseConfig,
+      googleSheetId: currentSettings.googleSheetId,
+      googleAccessToken: currentSettings.googleAccessToken,
+      restServer: currentSettings.restServer,
+      aiProvider: currentSettings.aiProvider,
+      aiProxy: currentSettings.aiProxy,
+      openAiCompatible: currentSettings.openAiCompatible,
+      workshopId: currentSettings.workshopId,
+      adoptedWorkshopId: currentSettings.adoptedWorkshopId
+    };
+  } else {
+    invalid.push(settingsResult.quarantined);
+  }
+
+  const jobs = mergeRecords(current.jobs, validJobs, j => j.id, true);
+  // Restored jobs count as local edits, so they win over older cloud copies on the next sync
+  const currentJobs = new Map(current.jobs.map(j => [j.id, j]));
+  const restoredJobs = jobs.items.map(job => currentJobs.get(job.id) === job ? job : stampJobChanges(currentJobs.get(job.id), job));
+  const customers = mergeRecords(current.customers, archive.data.customers, c => c.id, true);
+  const vehicles = mergeRecords(current.vehicles, archive.data.vehicles, v => v.plate, true);
+  const invoices = mergeRecords(current.invoices, archive.data.invoices, i => i.id, false);
+  const insurers = mergeRecords(current.insurers, archive.data.insurers, i => i.id, true);
+  const auditLog = mergeRecords(current.auditLog, archive.data.auditLog, e => e.id, false);
+  const technicians = mergeRecords(current.technicians, archive.data.technicians, t => t.id, true);
+
+  return {
+    data: {
+      jobs: restoredJobs.sort((a, b) => b.createdAt - a.createdAt),
+      // Restored registry records win the same way
+      customers: stampListChanges(current.customers, customers.items, c => c.id),
+      vehicles: stampListChanges(current.vehicles, vehicles.items, v => v.plate),
+      invoices: invoices.items,
+      insurers: stampListChanges(current.insurers, insurers.items, i => i.id),
+      auditLog: auditLog.items,
+      technicians: stampListChanges(current.technicians, technicians.items, t => t.id)
+    },
+    settings,
+    counts: {
+      jobs: jobs.counts,
+      customers: customers.counts,
+      vehicles: vehicles.counts,
+      invoices: invoices.counts,
+      insurers: insurers.counts,
+      auditLog: auditLog.counts,
+      technicians: technicians.counts
+    },
+    invalid
+  };
+};
+
+// --- SCHEDULED LOCAL BACKUPS ---
+
+let lastAutoBackupAt: number | undefined;
+let autoBackupRunning: Promise<boolean> | null = null;
+
+// Called whenever data changes; only writes a backup once the configured interval has passed
+export const runScheduledBackup = (data: AppData, settings: AppSettings, now: number = Date.now()): Promise<boolean> => {
+  const config = { ...DEFAULT_AUTO_BACKUP, ...settings.autoBackup };
+  if (!config.enabled || autoBackupRunning) return autoBackupRunning || Promise.resolve(false);
+
+  autoBackupRunning = (async () => {
+    if (lastAutoBackupAt === undefined) {
+      const [latest] = await listLocalBackups();
+      lastAutoBackupAt = latest ? latest.createdAt : 0;
+    }
+    if (now - lastAutoBackupAt < config.intervalHours * HOUR_MS) return false;
+    await saveLocalBackup(createBackup(data, settings, now), config.retention);
+    lastAutoBackupAt = now;
+    return true;
+  })().finally(() => { autoBackupRunning = null; });
+
+  return autoBackupRunning;
+};
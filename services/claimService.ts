@@ -0,0 +1,16 @@
+import { ClaimStatus, Insurer, Job, JobStatus } from '../types';
+
+// Insured repairs cannot start until the perito has approved the claim
+export const needsPeritoApproval = (job: Job): boolean => {
+  return !!job.claim && job.claim.status !== ClaimStatus.APPROVED && job.claim.status !== ClaimStatus.PAID;
+};
+
+// Status a job should move to once its damage assessment is confirmed
+export const getPostAssessmentStatus = (job: Job): JobStatus => {
+  return needsPeritoApproval(job) ? JobStatus.AWAITING_PERITO : JobStatus.IN_PROGRESS;
+};
+
+export const getInsurerName = (insurers: Insurer[], insurerId?: string): string => {
+  if (!insurerId) return '';
+  return insurers.find(i => i.id === insurerId)?.name || 'Aseguradora desconocida';
+};
@@ -0,0 +1,218 @@
+import { FirebaseStorage, ref, uploadBytesResumable, getBlob, getMetadata } from 'firebase/storage';
+import { ImageRef, Job } from '../types';
+
+// --- CLOUD IMAGES ---
+// Photos are uploaded as separate objects (one per content hash, per job) and job documents only keep an
+// ImageRef with an inline thumbnail. Devices that did not take a photo hold the thumbnail in its place
+// until the job is opened, when the full image is downloaded.
+// Where the objects live depends on the sync backend: see ImageStore.
+
+const THUMBNAIL_WIDTH = 240;
+const UPLOAD_ATTEMPTS = 3;
+
+// Compress an image base64 string to a smaller size/quality
+export const compressImage = (base64: string, maxWidth: number = 800, quality: number = 0.6): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.src = `data:image/jpeg;base64,${base64}`;
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      let width = img.width;
+      let height = img.height;
+
+      // Calculate new dimensions
+      if (width > maxWidth) {
+        height = Math.round((height * maxWidth) / width);
+        width = maxWidth;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(base64); // Fail gracefully, return original
+        return;
+      }
+
+      // Fill white background to handle transparency issues if any
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      ctx.drawImage(img, 0, 0, width, height);
+
+      // Export as compressed JPEG
+      const dataUrl = canvas.toDataURL('image/jpeg', quality);
+      resolve(dataUrl.split(',')[1]);
+    };
+    img.onerror = () => resolve(base64); // Fail gracefully
+  });
+};
+
+const base64ToBlob = (base64: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: 'image/jpeg' });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Content hash, so an image is uploaded once whatever the number of syncs
+const hashImage = async (base64: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64));
+  return Array.from(new Uint8Array(digest)).slice(0, 16).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- IMAGE STORES ---
+
+export interface ImageStore {
+  exists: (jobId: string, imageId: string) => Promise<boolean>;
+  // Reports the bytes sent so far, for the upload progress
+  upload: (jobId: string, imageId: string, blob: Blob, onProgress: (bytesTransferred: number) => void) => Promise<void>;
+  download: (jobId: string, imageId: string) => Promise<Blob>;
+}
+
+const imagePath = (workshopId: string, jobId: string, imageId: string) => `workshops/${workshopId}/jobs/${jobId}/${imageId}.jpg`;
+
+// Photos uploaded before workshops existed stay where they were; jobs carried into a workshop keep their refs
+const legacyImagePath = (jobId: string, imageId: string) => `jobs/${jobId}/${imageId}.jpg`;
+
+const isNotFound = (e: unknown) => (e as { code?: string })?.code === 'storage/object-not-found';
+
+// Firebase Storage, at workshops/{workshopId}/jobs/{jobId}/{hash}.jpg
+export const firebaseImageStore = (storage: FirebaseStorage, workshopId: string): ImageStore => ({
+  exists: async (jobId, imageId) => {
+    try {
+      await getMetadata(ref(storage, imagePath(workshopId, jobId, imageId)));
+      return true;
+    } catch (e) {
+      if (isNotFound(e)) return false;
+      throw e;
+    }
+  },
+  upload: (jobId, imageId, blob, onProgress) => new Promise<void>((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, imagePath(workshopId, jobId, imageId)), blob, { contentType: 'image/jpeg' });
+    task.on('state_changed', snapshot => onProgress(snapshot.bytesTransferred), reject, () => resolve());
+  }),
+  download: (jobId, imageId) => getBlob(ref(storage, imagePath(workshopId, jobId, imageId))).catch(e => {
+    if (!isNotFound(e)) throw e;
+    return getBlob(ref(storage, legacyImagePath(jobId, imageId)));
+  })
+});
+
+// --- UPLOAD PROGRESS ---
+
+export interface UploadProgress {
+  total: number; // Images queued in the current round
+  done: number;
+  failed: number;
+  bytesTransferred: number;
+  totalBytes: number;
+}
+
+const EMPTY_PROGRESS: UploadProgress = { total: 0, done: 0, failed: 0, bytesTransferred: 0, totalBytes: 0 };
+let progress: UploadProgress = { ...EMPTY_PROGRESS };
+const progressListeners = new Set<(progress: UploadProgress) => void>();
+
+export const subscribeUploadProgress = (listener: (progress: UploadProgress) => void): (() => void) => {
+  progressListeners.add(listener);
+  return () => { progressListeners.delete(listener); };
+};
+
+const updateProgress = (changes: Partial<UploadProgress>) => {
+  progress = { ...progress, ...changes };
+  progressListeners.forEach(listener => listener(progress));
+  // A finished round starts counting from zero again
+  if (progress.done + progress.failed >= progress.total) progress = { ...EMPTY_PROGRESS };
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Upload retried with backoff. Objects left by an interrupted sync are not uploaded again.
+const uploadImage = async (store: ImageStore, jobId: string, imageId: string, blob: Blob): Promise<void> => {
+  updateProgress({ total: progress.total + 1, totalBytes: progress.totalBytes + blob.size });
+
+  for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+    let transferred = 0;
+    try {
+      if (!(await store.exists(jobId, imageId))) {
+        await store.upload(jobId, imageId, blob, bytesTransferred => {
+          updateProgress({ bytesTransferred: progress.bytesTransferred + bytesTransferred - transferred });
+          transferred = bytesTransferred;
+        });
+      }
+      updateProgress({ done: progress.done + 1, bytesTransferred: progress.bytesTransferred + blob.size - transferred });
+      return;
+    } catch (e) {
+      updateProgress({ bytesTransferred: progress.bytesTransferred - transferred });
+      if (attempt === UPLOAD_ATTEMPTS) {
+        updateProgress({ failed: progress.failed + 1 });
+        throw e;
+      }
+      await delay(1000 * 2 ** attempt);
+    }
+  }
+};
+
+const resolveImageRef = async (store: ImageStore, jobId: string, image: string, known: ImageRef[]): Promise<ImageRef> => {
+  // A thumbnail standing in for a photo this device never downloaded: already in the cloud
+  const placeholder = known.find(r => r.thumbnail === image);
+  if (placeholder) return placeholder;
+
+  const id = await hashImage(image);
+  const existing = known.find(r => r.id === id);
+  if (existing) return existing;
+
+  const thumbnail = await compressImage(image, THUMBNAIL_WIDTH, 0.6);
+  await uploadImage(store, jobId, id, base64ToBlob(image));
+  return { id, thumbnail };
+};
+
+// Refs for the job's current photos, uploading the ones not in the cloud yet
+export const uploadJobImages = async (store: ImageStore, job: Job): Promise<Pick<Job, 'intakeImageRef' | 'damageImageRefs'>> => {
+  const known = [job.intakeImageRef, ...(job.damageImageRefs || [])].filter((r): r is ImageRef => !!r);
+  const intakeImageRef = job.intakeImage ? await resolveImageRef(store, job.id, job.intakeImage, known) : undefined;
+  const damageImageRefs: ImageRef[] = [];
+  for (const image of job.damageImages || []) damageImageRefs.push(await resolveImageRef(store, job.id, image, known));
+  return { intakeImageRef, damageImageRefs };
+};
+
+// Photos without refs yet, e.g. jobs synced when images were stored inline in the document
+export const needsImageUpload = (job: Job): boolean => {
+  return !!job.intakeImage !== !!job.intakeImageRef || (job.damageImages?.length ?? 0) !== (job.damageImageRefs?.length ?? 0);
+};
+
+// Photos still showing the thumbnail instead of the full image
+export const hasPendingDownloads = (job: Job): boolean => {
+  return (!!job.intakeImageRef && job.intakeImage === job.intakeImageRef.thumbnail) ||
+    (job.damageImageRefs || []).some((r, idx) => job.damageImages?.[idx] === r.thumbnail);
+};
+
+export const downloadJobImages = async (store: ImageStore, job: Job): Promise<Pick<Job, 'intakeImage' | 'damageImages'>> => {
+  const download = async (image: string | undefined, imageRef: ImageRef | undefined): Promise<string | undefined> => {
+    if (!imageRef || image !== imageRef.thumbnail) return image;
+    return blobToBase64(await store.download(job.id, imageRef.id));
+  };
+  const intakeImage = await download(job.intakeImage, job.intakeImageRef);
+  const damageImages = await Promise.all((job.damageImages || []).map((img, idx) => download(img, job.damageImageRefs?.[idx])));
+  return { intakeImage, damageImages: damageImages.filter((img): img is string => !!img) };
+};
+
+// Image fields as they are stored in a job document: refs instead of base64
+export const toCloudImageFields = (job: Job) => ({ intakeImageRef: job.intakeImageRef, damageImageRefs: job.damageImageRefs });
+
+// Job read from a document: thumbnails stand in for the photos until they are downloaded
+export const fromCloudImageFields = (doc: Record<string, any>): Record<string, any> => {
+  if (!doc.intakeImageRef && !doc.damageImageRefs) return doc; // Inline images written by older versions
+  return {
+    ...doc,
+    intakeImage: doc.intakeImageRef?.thumbnail,
+    damageImages: (doc.damageImageRefs || []).map((r: ImageRef) => r.thumbnail)
+  };
+};
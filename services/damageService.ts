@@ -0,0 +1,40 @@
+import { DamagePart } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export const createDamagePart = (name: string, fields: Partial<DamagePart> = {}): DamagePart => ({
+  id: uuidv4(),
+  name: name.trim(),
+  ...fields
+});
+
+// Older jobs stored parts as plain strings ("Parachoques"). Convert them to records
+// so the rest of the app can assume DamagePart everywhere.
+export const normalizeParts = (parts: unknown): DamagePart[] => {
+  if (!Array.isArray(parts)) return [];
+  return parts
+    .filter(p => p !== null && p !== undefined && p !== '')
+    .map(p => {
+      if (typeof p === 'string') return createDamagePart(p);
+      const part = p as DamagePart;
+      return part.id ? part : { ...part, id: uuidv4() };
+    });
+};
+
+// "Aleta (Delantero izquierdo)" style label for tables and summaries
+export const formatPart = (part: DamagePart): string => {
+  return part.position ? `${part.name} (${part.position})` : part.name;
+};
+
+export const formatPartsSummary = (parts: DamagePart[]): string => {
+  return (parts || []).map(formatPart).join(', ');
+};
+
+// Keep photo references valid after a damage photo is removed
+export const reindexPartsAfterImageRemoval = (parts: DamagePart[], removedIndex: number): DamagePart[] => {
+  return parts.map(part => {
+    if (part.imageIndex === undefined) return part;
+    if (part.imageIndex === removedIndex) return { ...part, imageIndex: undefined };
+    if (part.imageIndex > removedIndex) return { ...part, imageIndex: part.imageIndex - 1 };
+    return part;
+  });
+};
@@ -0,0 +1,143 @@
+import { DamagePart, DamageSeverity, Estimate, EstimateLine, EstimateLineType, EstimateStatus, Job, LaborRate, RepairAction, RepairType } from '../types';
+import { formatPart } from './damageService';
+import { v4 as uuidv4 } from 'uuid';
+
+export const IVA_RATE = 0.21;
+
+export const DEFAULT_LABOR_RATES: Record<RepairType, LaborRate> = {
+  CHAPA: { bodyHour: 42, paintHour: 42, paintMaterialPerHour: 25 },
+  PINTURA: { bodyHour: 42, paintHour: 45, paintMaterialPerHour: 28 },
+  AMBOS: { bodyHour: 42, paintHour: 45, paintMaterialPerHour: 28 }
+};
+
+export const getLaborRate = (repairType: RepairType, rates?: Partial<Record<RepairType, LaborRate>>): LaborRate => {
+  return { ...DEFAULT_LABOR_RATES[repairType], ...(rates?.[repairType] || {}) };
+};
+
+// Rough starting hours per severity; the perito/jefe adjusts them on the estimate
+const BODY_HOURS: Record<DamageSeverity, number> = {
+  [DamageSeverity.LOW]: 1,
+  [DamageSeverity.MEDIUM]: 2.5,
+  [DamageSeverity.HIGH]: 4
+};
+
+const PAINT_HOURS: Record<DamageSeverity, number> = {
+  [DamageSeverity.LOW]: 1.5,
+  [DamageSeverity.MEDIUM]: 2.5,
+  [DamageSeverity.HIGH]: 3.5
+};
+
+const REFIT_HOURS = 0.5;
+
+const line = (type: EstimateLineType, description: string, quantity: number, unitPrice: number, partId?: string): EstimateLine => ({
+  id: uuidv4(),
+  type,
+  description,
+  quantity,
+  unitPrice,
+  partId
+});
+
+// Turn one damaged part into priced estimate lines according to its recommended action
+export const linesForPart = (part: DamagePart, repairType: RepairType, rate: LaborRate): EstimateLine[] => {
+  const severity = part.severity || DamageSeverity.MEDIUM;
+  const label = formatPart(part);
+  const doesBody = repairType !== 'PINTURA';
+  const doesPaint = repairType !== 'CHAPA';
+  const lines: EstimateLine[] = [];
+
+  switch (part.action) {
+    case RepairAction.REPLACE:
+      lines.push(line(EstimateLineType.PART, `${label} (recambio)`, 1, 0, part.id));
+      lines.push(line(EstimateLineType.BODY_LABOR, `Sustituir ${label}`, REFIT_HOURS * 2, rate.bodyHour, part.id));
+      break;
+    case RepairAction.REMOVE_REFIT:
+      lines.push(line(EstimateLineType.BODY_LABOR, `Desmontar/Montar ${label}`, REFIT_HOURS, rate.bodyHour, part.id));
+      return lines; // No paint for a plain remove/refit
+    case RepairAction.PAINT:
+      break;
+    default:
+      if (doesBody) {
+        lines.push(line(EstimateLineType.BODY_LABOR, `Reparar ${label}`, BODY_HOURS[severity], rate.bodyHour, part.id));
+      }
+  }
+
+  if (doesPaint || part.action === RepairAction.PAINT) {
+    const paintHours = PAINT_HOURS[severity];
+    lines.push(line(EstimateLineType.PAINT_LABOR, `Pintar ${label}`, paintHours, rate.paintHour, part.id));
+    lines.push(line(EstimateLineType.PAINT_MATERIAL, `Material pintura ${label}`, paintHours, rate.paintMaterialPerHour, part.id));
+  }
+
+  return lines;
+};
+
+export const generateEstimateLines = (job: Job, rates?: Partial<Record<RepairType, LaborRate>>): EstimateLine[] => {
+  const rate = getLaborRate(job.repairType, rates);
+  return job.identifiedParts.flatMap(part => linesForPart(part, job.repairType, rate));
+};
+
+export const createEstimate = (job: Job, rates?: Partial<Record<RepairType, LaborRate>>): Estimate => ({
+  id: uuidv4(),
+  version: 1,
+  createdAt: Date.now(),
+  status: EstimateStatus.DRAFT,
+  ivaRate: IVA_RATE,
+  lines: generateEstimateLines(job, rates)
+});
+
+// Supplement (ampliación): a new draft version starting from the previous one's lines
+export const createSupplement = (previous: Estimate): Estimate => ({
+  id: uuidv4(),
+  version: previous.version + 1,
+  createdAt: Date.now(),
+  status: EstimateStatus.DRAFT,
+  ivaRate: previous.ivaRate,
+  lines: previous.lines.map(l => ({ ...l, id: uuidv4() })),
+  notes: previous.notes
+});
+
+export const getCurrentEstimate = (job: Job): Estimate | undefined => {
+  const estimates = job.estimates || [];
+  return estimates.reduce<Estimate | undefined>((latest, e) => (!latest || e.version > latest.version ? e : latest), undefined);
+};
+
+export const getAcceptedEstimate = (job: Job): Estimate | undefined => {
+  return (job.estimates || [])
+    .filter(e => e.status === EstimateStatus.ACCEPTED)
+    .sort((a, b) => b.version - a.version)[0];
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const lineTotal = (l: EstimateLine): number => {
+  return round2(l.quantity * l.unitPrice * (1 - (l.discount || 0) / 100));
+};
+
+export interface EstimateTotals {
+  byType: Record<EstimateLineType, number>;
+  discount: number;
+  base: number; // Base imponible
+  iva: number;
+  total: number;
+}
+
+export const calculateEstimateTotals = (estimate: Estimate): EstimateTotals => {
+  const byType = Object.values(EstimateLineType).reduce((acc, t) => ({ ...acc, [t]: 0 }), {} as Record<EstimateLineType, number>);
+  let gross = 0;
+  let base = 0;
+
+  estimate.lines.forEach(l => {
+    const total = lineTotal(l);
+    byType[l.type] = round2(byType[l.type] + total);
+    gross += l.quantity * l.unitPrice;
+    base += total;
+  });
+
+  base = round2(base);
+  const iva = round2(base * estimate.ivaRate);
+  return { byType, discount: round2(gross - base), base, iva, total: round2(base + iva) };
+};
+
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(value);
+};
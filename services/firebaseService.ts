@@ -1,174 +1,617 @@
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
-import { getFirestore, collection, getDocs, doc, setDoc, writeBatch, Firestore } from 'firebase/firestore';
-import { Job, AppSettings, FirebaseConfig } from '../types';
+import { getFirestore, connectFirestoreEmulator, collection, getDocs, getDoc, onSnapshot, doc, setDoc, updateDoc, writeBatch, WriteBatch, query, where, limit, deleteField, runTransaction, serverTimestamp, Timestamp, Firestore } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator, FirebaseStorage } from 'firebase/storage';
+import { Job, Customer, Vehicle, Invoice, InvoiceChainHead, Insurer, AuditEntry, Technician, AppData, AppSettings, FirebaseConfig, RecordStamps, SyncResult, UserProfile, UserRole, Workshop, WorkshopSettings } from '../types';
+import { JOB_SCHEMA_VERSION, upgradeJobs } from './schemaService';
+import { mergeRemoteJobs, markJobSynced, isJobDirty, getDirtyFields, mergeRemoteRecords, isRecordDirty, getDirtyRecordFields, markRecordSynced } from './revisionService';
+import { loadSyncCursor, saveSyncCursor } from './storageService';
+import { sortInvoiceChain, getChainHead, continuesChain, advanceChainHead, chainConflictMessage } from './invoiceService';
+import { canUpload } from './permissionService';
+import { firebaseImageStore, uploadJobImages, downloadJobImages, needsImageUpload, hasPendingDownloads, fromCloudImageFields } from './cloudImageService';
 
 let app: FirebaseApp | undefined;
 let db: Firestore | undefined;
+let storage: FirebaseStorage | undefined;
 
 const COLLECTION_NAME = 'jobs';
+const CUSTOMERS_COLLECTION = 'customers';
+const VEHICLES_COLLECTION = 'vehicles';
+const INVOICES_COLLECTION = 'invoices';
+const INSURERS_COLLECTION = 'insurers';
+const AUDIT_COLLECTION = 'jobAudit';
+const TECHNICIANS_COLLECTION = 'technicians';
+const USERS_COLLECTION = 'users';
+const META_COLLECTION = 'meta';
+const WORKSHOPS_COLLECTION = 'workshops';
 
-const getDb = (config: FirebaseConfig): Firestore => {
-  if (!getApps().length) {
-    app = initializeApp(config);
-  } else {
-    app = getApp();
-  }
-  if (!db) {
-    db = getFirestore(app);
+// Server-side write time of job documents, drives the incremental pull
+const SERVER_UPDATED_AT = 'serverUpdatedAt';
+
+// Photos travel as Storage objects: documents hold the refs, never the base64
+const IMAGE_FIELDS: (keyof Job)[] = ['intakeImage', 'damageImages', 'intakeImageRef', 'damageImageRefs'];
+
+// Firestore batches take at most 500 operations; writes are split into committed batches of this size
+const BATCH_SIZE = 450;
+
+// Jobs being uploaded by a sync still running, so an overlapping sync does not upload them twice
+const jobsInFlight = new Set<string>();
+
+const describeError = (e: unknown): string => e instanceof Error ? e.message : String(e);
+
+// Lets the UI render between expensive steps (image hashing and thumbnails, batch commits)
+const yieldToUi = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Writes items in consecutive batches. A failed batch does not stop the next ones:
+// its items are returned by key with the error, so they can be reported and retried.
+const writeInBatches = async <T>(
+  database: Firestore,
+  items: T[],
+  write: (batch: WriteBatch, item: T) => void,
+  getKey: (item: T) => string,
+  onBatchDone?: (count: number) => void
+): Promise<Record<string, string>> => {
+  const failed: Record<string, string> = {};
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const chunk = items.slice(i, i + BATCH_SIZE);
+    const batch = writeBatch(database);
+    chunk.forEach(item => write(batch, item));
+    try {
+      await batch.commit();
+    } catch (e) {
+      console.error(`Lote de ${chunk.length} escrituras fallido`, e);
+      chunk.forEach(item => { failed[getKey(item)] = describeError(e); });
+    }
+    onBatchDone?.(chunk.length);
+    await yieldToUi();
   }
-  return db;
+  return failed;
 };
 
-// --- IMAGE COMPRESSION UTILS ---
+// --- JOB UPLOAD PROGRESS ---
 
-// Compress an image base64 string to a smaller size/quality for Firestore storage
-const compressImage = (base64: string, maxWidth: number = 800, quality: number = 0.6): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.src = `data:image/jpeg;base64,${base64}`;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
+export interface SyncProgress {
+  done: number; // Jobs prepared and written (or failed)
+  total: number;
+}
 
-      // Calculate new dimensions
-      if (width > maxWidth) {
-        height = Math.round((height * maxWidth) / width);
-        width = maxWidth;
-      }
+const progressListeners = new Set<(progress: SyncProgress | null) => void>();
 
-      canvas.width = width;
-      canvas.height = height;
+// Receives null when the upload round is over
+export const subscribeSyncProgress = (listener: (progress: SyncProgress | null) => void): (() => void) => {
+  progressListeners.add(listener);
+  return () => { progressListeners.delete(listener); };
+};
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(base64); // Fail gracefully, return original
-        return;
-      }
+const reportSyncProgress = (progress: SyncProgress | null) => progressListeners.forEach(listener => listener(progress));
 
-      // Fill white background to handle transparency issues if any
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      ctx.drawImage(img, 0, 0, width, height);
-
-      // Export as compressed JPEG
-      const dataUrl = canvas.toDataURL('image/jpeg', quality);
-      resolve(dataUrl.split(',')[1]);
-    };
-    img.onerror = (err) => resolve(base64); // Fail gracefully
-  });
+// Shared with services/authService.ts, so sign-in and data use the same app instance
+export const getFirebaseApp = (config: FirebaseConfig): FirebaseApp => {
+  if (!app) app = getApps().length ? getApp() : initializeApp(config);
+  return app;
 };
 
-// Process a job to compress all its images before sending to cloud
-const prepareJobForCloud = async (job: Job): Promise<Job> => {
-  // Clone job to avoid mutating local state
-  const jobToSave = { ...job };
+export const parseEmulatorAddress = (address: string): [string, number] => {
+  const [host, port] = address.split(':');
+  return [host, Number(port)];
+};
 
-  // 1. Compress Intake Image
-  if (jobToSave.intakeImage) {
-    try {
-      jobToSave.intakeImage = await compressImage(jobToSave.intakeImage);
-    } catch (e) {
-      console.warn("Failed to compress intake image", e);
-    }
+const getDb = (config: FirebaseConfig): Firestore => {
+  if (!db) {
+    db = getFirestore(getFirebaseApp(config));
+    if (config.emulators?.firestore) connectFirestoreEmulator(db, ...parseEmulatorAddress(config.emulators.firestore));
   }
+  return db;
+};
 
-  // 2. Compress Damage Images
-  if (jobToSave.damageImages && jobToSave.damageImages.length > 0) {
-    try {
-      const compressedImages = await Promise.all(
-        jobToSave.damageImages.map(img => compressImage(img))
-      );
-      jobToSave.damageImages = compressedImages;
-    } catch (e) {
-      console.warn("Failed to compress damage images", e);
+const getCloudStorage = (config: FirebaseConfig): FirebaseStorage => {
+  getDb(config);
+  if (!storage) {
+    if (!config.storageBucket) {
+      throw new Error('Falta "storageBucket" en la configuración de Firebase, necesario para las fotos.');
     }
+    storage = getStorage(getFirebaseApp(config));
+    if (config.emulators?.storage) connectStorageEmulator(storage, ...parseEmulatorAddress(config.emulators.storage));
   }
+  return storage;
+};
 
-  return jobToSave;
+// Everything a workshop owns (jobs, registries, invoices, history) lives under workshops/{workshopId}
+const workshopPath = (workshopId: string | undefined, collectionName: string): string => {
+  if (!workshopId) throw new Error('Selecciona un taller antes de sincronizar.');
+  return `${WORKSHOPS_COLLECTION}/${workshopId}/${collectionName}`;
 };
 
 // --- SYNC LOGIC ---
 
-export const syncWithFirebase = async (localJobs: Job[], settings: AppSettings): Promise<Job[]> => {
+// Document data without the server timestamp every sync write sets
+const readDoc = (docData: Record<string, any>): { data: Record<string, any>; serverUpdatedAt?: number } => {
+  const { [SERVER_UPDATED_AT]: serverUpdatedAt, ...data } = docData;
+  return { data, serverUpdatedAt: serverUpdatedAt instanceof Timestamp ? serverUpdatedAt.toMillis() : undefined };
+};
+
+// Job document as the app reads it: server timestamp apart, photos as thumbnails
+const readJobDoc = (docData: Record<string, any>): { data: Record<string, any>; serverUpdatedAt?: number } => {
+  const { data, serverUpdatedAt } = readDoc(docData);
+  return { data: fromCloudImageFields(data), serverUpdatedAt };
+};
+
+// Registries, invoices and the audit log are pulled like jobs: only documents written since the cursor
+// (everything on the first sync). The cursor is saved by the caller once the sync has been applied.
+const pullChangedDocs = async (database: Firestore, settings: AppSettings, path: string): Promise<{ docs: Record<string, any>[]; cursorKey: string; nextCursor: number }> => {
+  const cursorKey = `${settings.firebaseConfig!.projectId}/${path}`;
+  const cursor = await loadSyncCursor(cursorKey);
+  const ref = collection(database, path);
+  const snapshot = await getDocs(cursor > 0 ? query(ref, where(SERVER_UPDATED_AT, '>', Timestamp.fromMillis(cursor))) : ref);
+  let nextCursor = cursor;
+  const docs = snapshot.docs.map(d => {
+    const { data, serverUpdatedAt } = readDoc(d.data());
+    if (serverUpdatedAt !== undefined) nextCursor = Math.max(nextCursor, serverUpdatedAt);
+    return data;
+  });
+  return { docs, cursorKey, nextCursor };
+};
+
+// Jobs are synced incrementally: only documents written since the last pull are downloaded
+// (tracked with a server-side timestamp, immune to device clock drift), they are merged field
+// by field with the local copy, and only jobs with local edits are uploaded, with just the fields that changed.
+// Jobs that could not be uploaded are returned in `failedJobs` (id -> reason); they keep their local edits for the next sync.
+export const syncWithFirebase = async (localJobs: Job[], settings: AppSettings): Promise<{ jobs: Job[]; failedJobs: Record<string, string> }> => {
   if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
     throw new Error("Configuración de Firebase incompleta.");
   }
 
   const database = getDb(settings.firebaseConfig);
-  const jobsRef = collection(database, COLLECTION_NAME);
-
-  // 1. FETCH Remote Data
-  const snapshot = await getDocs(jobsRef);
-  const remoteJobs: Job[] = [];
-  
-  snapshot.forEach((doc) => {
-    remoteJobs.push(doc.data() as Job);
+  const jobsPath = workshopPath(settings.workshopId, COLLECTION_NAME);
+  const jobsRef = collection(database, jobsPath);
+  const cursorKey = `${settings.firebaseConfig.projectId}/${jobsPath}`;
+
+  // 1. PULL documents changed since the cursor (everything on the first sync)
+  const cursor = await loadSyncCursor(cursorKey);
+  const snapshot = await getDocs(cursor > 0 ? query(jobsRef, where(SERVER_UPDATED_AT, '>', Timestamp.fromMillis(cursor))) : jobsRef);
+  let nextCursor = cursor;
+  const rawDocs = snapshot.docs.map(d => {
+    const { data, serverUpdatedAt } = readJobDoc(d.data());
+    if (serverUpdatedAt !== undefined) nextCursor = Math.max(nextCursor, serverUpdatedAt);
+    return data;
   });
+  // Documents written by older app versions are upgraded; invalid ones are quarantined and left untouched in the cloud
+  const remoteJobs = upgradeJobs(rawDocs, 'firebase');
 
-  // 2. MERGE Strategy
-  const jobMap = new Map<string, Job>();
+  // 2. MERGE field by field with the local copies
+  const jobMap = new Map<string, Job>(mergeRemoteJobs(localJobs, remoteJobs).map(job => [job.id, job]));
 
-  // Start with Remote (Server Truth)
-  remoteJobs.forEach(rJob => {
-    jobMap.set(rJob.id, rJob);
-  });
+  // 3. PUSH only jobs with local edits, only the fields that changed, plus jobs whose photos
+  // are not in Storage yet (edited offline, or synced inline by older versions).
+  const pending = Array.from(jobMap.values()).filter(job => !jobsInFlight.has(job.id) && (isJobDirty(job) || needsImageUpload(job)));
+  pending.forEach(job => jobsInFlight.add(job.id));
+  const failedJobs: Record<string, string> = {};
+  const prepared: { job: Job; data: Record<string, unknown> }[] = [];
+  // Half the progress is preparing (photos), half writing
+  let done = 0;
+  if (pending.length > 0) reportSyncProgress({ done, total: pending.length * 2 });
 
-  // Overlay Local
-  localJobs.forEach(lJob => {
-    const rJob = jobMap.get(lJob.id);
-    
-    if (rJob) {
-      // Merge logic:
-      // If local has high-res images (recently taken), keep them locally?
-      // But for syncing purposes, we usually trust the "Server" version for older data,
-      // and "Local" version for data we just edited.
-      
-      // Simplest approach: Trust Local for everything active, but respect Remote if local is missing data.
-      jobMap.set(lJob.id, {
-        ...rJob, 
-        ...lJob, // Local overwrites remote fields if conflict
-        // Ensure images are preserved from whichever source has them
-        intakeImage: lJob.intakeImage || rJob.intakeImage,
-        damageImages: (lJob.damageImages && lJob.damageImages.length > 0) ? lJob.damageImages : rJob.damageImages
+  try {
+    for (const job of pending) {
+      const fields = isJobDirty(job) ? getDirtyFields(job) : [];
+      const imagesChanged = fields.some(f => IMAGE_FIELDS.includes(f)) || needsImageUpload(job);
+
+      let source = job;
+      if (imagesChanged) {
+        try {
+          const refs = await uploadJobImages(firebaseImageStore(getCloudStorage(settings.firebaseConfig), settings.workshopId!), job);
+          // Refs are derived from the photos, so they carry the photos' edit times
+          const imageTime = (field: keyof Job) => job.fieldUpdatedAt?.[field] ?? job.updatedAt ?? job.createdAt;
+          source = {
+            ...job,
+            ...refs,
+            fieldUpdatedAt: { ...job.fieldUpdatedAt, intakeImageRef: imageTime('intakeImage'), damageImageRefs: imageTime('damageImages') }
+          };
+        } catch (e) {
+          // The job stays pending and is retried on the next sync; uploaded photos are not sent again
+          console.error(`No se pudieron subir las fotos del trabajo ${job.id}`, e);
+          failedJobs[job.id] = `No se pudieron subir las fotos: ${describeError(e)}`;
+          done += 2;
+          reportSyncProgress({ done, total: pending.length * 2 });
+          continue;
+        }
+        await yieldToUi();
+      }
+
+      const changes: Record<string, unknown> = {
+        id: job.id,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt ?? job.createdAt,
+        revision: job.revision ?? 0,
+        schemaVersion: JOB_SCHEMA_VERSION
+      };
+      const fieldUpdatedAt: Record<string, number> = {};
+      const removed: string[] = [];
+      const sentFields = imagesChanged ? [...fields.filter(f => !IMAGE_FIELDS.includes(f)), ...IMAGE_FIELDS] : fields;
+      sentFields.forEach(field => {
+        if (field === 'intakeImage' || field === 'damageImages' || source[field] === undefined) removed.push(field);
+        else changes[field] = source[field];
+        if (source.fieldUpdatedAt?.[field] !== undefined) fieldUpdatedAt[field] = source.fieldUpdatedAt[field]!;
       });
-    } else {
-      // New local job not yet in cloud
-      jobMap.set(lJob.id, lJob);
+      if (Object.keys(fieldUpdatedAt).length > 0) changes.fieldUpdatedAt = fieldUpdatedAt;
+
+      // SANITIZE: Remove undefined values because Firestore throws error "Unsupported field value: undefined"
+      const cleanData = JSON.parse(JSON.stringify(changes));
+      removed.forEach(field => { cleanData[field] = deleteField(); });
+      cleanData[SERVER_UPDATED_AT] = serverTimestamp();
+      prepared.push({ job: source, data: cleanData });
+      reportSyncProgress({ done: ++done, total: pending.length * 2 });
     }
-  });
 
-  const mergedJobs = Array.from(jobMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+    // merge: true also merges the fieldUpdatedAt map key by key, so fields edited elsewhere are kept
+    const failedWrites = await writeInBatches(
+      database,
+      prepared,
+      (batch, { job, data }) => batch.set(doc(database, jobsPath, job.id), data, { merge: true }),
+      ({ job }) => job.id,
+      count => reportSyncProgress({ done: done += count, total: pending.length * 2 })
+    );
+    prepared.forEach(({ job }) => {
+      if (failedWrites[job.id]) failedJobs[job.id] = `No se pudo guardar en la nube: ${failedWrites[job.id]}`;
+      else jobMap.set(job.id, markJobSynced(job));
+    });
+  } finally {
+    pending.forEach(job => jobsInFlight.delete(job.id));
+    if (pending.length > 0) reportSyncProgress(null);
+  }
+
+  await saveSyncCursor(cursorKey, nextCursor);
+  return { jobs: Array.from(jobMap.values()).sort((a, b) => b.createdAt - a.createdAt), failedJobs };
+};
+
+// Live updates: jobs written by other devices after the last sync, as they happen.
+// Returns the unsubscribe function. The sync cursor is left alone, the next sync pulls them again and merges as a no-op.
+export const subscribeToJobChanges = (settings: AppSettings, onJobs: (jobs: Job[]) => void, onError: (error: Error) => void): (() => void) => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) return () => {};
+
+  const database = getDb(settings.firebaseConfig);
+  const jobsPath = workshopPath(settings.workshopId, COLLECTION_NAME);
+  const cursorKey = `${settings.firebaseConfig.projectId}/${jobsPath}`;
+  let unsubscribe: (() => void) | undefined;
+  let cancelled = false;
+
+  loadSyncCursor(cursorKey).then(cursor => {
+    if (cancelled) return;
+    const changed = query(collection(database, jobsPath), where(SERVER_UPDATED_AT, '>', Timestamp.fromMillis(cursor)));
+    unsubscribe = onSnapshot(changed, snapshot => {
+      const rawDocs = snapshot.docChanges()
+        // Our own writes are echoed before the server confirms them, they are already applied locally
+        .filter(change => change.type !== 'removed' && !change.doc.metadata.hasPendingWrites)
+        .map(change => readJobDoc(change.doc.data()).data);
+      if (rawDocs.length > 0) onJobs(upgradeJobs(rawDocs, 'firebase'));
+    }, onError);
+  }).catch(onError);
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
+};
+
+// Permanent removal of purged jobs. Other devices drop their copies when the same jobs expire in their trash.
+export const deleteJobsFromFirebase = async (jobIds: string[], settings: AppSettings): Promise<void> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey || jobIds.length === 0) return;
+  const database = getDb(settings.firebaseConfig);
+  const jobsPath = workshopPath(settings.workshopId, COLLECTION_NAME);
+  const failed = await writeInBatches(database, jobIds, (batch, id) => batch.delete(doc(database, jobsPath, id)), id => id);
+  if (Object.keys(failed).length > 0) throw new Error(`No se pudieron borrar ${Object.keys(failed).length} trabajos de la nube.`);
+};
+
+// Full photos of a job pulled from another device, which only holds their thumbnails until it is opened
+export const downloadJobImagesFromFirebase = async (job: Job, settings: AppSettings): Promise<Job> => {
+  if (!hasPendingDownloads(job) || !settings.firebaseConfig || !settings.firebaseConfig.apiKey) return job;
+  return { ...job, ...(await downloadJobImages(firebaseImageStore(getCloudStorage(settings.firebaseConfig), settings.workshopId!), job)) };
+};
 
-  // 3. WRITE UPDATES TO CLOUD
-  // We prepare (compress) images before writing.
+// Lightweight read to check the configuration, without touching the sync cursor. Signed in, the user's own
+// profile is read, which the rules always allow; before that the read is rejected unless the rules are open.
+export const testFirebaseConnection = async (config: FirebaseConfig, uid?: string): Promise<void> => {
+  if (uid) await getDoc(doc(getDb(config), USERS_COLLECTION, uid));
+  else await getDocs(query(collection(getDb(config), WORKSHOPS_COLLECTION), limit(1)));
+};
+
+// --- WORKSHOPS ---
+// One document per location with its name and settings; its data lives in subcollections (see workshopPath).
+// Only members read a workshop (firestore.rules), so only administrators can list them all.
+
+export const listWorkshops = async (config: FirebaseConfig): Promise<Workshop[]> => {
+  const snapshot = await getDocs(collection(getDb(config), WORKSHOPS_COLLECTION));
+  return snapshot.docs.map(d => d.data() as Workshop).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The workshops a user works in: all of them for administrators, the ones in the profile for everyone else
+export const listUserWorkshops = async (config: FirebaseConfig, user: UserProfile): Promise<Workshop[]> => {
+  if (user.role === UserRole.ADMIN) return listWorkshops(config);
+  const database = getDb(config);
+  const snapshots = await Promise.all((user.workshopIds || []).map(id => getDoc(doc(database, WORKSHOPS_COLLECTION, id))));
+  return snapshots.filter(s => s.exists()).map(s => s.data() as Workshop).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveWorkshop = async (config: FirebaseConfig, workshop: Workshop): Promise<void> => {
+  await setDoc(doc(getDb(config), WORKSHOPS_COLLECTION, workshop.id), JSON.parse(JSON.stringify(workshop)));
+};
+
+export const renameWorkshop = async (config: FirebaseConfig, workshopId: string, name: string): Promise<void> => {
+  await updateDoc(doc(getDb(config), WORKSHOPS_COLLECTION, workshopId), { name });
+};
+
+// Settings are replaced as a whole so keys cleared on this device are cleared for everyone
+export const saveWorkshopSettings = async (config: FirebaseConfig, workshopId: string, settings: WorkshopSettings): Promise<void> => {
+  await updateDoc(doc(getDb(config), WORKSHOPS_COLLECTION, workshopId), { settings: JSON.parse(JSON.stringify(settings)) });
+};
+
+// Read-only snapshot of another workshop for the group report, nothing is stored locally
+export const fetchWorkshopActivity = async (config: FirebaseConfig, workshopId: string): Promise<{ jobs: Job[]; invoices: Invoice[] }> => {
+  const database = getDb(config);
+  const [jobDocs, invoiceDocs] = await Promise.all([
+    getDocs(collection(database, workshopPath(workshopId, COLLECTION_NAME))),
+    getDocs(collection(database, workshopPath(workshopId, INVOICES_COLLECTION)))
+  ]);
+  return {
+    jobs: upgradeJobs(jobDocs.docs.map(d => readJobDoc(d.data()).data), 'firebase'),
+    invoices: invoiceDocs.docs.map(d => readDoc(d.data()).data as Invoice)
+  };
+};
+
+
+// --- USER PROFILES ---
+// One document per account, keyed by the Firebase Auth uid. firestore.rules reads the role from here.
+
+export const loadUserProfile = async (config: FirebaseConfig, uid: string): Promise<UserProfile | null> => {
+  const snapshot = await getDoc(doc(getDb(config), USERS_COLLECTION, uid));
+  return snapshot.exists() ? snapshot.data() as UserProfile : null;
+};
+
+export const listUserProfiles = async (config: FirebaseConfig): Promise<UserProfile[]> => {
+  const snapshot = await getDocs(collection(getDb(config), USERS_COLLECTION));
+  return snapshot.docs.map(d => d.data() as UserProfile).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveUserProfile = async (config: FirebaseConfig, profile: UserProfile): Promise<void> => {
+  await setDoc(doc(getDb(config), USERS_COLLECTION, profile.uid), JSON.parse(JSON.stringify(profile)));
+};
+
+export const updateUserProfile = async (config: FirebaseConfig, uid: string, changes: Partial<Pick<UserProfile, 'name' | 'role' | 'active' | 'workshopIds'>>): Promise<void> => {
+  await updateDoc(doc(getDb(config), USERS_COLLECTION, uid), changes);
+};
+
+// The first administrator registers themselves. The rules only accept it while meta/bootstrap does not exist,
+// and both documents are written in the same batch, so it works exactly once per project.
+export const bootstrapAdminProfile = async (config: FirebaseConfig, profile: UserProfile): Promise<void> => {
+  const database = getDb(config);
   const batch = writeBatch(database);
-  let opCount = 0;
-
-  // We need to handle async compression for the loop, so we can't use simple forEach inside batch logic easily without Promise.all
-  // Let's filter which jobs actually need saving (optimally), but for now we save all to ensure sync.
-  
-  // Limit: Firestore batch is 500 ops. We'll cap at 450 for safety.
-  const jobsToSave = mergedJobs.slice(0, 450); // Safety limit for this demo structure
-
-  for (const job of jobsToSave) {
-    const docRef = doc(database, COLLECTION_NAME, job.id);
-    
-    // Compress images before uploading
-    const dataToSave = await prepareJobForCloud(job);
-
-    // SANITIZE: Remove undefined values because Firestore throws error "Unsupported field value: undefined"
-    // JSON.stringify removes undefined keys, JSON.parse brings it back to object.
-    const cleanData = JSON.parse(JSON.stringify(dataToSave));
-
-    batch.set(docRef, cleanData, { merge: true });
-    opCount++;
+  batch.set(doc(database, USERS_COLLECTION, profile.uid), JSON.parse(JSON.stringify(profile)));
+  batch.set(doc(database, META_COLLECTION, 'bootstrap'), { adminUid: profile.uid, at: serverTimestamp() });
+  await batch.commit();
+};
+
+// Collection after a sync, with the records whose write failed (key -> error)
+export interface CollectionSync<T> {
+  items: T[];
+  failed: Record<string, string>;
+}
+
+// --- REGISTRY SYNC (customers, vehicles) ---
+// Registries are stored in their own collections and referenced from jobs,
+// so their data is never duplicated inside job documents.
+
+// Only the fields edited on this device are written (removed ones are deleted), the rest of the cloud copy
+// is left as it is. Records the cloud has never confirmed are written whole.
+const toRegistryUpdate = (record: RecordStamps): Record<string, unknown> => {
+  const { syncedAt, ...data } = JSON.parse(JSON.stringify(record));
+  if (record.syncedAt === undefined) return { ...data, [SERVER_UPDATED_AT]: serverTimestamp() };
+  const fields = getDirtyRecordFields(record);
+  const update: Record<string, unknown> = {
+    updatedAt: data.updatedAt,
+    fieldUpdatedAt: Object.fromEntries(fields.map(f => [f, record.fieldUpdatedAt![f]])),
+    [SERVER_UPDATED_AT]: serverTimestamp()
+  };
+  fields.forEach(f => { update[f] = f in data ? data[f] : deleteField(); });
+  return update;
+};
+
+const syncRegistryCollection = async <T extends RecordStamps>(
+  collectionName: string,
+  localItems: T[],
+  settings: AppSettings,
+  getKey: (item: T) => string,
+  canWrite: boolean
+): Promise<CollectionSync<T>> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
+    throw new Error("Configuración de Firebase incompleta.");
   }
 
-  if (opCount > 0) {
-    await batch.commit();
+  const database = getDb(settings.firebaseConfig);
+  const path = workshopPath(settings.workshopId, collectionName);
+  const { docs, cursorKey, nextCursor } = await pullChangedDocs(database, settings, path);
+
+  // Field by field, the latest edit wins (services/revisionService.ts). Records edited on this device since
+  // the last sync are pushed, and those the cloud has never confirmed, only by roles the rules let write
+  // this registry: the others just pull.
+  const itemMap = new Map<string, T>(mergeRemoteRecords(localItems, docs as T[], getKey).map(item => [getKey(item), item]));
+  const toUpload = canWrite ? Array.from(itemMap.values()).filter(item => isRecordDirty(item) || item.syncedAt === undefined) : [];
+
+  const failed = await writeInBatches(
+    database,
+    toUpload,
+    (batch, item) => batch.set(doc(database, path, getKey(item)), toRegistryUpdate(item), { merge: true }),
+    getKey
+  );
+  toUpload.forEach(item => {
+    if (!failed[getKey(item)]) itemMap.set(getKey(item), markRecordSynced(item));
+  });
+
+  await saveSyncCursor(cursorKey, nextCursor);
+  return { items: Array.from(itemMap.values()), failed };
+};
+
+export const syncCustomersWithFirebase = async (localCustomers: Customer[], settings: AppSettings, canWrite = true): Promise<CollectionSync<Customer>> => {
+  const merged = await syncRegistryCollection(CUSTOMERS_COLLECTION, localCustomers, settings, c => c.id, canWrite);
+  return { ...merged, items: merged.items.sort((a, b) => a.name.localeCompare(b.name)) };
+};
+
+// Vehicle documents are keyed by normalized plate, so two devices registering the same car converge
+export const syncVehiclesWithFirebase = async (localVehicles: Vehicle[], settings: AppSettings, canWrite = true): Promise<CollectionSync<Vehicle>> => {
+  return syncRegistryCollection(VEHICLES_COLLECTION, localVehicles, settings, v => v.plate, canWrite);
+};
+
+export const syncInsurersWithFirebase = async (localInsurers: Insurer[], settings: AppSettings, canWrite = true): Promise<CollectionSync<Insurer>> => {
+  const merged = await syncRegistryCollection(INSURERS_COLLECTION, localInsurers, settings, i => i.id, canWrite);
+  return { ...merged, items: merged.items.sort((a, b) => a.name.localeCompare(b.name)) };
+};
+
+export const syncTechniciansWithFirebase = async (localTechnicians: Technician[], settings: AppSettings, canWrite = true): Promise<CollectionSync<Technician>> => {
+  const merged = await syncRegistryCollection(TECHNICIANS_COLLECTION, localTechnicians, settings, t => t.id, canWrite);
+  return { ...merged, items: merged.items.sort((a, b) => a.name.localeCompare(b.name)) };
+};
+
+// --- INVOICES SYNC ---
+// Issued invoices are immutable: documents are only ever created, never overwritten. Each one is written
+// in a transaction with the chain head (workshops/{id}/meta/invoiceChain), and only if it continues it,
+// so two devices can never publish the same number or fork the hash chain.
+
+const invoiceChainRef = (database: Firestore, workshopId: string | undefined) => doc(database, workshopPath(workshopId, META_COLLECTION), 'invoiceChain');
+
+// Every invoice, only to compute the head of workshops that invoiced before the head document existed
+const readRemoteInvoices = async (database: Firestore, settings: AppSettings): Promise<Invoice[]> => {
+  const snapshot = await getDocs(collection(database, workshopPath(settings.workshopId, INVOICES_COLLECTION)));
+  return snapshot.docs.map(doc => readDoc(doc.data()).data as Invoice);
+};
+
+// Workshops that invoiced before the head document existed start from their last invoice
+export const getInvoiceChainHeadFromFirebase = async (settings: AppSettings): Promise<InvoiceChainHead> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
+    throw new Error("Configuración de Firebase incompleta.");
   }
+  const database = getDb(settings.firebaseConfig);
+  const head = await getDoc(invoiceChainRef(database, settings.workshopId));
+  return head.exists() ? head.data() as InvoiceChainHead : getChainHead(await readRemoteInvoices(database, settings));
+};
+
+// False when the invoice does not continue the chain (another device issued first): nothing is written
+export const appendInvoiceToFirebase = async (invoice: Invoice, settings: AppSettings): Promise<boolean> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
+    throw new Error("Configuración de Firebase incompleta.");
+  }
+  const database = getDb(settings.firebaseConfig);
+  const headRef = invoiceChainRef(database, settings.workshopId);
+  // Queries cannot run inside a transaction: the fallback head is read before, and the transaction
+  // fails and retries if another device creates the head document in between
+  const fallback = (await getDoc(headRef)).exists() ? undefined : getChainHead(await readRemoteInvoices(database, settings));
+
+  return runTransaction(database, async transaction => {
+    const snapshot = await transaction.get(headRef);
+    const head = snapshot.exists() ? snapshot.data() as InvoiceChainHead : fallback ?? getChainHead([]);
+    if (!continuesChain(head, invoice)) return false;
+    const { syncedAt, ...data } = invoice;
+    transaction.set(doc(database, workshopPath(settings.workshopId, INVOICES_COLLECTION), invoice.id), { ...JSON.parse(JSON.stringify(data)), [SERVER_UPDATED_AT]: serverTimestamp() });
+    transaction.set(headRef, advanceChainHead(head, invoice));
+    return true;
+  });
+};
+
+// Invoices issued on this device without the server (before sync was set up) are published in chain order
+// while they still continue the server's chain. Those that do not are reported, never published twice.
+export const syncInvoicesWithFirebase = async (localInvoices: Invoice[], settings: AppSettings, canWrite = true): Promise<CollectionSync<Invoice>> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
+    throw new Error("Configuración de Firebase incompleta.");
+  }
+
+  const database = getDb(settings.firebaseConfig);
+  const { docs, cursorKey, nextCursor } = await pullChangedDocs(database, settings, workshopPath(settings.workshopId, INVOICES_COLLECTION));
+  const now = Date.now();
+  const invoiceMap = new Map<string, Invoice>(localInvoices.map(invoice => [invoice.id, invoice]));
+  // The cloud copy is kept if both exist
+  docs.forEach(remote => invoiceMap.set(remote.id, { ...(remote as Invoice), syncedAt: now }));
+  const failed: Record<string, string> = {};
+
+  if (canWrite) {
+    for (const local of sortInvoiceChain(Array.from(invoiceMap.values()).filter(i => i.syncedAt === undefined))) {
+      try {
+        if (await appendInvoiceToFirebase(local, settings)) invoiceMap.set(local.id, { ...local, syncedAt: now });
+        else failed[local.id] = chainConflictMessage(local);
+      } catch (e) {
+        failed[local.id] = describeError(e);
+      }
+    }
+  }
+
+  await saveSyncCursor(cursorKey, nextCursor);
+  return { items: sortInvoiceChain(Array.from(invoiceMap.values())), failed };
+};
+
+// --- AUDIT LOG SYNC ---
+// Append-only: entries are uploaded once and never updated, so devices only ever add to the log.
+
+// Failures are keyed by job id, like the outbox groups audit entries
+export const syncAuditLogWithFirebase = async (localEntries: AuditEntry[], settings: AppSettings): Promise<CollectionSync<AuditEntry>> => {
+  if (!settings.firebaseConfig || !settings.firebaseConfig.apiKey) {
+    throw new Error("Configuración de Firebase incompleta.");
+  }
+
+  const database = getDb(settings.firebaseConfig);
+  const auditPath = workshopPath(settings.workshopId, AUDIT_COLLECTION);
+  const { docs, cursorKey, nextCursor } = await pullChangedDocs(database, settings, auditPath);
+  const now = Date.now();
+  const entryMap = new Map<string, AuditEntry>(localEntries.map(entry => [entry.id, entry]));
+  // The cloud copy is kept if both exist
+  docs.forEach(remote => entryMap.set(remote.id, { ...(remote as AuditEntry), syncedAt: now }));
+
+  // Only entries the cloud has never confirmed are sent
+  const toUpload = Array.from(entryMap.values()).filter(entry => entry.syncedAt === undefined);
+  const failed = await writeInBatches(
+    database,
+    toUpload,
+    (batch, { syncedAt, ...entry }) => batch.set(doc(database, auditPath, entry.id), { ...JSON.parse(JSON.stringify(entry)), [SERVER_UPDATED_AT]: serverTimestamp() }),
+    entry => entry.jobId
+  );
+  toUpload.forEach(entry => {
+    if (!failed[entry.jobId]) entryMap.set(entry.id, { ...entry, syncedAt: now });
+  });
+
+  await saveSyncCursor(cursorKey, nextCursor);
+  return { items: Array.from(entryMap.values()).sort((a, b) => a.at - b.at), failed };
+};
 
-  return mergedJobs;
+// --- FULL SYNC ---
+
+const prefixKeys = (collectionName: keyof AppData, failed: Record<string, string>): Record<string, string> => {
+  return Object.fromEntries(Object.entries(failed).map(([key, error]) => [`${collectionName}:${key}`, error]));
+};
+
+// Collections the signed-in role may not write (firestore.rules) are only pulled
+export const syncAllWithFirebase = async (data: AppData, settings: AppSettings, role?: UserRole): Promise<SyncResult> => {
+  const [jobSync, customers, vehicles, invoices, insurers, auditLog, technicians] = await Promise.all([
+    syncWithFirebase(data.jobs, settings),
+    syncCustomersWithFirebase(data.customers, settings, canUpload(role, 'customers')),
+    syncVehiclesWithFirebase(data.vehicles, settings, canUpload(role, 'vehicles')),
+    syncInvoicesWithFirebase(data.invoices, settings, canUpload(role, 'invoices')),
+    syncInsurersWithFirebase(data.insurers, settings, canUpload(role, 'insurers')),
+    syncAuditLogWithFirebase(data.auditLog, settings),
+    syncTechniciansWithFirebase(data.technicians, settings, canUpload(role, 'technicians'))
+  ]);
+  return {
+    data: {
+      jobs: jobSync.jobs,
+      customers: customers.items,
+      vehicles: vehicles.items,
+      invoices: invoices.items,
+      insurers: insurers.items,
+      auditLog: auditLog.items,
+      technicians: technicians.items
+    },
+    failed: {
+      ...prefixKeys('jobs', jobSync.failedJobs),
+      ...prefixKeys('customers', customers.failed),
+      ...prefixKeys('vehicles', vehicles.failed),
+      ...prefixKeys('invoices', invoices.failed),
+      ...prefixKeys('insurers', insurers.failed),
+      ...prefixKeys('auditLog', auditLog.failed),
+      ...prefixKeys('technicians', technicians.failed)
+    }
+  };
 };
@@ -0,0 +1,191 @@
+import { AppSettings, Customer, Estimate, FiscalParty, Invoice, InvoiceChainHead, InvoiceSeriesSettings, InvoiceType, Job } from '../types';
+import { calculateEstimateTotals, lineTotal } from './estimateService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Hash used as "previous" by the first invoice in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const DEFAULT_INVOICE_SERIES: InvoiceSeriesSettings = {
+  ordinaryPrefix: 'F',
+  rectifyingPrefix: 'R'
+};
+
+// Series are per prefix and year, numbering restarts every January
+export const getSeriesCode = (type: InvoiceType, settings: AppSettings, date: Date = new Date()): string => {
+  const series = { ...DEFAULT_INVOICE_SERIES, ...(settings.invoiceSeries || {}) };
+  const prefix = type === InvoiceType.RECTIFYING ? series.rectifyingPrefix : series.ordinaryPrefix;
+  return `${prefix}${date.getFullYear()}`;
+};
+
+export const getNextInvoiceNumber = (head: InvoiceChainHead, series: string): number => {
+  return (head.lastNumbers[series] ?? 0) + 1;
+};
+
+export const formatInvoiceNumber = (series: string, number: number): string => {
+  return `${series}-${number.toString().padStart(4, '0')}`;
+};
+
+// Invoices in chain order (issue time, then number as tie-breaker)
+export const sortInvoiceChain = (invoices: Invoice[]): Invoice[] => {
+  return invoices.slice().sort((a, b) => a.issuedAt - b.issuedAt || a.number - b.number);
+};
+
+// --- CHAIN HEAD ---
+// Each invoice takes the next number of its series and the hash of the last invoice. With a sync backend
+// the head comes from the server and the invoice is only issued once the server accepts it as the next link
+// (services/syncBackendService.ts), so two devices never issue the same number. Otherwise it is this device's.
+
+export const getChainHead = (invoices: Invoice[]): InvoiceChainHead => {
+  const chain = sortInvoiceChain(invoices);
+  const last = chain[chain.length - 1];
+  const lastNumbers: Record<string, number> = {};
+  chain.forEach(i => { lastNumbers[i.series] = Math.max(lastNumbers[i.series] ?? 0, i.number); });
+  return { hash: last?.hash ?? GENESIS_HASH, lastNumbers, lastIssuedAt: last?.issuedAt ?? 0 };
+};
+
+export const continuesChain = (head: InvoiceChainHead, invoice: Invoice): boolean => {
+  return invoice.previousHash === head.hash
+    && invoice.number === getNextInvoiceNumber(head, invoice.series)
+    && invoice.issuedAt > head.lastIssuedAt;
+};
+
+export const advanceChainHead = (head: InvoiceChainHead, invoice: Invoice): InvoiceChainHead => ({
+  hash: invoice.hash,
+  lastNumbers: { ...head.lastNumbers, [invoice.series]: invoice.number },
+  lastIssuedAt: invoice.issuedAt,
+  lastInvoiceId: invoice.id
+});
+
+// Shown for an invoice issued on this device that the server's chain no longer has room for
+export const chainConflictMessage = (invoice: Invoice): string => {
+  return `La factura ${invoice.fullNumber} no se ha publicado: otro equipo ya emitió ese número o facturas posteriores. Revísala con tu gestoría.`;
+};
+
+export const customerToFiscalParty = (customer?: Customer): FiscalParty | null => {
+  if (!customer || !customer.name.trim() || !customer.nif?.trim()) return null;
+  return { name: customer.name, nif: customer.nif, address: customer.address };
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Canonical, field-ordered representation of everything that must not change after issue
+const canonicalPayload = (invoice: Omit<Invoice, 'hash'>): string => {
+  return JSON.stringify([
+    invoice.issuer.nif,
+    invoice.fullNumber,
+    invoice.type,
+    new Date(invoice.issuedAt).toISOString(),
+    invoice.customer.nif,
+    invoice.customer.name,
+    invoice.lines.map(l => [l.description, l.quantity, l.unitPrice, l.discount || 0]),
+    invoice.base.toFixed(2),
+    invoice.iva.toFixed(2),
+    invoice.total.toFixed(2),
+    invoice.rectifiesInvoiceId || '',
+    invoice.previousHash
+  ]);
+};
+
+export const computeInvoiceHash = async (invoice: Omit<Invoice, 'hash'>): Promise<string> => {
+  const data = new TextEncoder().encode(canonicalPayload(invoice));
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+interface IssueParams {
+  job: Job;
+  issuer: FiscalParty;
+  customer: FiscalParty;
+  head: InvoiceChainHead; // Where the chain stands (numbering and chaining)
+  settings: AppSettings;
+}
+
+const sealInvoice = async (draft: Omit<Invoice, 'hash' | 'previousHash'>, head: InvoiceChainHead): Promise<Invoice> => {
+  const unsealed = { ...draft, previousHash: head.hash };
+  return { ...unsealed, hash: await computeInvoiceHash(unsealed) };
+};
+
+const nextIssueTime = (head: InvoiceChainHead): number => Math.max(Date.now(), head.lastIssuedAt + 1);
+
+export const issueInvoice = async (estimate: Estimate, params: IssueParams): Promise<Invoice> => {
+  const issuedAt = nextIssueTime(params.head);
+  const series = getSeriesCode(InvoiceType.ORDINARY, params.settings, new Date(issuedAt));
+  const number = getNextInvoiceNumber(params.head, series);
+  const totals = calculateEstimateTotals(estimate);
+
+  return sealInvoice({
+    id: uuidv4(),
+    series,
+    number,
+    fullNumber: formatInvoiceNumber(series, number),
+    type: InvoiceType.ORDINARY,
+    issuedAt,
+    jobId: params.job.id,
+    estimateId: estimate.id,
+    issuer: params.issuer,
+    customer: params.customer,
+    lines: estimate.lines.map(l => ({ ...l })),
+    base: totals.base,
+    ivaRate: estimate.ivaRate,
+    iva: totals.iva,
+    total: totals.total
+  }, params.head);
+};
+
+// Full rectification (anulación): same lines with negative quantities
+export const issueRectifyingInvoice = async (original: Invoice, reason: string, params: Omit<IssueParams, 'job' | 'customer'>): Promise<Invoice> => {
+  const issuedAt = nextIssueTime(params.head);
+  const series = getSeriesCode(InvoiceType.RECTIFYING, params.settings, new Date(issuedAt));
+  const number = getNextInvoiceNumber(params.head, series);
+  const lines = original.lines.map(l => ({ ...l, id: uuidv4(), quantity: -l.quantity }));
+  const base = Math.round(lines.reduce((sum, l) => sum + lineTotal(l), 0) * 100) / 100;
+  const iva = Math.round(base * original.ivaRate * 100) / 100;
+
+  return sealInvoice({
+    id: uuidv4(),
+    series,
+    number,
+    fullNumber: formatInvoiceNumber(series, number),
+    type: InvoiceType.RECTIFYING,
+    issuedAt,
+    jobId: original.jobId,
+    estimateId: original.estimateId,
+    issuer: params.issuer,
+    customer: original.customer,
+    lines,
+    base,
+    ivaRate: original.ivaRate,
+    iva,
+    total: Math.round((base + iva) * 100) / 100,
+    rectifiesInvoiceId: original.id,
+    rectifiesInvoiceNumber: original.fullNumber,
+    rectificationReason: reason
+  }, params.head);
+};
+
+export interface ChainVerification {
+  valid: boolean;
+  brokenAt?: string; // fullNumber of the first invoice that does not verify
+}
+
+// Recompute every hash and check each invoice points at its predecessor
+export const verifyInvoiceChain = async (invoices: Invoice[]): Promise<ChainVerification> => {
+  let previousHash = GENESIS_HASH;
+  for (const invoice of sortInvoiceChain(invoices)) {
+    const { hash, ...rest } = invoice;
+    if (invoice.previousHash !== previousHash || await computeInvoiceHash(rest) !== hash) {
+      return { valid: false, brokenAt: invoice.fullNumber };
+    }
+    previousHash = hash;
+  }
+  return { valid: true };
+};
+
+export const getJobInvoices = (invoices: Invoice[], jobId: string): Invoice[] => {
+  return sortInvoiceChain(invoices.filter(i => i.jobId === jobId));
+};
+
+export const isRectified = (invoice: Invoice, invoices: Invoice[]): boolean => {
+  return invoices.some(i => i.rectifiesInvoiceId === invoice.id);
+};
@@ -0,0 +1,60 @@
+import { AssistantReply, CarDetails, DamageAnalysisResult, PartPosition, DamageType, DamageSeverity, RepairAction } from "../types";
+
+// --- MOCK AI ---
+// Fixed answers for development, demos and tests, with no network. The fixture is picked from the photo's
+// content, so the same photo always gets the same answer and different photos usually get different ones.
+
+const CAR_FIXTURES: CarDetails[] = [
+  { plate: '1234 BCD', make: 'Seat', model: 'León', color: 'Gris' },
+  { plate: '5678 FGH', make: 'Renault', model: 'Clio', color: 'Blanco' },
+  { plate: '9012 JKL', make: 'Volkswagen', model: 'Golf', color: 'Azul' }
+];
+
+const DAMAGE_FIXTURES: DamageAnalysisResult[] = [
+  {
+    detectedParts: [
+      { name: 'Parachoques', position: PartPosition.REAR, damageType: DamageType.SCRATCH, severity: DamageSeverity.LOW, action: RepairAction.PAINT, confidence: 0.92, description: 'Arañazos superficiales en la esquina' },
+      { name: 'Aleta', position: PartPosition.REAR_LEFT, damageType: DamageType.DENT, severity: DamageSeverity.MEDIUM, action: RepairAction.REPAIR, confidence: 0.78, description: 'Abolladura sobre el paso de rueda' }
+    ],
+    assessment: 'Golpe leve en la zona trasera izquierda.'
+  },
+  {
+    detectedParts: [
+      { name: 'Faro', position: PartPosition.FRONT_RIGHT, damageType: DamageType.BREAK, severity: DamageSeverity.HIGH, action: RepairAction.REPLACE, confidence: 0.88, description: 'Óptica rota' },
+      { name: 'Capó', position: PartPosition.FRONT, damageType: DamageType.DEFORMATION, severity: DamageSeverity.MEDIUM, action: RepairAction.REPAIR, confidence: 0.7, description: 'Deformación en el borde delantero' }
+    ],
+    assessment: 'Impacto frontal derecho con rotura de óptica.'
+  },
+  {
+    detectedParts: [
+      { name: 'Puerta', position: PartPosition.LEFT, damageType: DamageType.CHIP, severity: DamageSeverity.LOW, action: RepairAction.PAINT, confidence: 0.65, description: 'Desconchados en la parte baja' }
+    ],
+    assessment: 'Daños de pintura sin deformación.'
+  }
+];
+
+// Cheap deterministic hash (djb2) of the photo
+const fixtureIndex = (base64Image: string, count: number): number => {
+  let hash = 5381;
+  for (let i = 0; i < base64Image.length; i++) hash = ((hash * 33) ^ base64Image.charCodeAt(i)) >>> 0;
+  return hash % count;
+};
+
+export const identifyCarWithMock = async (base64Image: string): Promise<CarDetails> => {
+  return { ...CAR_FIXTURES[fixtureIndex(base64Image, CAR_FIXTURES.length)] };
+};
+
+export const analyzeDamageWithMock = async (base64Image: string): Promise<DamageAnalysisResult> => {
+  const fixture = DAMAGE_FIXTURES[fixtureIndex(base64Image, DAMAGE_FIXTURES.length)];
+  return { ...fixture, detectedParts: fixture.detectedParts.map(p => ({ ...p })) };
+};
+
+export const chatWithMock = async (message: string, useSearch: boolean): Promise<AssistantReply> => {
+  const text = /pintura|color/i.test(message)
+    ? 'El código de pintura suele estar en la placa del fabricante, en el marco de la puerta del conductor o bajo el capó. (Respuesta de prueba)'
+    : `Respuesta de prueba a: "${message.slice(0, 80)}".`;
+  return {
+    text,
+    sources: useSearch ? [{ uri: 'https://example.com/taller', title: 'Fuente de prueba' }] : []
+  };
+};
@@ -0,0 +1,130 @@
+import { AppSettings, AssistantReply, CarDetails, DamageAnalysisResult, OpenAiCompatibleConfig, PartPosition, DamageType, DamageSeverity, RepairAction } from "../types";
+
+// --- OPENAI-COMPATIBLE MODELS ---
+// Chat completions API as served by OpenAI and by local model servers (Ollama, llama.cpp, LM Studio, vLLM).
+// Photos are sent as data URLs and answers are requested as JSON matching a schema; servers that ignore
+// the schema still get it spelled out in the prompt. Same prompts as the Gemini ones in server/gemini.js.
+
+const SYSTEM_PROMPT = "Eres un asistente útil para un Taller de Chapa y Pintura en España. Ayudas a encontrar códigos de pintura, procedimientos de reparación y recambios. Responde siempre en Español.";
+
+const CAR_SCHEMA = {
+  type: 'object',
+  properties: {
+    plate: { type: 'string', description: "Número de matrícula" },
+    make: { type: 'string', description: "Marca del fabricante" },
+    model: { type: 'string', description: "Modelo del coche" },
+    color: { type: 'string', description: "Color del coche en Español" }
+  },
+  required: ['plate', 'make', 'model']
+};
+
+const DAMAGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    detectedParts: {
+      type: 'array',
+      description: "Lista de piezas dañadas en Español",
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: "Nombre de la pieza" },
+          position: { type: 'string', enum: Object.values(PartPosition), description: "Posición en el vehículo" },
+          damageType: { type: 'string', enum: Object.values(DamageType), description: "Tipo de daño" },
+          severity: { type: 'string', enum: Object.values(DamageSeverity), description: "Gravedad del daño" },
+          action: { type: 'string', enum: Object.values(RepairAction), description: "Intervención recomendada" },
+          confidence: { type: 'number', description: "Confianza de la detección entre 0 y 1" },
+          description: { type: 'string', description: "Breve descripción del daño en Español" }
+        },
+        required: ['name']
+      }
+    },
+    assessment: { type: 'string', description: "Breve evaluación técnica del daño (abolladura, arañazo, rotura) en Español" }
+  },
+  required: ['detectedParts']
+};
+
+const getConfig = (settings: AppSettings): OpenAiCompatibleConfig => {
+  const config = settings.openAiCompatible;
+  if (!config?.url || !config.model) {
+    throw new Error("Configura la dirección y el modelo del servidor de IA (Configuración > Inteligencia artificial)");
+  }
+  return config;
+};
+
+const complete = async (config: OpenAiCompatibleConfig, body: object): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${config.url.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}) },
+      body: JSON.stringify({ model: config.model, ...body })
+    });
+  } catch (error: any) {
+    throw new Error(`No se pudo conectar con el servidor de IA (${config.url}): ${error.message}`);
+  }
+  const result = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(result?.error?.message || `El servidor de IA respondió ${response.status}`);
+  const content = result?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string' || !content) throw new Error("El servidor de IA no devolvió respuesta");
+  return content;
+};
+
+// Helper to clean LLM response that might be wrapped in markdown
+const cleanAndParseJSON = (text: string) => {
+  try {
+    return JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch (error) {
+    console.error("Failed to parse JSON from the AI server:", text);
+    throw new Error(`La respuesta de la IA no tiene un formato válido: ${text.substring(0, 50)}...`);
+  }
+};
+
+const analyzeImage = async (settings: AppSettings, base64Image: string, prompt: string, name: string, schema: object) => {
+  const content = await complete(getConfig(settings), {
+    temperature: 0,
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: `${prompt}\nResponde solo con un objeto JSON que siga este esquema: ${JSON.stringify(schema)}` },
+        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64Image}` } }
+      ]
+    }],
+    response_format: { type: 'json_schema', json_schema: { name, schema } }
+  });
+  return cleanAndParseJSON(content);
+};
+
+export const identifyCarWithOpenAi = (base64Image: string, settings: AppSettings): Promise<CarDetails> => {
+  return analyzeImage(settings, base64Image, `
+    Analiza esta imagen de la parte trasera de un coche.
+    1. Extrae la matrícula exactamente como aparece.
+    2. Identifica la Marca y el Modelo del vehículo.
+    3. Identifica el color principal.
+
+    IMPORTANTE: Responde SIEMPRE en ESPAÑOL (ej: "Rojo", "Azul", "Gris").
+  `, 'car', CAR_SCHEMA);
+};
+
+export const analyzeDamageWithOpenAi = (base64Image: string, settings: AppSettings): Promise<DamageAnalysisResult> => {
+  return analyzeImage(settings, base64Image, `
+    Eres un experto chapista y perito de taller mecánico en España. Analiza esta imagen de un vehículo dañado.
+    Lista las piezas específicas de la carrocería que parecen estar dañadas.
+    Para cada pieza indica su posición en el vehículo, el tipo de daño, la gravedad,
+    la intervención recomendada y tu confianza (0 a 1) en la detección.
+
+    IMPORTANTE:
+    1. Usa terminología técnica en ESPAÑOL de España (ej: "Parachoques", "Aleta", "Capó", "Faro", "Puerta", "Retrovisor").
+    2. Sé preciso.
+  `, 'damage', DAMAGE_SCHEMA);
+};
+
+// No web search here: the answer comes from the model alone
+export const chatWithOpenAi = async (message: string, _useSearch: boolean, settings: AppSettings): Promise<AssistantReply> => {
+  const text = await complete(getConfig(settings), {
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: message }
+    ]
+  });
+  return { text, sources: [] };
+};
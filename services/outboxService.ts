@@ -0,0 +1,80 @@
+import { AppData, Job, OutboxEntry } from '../types';
+import { isJobDirty } from './revisionService';
+
+// --- OUTBOX ---
+// Every change is saved locally first; the outbox tracks which records still have to reach the cloud,
+// how many uploads failed and why. Failed syncs are retried with exponential backoff,
+// and right away when the connection comes back.
+
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export type JobSyncState = 'pending' | 'synced' | 'failed';
+
+interface DescribedRecord {
+  recordId: string;
+  label: string;
+}
+
+const DESCRIBE: { [K in keyof AppData]: (record: AppData[K][number]) => DescribedRecord } = {
+  jobs: job => ({ recordId: job.id, label: job.carDetails?.plate || 'Trabajo sin matrícula' }),
+  customers: customer => ({ recordId: customer.id, label: customer.name }),
+  vehicles: vehicle => ({ recordId: vehicle.plate, label: vehicle.plate }),
+  invoices: invoice => ({ recordId: invoice.id, label: invoice.fullNumber }),
+  insurers: insurer => ({ recordId: insurer.id, label: insurer.name }),
+  // One entry per job, however many changes were logged
+  auditLog: entry => ({ recordId: entry.jobId, label: 'Registro de cambios' }),
+  technicians: technician => ({ recordId: technician.id, label: technician.name })
+};
+
+// Queues the records in `changes` that are new or different objects from the ones in `current`
+export const queueChanges = (outbox: OutboxEntry[], current: AppData, changes: Partial<AppData>, now: number = Date.now()): OutboxEntry[] => {
+  const entries = new Map(outbox.map(entry => [entry.id, entry]));
+  (Object.keys(changes) as (keyof AppData)[]).forEach(collection => {
+    const describe = DESCRIBE[collection] as (record: unknown) => DescribedRecord;
+    const unchanged = new Set<unknown>(current[collection]);
+    (changes[collection] as unknown[]).forEach(record => {
+      if (unchanged.has(record)) return;
+      const { recordId, label } = describe(record);
+      const id = `${collection}:${recordId}`;
+      const existing = entries.get(id);
+      entries.set(id, existing ? { ...existing, label } : { id, collection, recordId, label, queuedAt: now, attempts: 0 });
+    });
+  });
+  return Array.from(entries.values());
+};
+
+// After a sync everything was uploaded except the records whose write failed and the jobs still carrying
+// local edits (e.g. photos that failed to upload). Those stay, with the reason if there was one.
+export const settleOutbox = (outbox: OutboxEntry[], jobs: Job[], failed: Record<string, string>, now: number = Date.now()): OutboxEntry[] => {
+  const existing = new Map(outbox.map(entry => [entry.id, entry]));
+  const remaining = new Map<string, OutboxEntry>();
+  jobs.filter(isJobDirty).forEach(job => {
+    const id = `jobs:${job.id}`;
+    remaining.set(id, existing.get(id) || { id, collection: 'jobs', recordId: job.id, label: DESCRIBE.jobs(job).label, queuedAt: now, attempts: 0 });
+  });
+  outbox.forEach(entry => { if (failed[entry.id]) remaining.set(entry.id, entry); });
+
+  return Array.from(remaining.values()).map(entry => {
+    const error = failed[entry.id];
+    return error ? { ...entry, attempts: entry.attempts + 1, lastAttemptAt: now, lastError: error } : entry;
+  });
+};
+
+export const recordSyncFailure = (outbox: OutboxEntry[], error: string, now: number = Date.now()): OutboxEntry[] => {
+  return outbox.map(entry => ({ ...entry, attempts: entry.attempts + 1, lastAttemptAt: now, lastError: error }));
+};
+
+// 5 s, 10 s, 20 s... up to 5 minutes between attempts
+export const getRetryDelay = (failures: number): number => {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(0, failures - 1), MAX_RETRY_MS);
+};
+
+export const getJobSyncStates = (jobs: Job[], outbox: OutboxEntry[]): Record<string, JobSyncState> => {
+  const entries = new Map(outbox.filter(entry => entry.collection === 'jobs').map(entry => [entry.recordId, entry]));
+  return Object.fromEntries(jobs.map(job => {
+    const entry = entries.get(job.id);
+    const state: JobSyncState = entry?.lastError ? 'failed' : entry || isJobDirty(job) ? 'pending' : 'synced';
+    return [job.id, state];
+  }));
+};
@@ -1,8 +1,22 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { Job } from '../types';
+import { Customer, Estimate, Insurer, Invoice, InvoiceType, Job, WorkshopBranding } from '../types';
+import { formatPart } from './damageService';
+import { calculateEstimateTotals, lineTotal, formatCurrency } from './estimateService';
 
-export const generateJobPDF = (job: Job) => {
+// Workshop name and contact at the top left, or the app name when the workshop has no branding
+const drawBrandHeader = (doc: jsPDF, branding: WorkshopBranding | undefined, margin: number, yPos: number) => {
+  doc.setFontSize(22);
+  doc.setTextColor(40, 40, 40);
+  doc.text(branding?.displayName || "TallerPro AI", margin, yPos);
+  if (branding?.contact) {
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(branding.contact, margin, yPos + 11);
+  }
+};
+
+export const generateJobPDF = (job: Job, customer?: Customer, insurer?: Insurer, branding?: WorkshopBranding) => {
   const doc = new jsPDF();
 
   // --- Config ---
@@ -11,10 +25,8 @@ export const generateJobPDF = (job: Job) => {
   const pageWidth = doc.internal.pageSize.width;
 
   // --- Header ---
-  doc.setFontSize(22);
-  doc.setTextColor(40, 40, 40);
-  doc.text("TallerPro AI", margin, yPos);
-  
+  drawBrandHeader(doc, branding, margin, yPos);
+
   doc.setFontSize(10);
   doc.setTextColor(100, 100, 100);
   doc.text("Informe de Reparación / Parte de Trabajo", margin, yPos + 6);
@@ -44,7 +56,55 @@ export const generateJobPDF = (job: Job) => {
   });
 
   // @ts-ignore
-  yPos = doc.lastAutoTable.finalY + 15;
+  yPos = doc.lastAutoTable.finalY + 10;
+
+  // --- Customer Info Table ---
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Cliente', 'NIF / DNI', 'Teléfono', 'Email']],
+    body: [[
+      customer?.name || 'Sin cliente asignado',
+      customer?.nif || '-',
+      customer?.phone || '-',
+      customer?.email || '-'
+    ]],
+    theme: 'grid',
+    headStyles: { fillColor: [52, 73, 94] },
+    styles: { fontSize: 10, cellPadding: 3 }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + (customer?.address ? 6 : 15);
+
+  if (customer?.address) {
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Dirección: ${customer.address}`, margin, yPos);
+    yPos += 9;
+  }
+
+  // --- Insurance Claim Table ---
+  if (job.claim) {
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Aseguradora', 'Póliza', 'Nº Siniestro', 'Perito', 'Peritación', 'Estado', 'Franquicia']],
+      body: [[
+        insurer?.name || '-',
+        job.claim.policyNumber || '-',
+        job.claim.claimNumber || '-',
+        job.claim.peritoName || '-',
+        job.claim.inspectionDate ? job.claim.inspectionDate.split('-').reverse().join('/') : '-',
+        job.claim.status,
+        job.claim.franchise !== undefined ? formatCurrency(job.claim.franchise) : '-'
+      ]],
+      theme: 'grid',
+      headStyles: { fillColor: [142, 68, 173] },
+      styles: { fontSize: 9, cellPadding: 3 }
+    });
+
+    // @ts-ignore
+    yPos = doc.lastAutoTable.finalY + 15;
+  }
 
   // --- Intake Image (Thumbnail) ---
   // Adding images to PDF increases size, we add a small intake thumb if exists
@@ -67,15 +127,21 @@ export const generateJobPDF = (job: Job) => {
   doc.text("Detalle de Daños Detectados", margin, yPos);
   yPos += 5;
 
-  const partsData = job.identifiedParts.map(part => [part, "Reparar / Pintar"]);
+  const partsData = job.identifiedParts.map(part => [
+    formatPart(part),
+    part.damageType || '-',
+    part.severity || '-',
+    part.action || '-',
+    part.imageIndex !== undefined ? `Foto ${part.imageIndex + 1}` : '-'
+  ]);
   
   if (partsData.length === 0) {
-      partsData.push(["Sin daños específicos registrados", "-"]);
+      partsData.push(["Sin daños específicos registrados", "-", "-", "-", "-"]);
   }
 
   autoTable(doc, {
     startY: yPos,
-    head: [['Pieza / Zona', 'Intervención']],
+    head: [['Pieza / Zona', 'Daño', 'Gravedad', 'Intervención', 'Foto']],
     body: partsData,
     theme: 'striped',
     headStyles: { fillColor: [231, 76, 60] }, // Red header for damages
@@ -165,4 +231,202 @@ export const generateJobPDF = (job: Job) => {
   // Save
   const fileName = `Parte_${job.carDetails?.plate || 'SinMatricula'}_${new Date().getTime()}.pdf`;
   doc.save(fileName);
-};
\ No newline at end of file
+};
+// Presupuesto PDF, exported separately from the parte de trabajo
+export const generateEstimatePDF = (job: Job, estimate: Estimate, customer?: Customer, branding?: WorkshopBranding) => {
+  const doc = new jsPDF();
+
+  const margin = 15;
+  let yPos = 20;
+
+  // --- Header ---
+  drawBrandHeader(doc, branding, margin, yPos);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Presupuesto de Reparación - Versión ${estimate.version}`, margin, yPos + 6);
+
+  doc.setFontSize(12);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`Estado: ${estimate.status.toUpperCase()}`, 150, yPos);
+  doc.text(`Fecha: ${new Date(estimate.createdAt).toLocaleDateString()}`, 150, yPos + 6);
+
+  yPos += 20;
+
+  // --- Customer & Vehicle ---
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Cliente', 'NIF / DNI', 'Matrícula', 'Vehículo']],
+    body: [[
+      customer?.name || '-',
+      customer?.nif || '-',
+      job.carDetails?.plate || '-',
+      `${job.carDetails?.make || ''} ${job.carDetails?.model || ''}`.trim() || '-'
+    ]],
+    theme: 'grid',
+    headStyles: { fillColor: [41, 128, 185] },
+    styles: { fontSize: 10, cellPadding: 3 }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + 10;
+
+  // --- Lines ---
+  const linesData = estimate.lines.map(l => [
+    l.type,
+    l.description,
+    l.quantity.toString(),
+    formatCurrency(l.unitPrice),
+    l.discount ? `${l.discount}%` : '-',
+    formatCurrency(lineTotal(l))
+  ]);
+
+  if (linesData.length === 0) {
+    linesData.push(["-", "Sin líneas", "-", "-", "-", "-"]);
+  }
+
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Tipo', 'Concepto', 'Cant./h', 'Precio', 'Dto', 'Importe']],
+    body: linesData,
+    theme: 'striped',
+    headStyles: { fillColor: [52, 73, 94] },
+    styles: { fontSize: 9 },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + 10;
+
+  // --- Totals ---
+  const totals = calculateEstimateTotals(estimate);
+  autoTable(doc, {
+    startY: yPos,
+    margin: { left: 110 },
+    body: [
+      ['Base imponible', formatCurrency(totals.base)],
+      [`IVA (${Math.round(estimate.ivaRate * 100)}%)`, formatCurrency(totals.iva)],
+      ['TOTAL', formatCurrency(totals.total)]
+    ],
+    theme: 'plain',
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + 10;
+
+  if (estimate.notes) {
+    doc.setFontSize(9);
+    doc.setTextColor(60, 60, 60);
+    doc.text(doc.splitTextToSize(estimate.notes, 180), margin, yPos);
+  }
+
+  // --- Acceptance ---
+  const pageHeight = doc.internal.pageSize.height;
+  const signatureY = pageHeight - 40;
+  doc.setDrawColor(150);
+  doc.line(120, signatureY, 190, signatureY);
+  doc.setFontSize(8);
+  doc.setTextColor(100, 100, 100);
+  doc.text("Conforme del Cliente", 120, signatureY + 5);
+  doc.text(`Generado por TallerPro AI - ${new Date().toLocaleTimeString()}`, margin, pageHeight - 10);
+
+  const fileName = `Presupuesto_${job.carDetails?.plate || 'SinMatricula'}_v${estimate.version}.pdf`;
+  doc.save(fileName);
+};
+
+// Factura PDF, rendered only from the immutable invoice snapshot
+export const generateInvoicePDF = (invoice: Invoice, job?: Job) => {
+  const doc = new jsPDF();
+
+  const margin = 15;
+  let yPos = 20;
+
+  // --- Header ---
+  doc.setFontSize(20);
+  doc.setTextColor(40, 40, 40);
+  doc.text(invoice.type === InvoiceType.RECTIFYING ? "FACTURA RECTIFICATIVA" : "FACTURA", margin, yPos);
+
+  doc.setFontSize(12);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`Nº ${invoice.fullNumber}`, 150, yPos);
+  doc.text(`Fecha: ${new Date(invoice.issuedAt).toLocaleDateString()}`, 150, yPos + 6);
+
+  yPos += 15;
+
+  // --- Issuer & Customer ---
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Emisor', 'Cliente']],
+    body: [
+      [invoice.issuer.name, invoice.customer.name],
+      [`NIF: ${invoice.issuer.nif}`, `NIF: ${invoice.customer.nif}`],
+      [invoice.issuer.address || '', invoice.customer.address || '']
+    ],
+    theme: 'grid',
+    headStyles: { fillColor: [41, 128, 185] },
+    styles: { fontSize: 10, cellPadding: 2 }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + 6;
+
+  if (job?.carDetails) {
+    doc.setFontSize(9);
+    doc.setTextColor(80, 80, 80);
+    doc.text(`Vehículo: ${job.carDetails.plate} - ${job.carDetails.make} ${job.carDetails.model}`, margin, yPos);
+    yPos += 6;
+  }
+
+  if (invoice.rectificationReason) {
+    doc.setFontSize(9);
+    doc.setTextColor(80, 80, 80);
+    doc.text(`Rectifica la factura ${invoice.rectifiesInvoiceNumber || ''}. Motivo: ${invoice.rectificationReason}`, margin, yPos);
+    yPos += 6;
+  }
+
+  // --- Lines ---
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Concepto', 'Cant./h', 'Precio', 'Dto', 'Importe']],
+    body: invoice.lines.map(l => [
+      l.description,
+      l.quantity.toString(),
+      formatCurrency(l.unitPrice),
+      l.discount ? `${l.discount}%` : '-',
+      formatCurrency(lineTotal(l))
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [52, 73, 94] },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + 10;
+
+  // --- Totals ---
+  autoTable(doc, {
+    startY: yPos,
+    margin: { left: 110 },
+    body: [
+      ['Base imponible', formatCurrency(invoice.base)],
+      [`IVA (${Math.round(invoice.ivaRate * 100)}%)`, formatCurrency(invoice.iva)],
+      ['TOTAL', formatCurrency(invoice.total)]
+    ],
+    theme: 'plain',
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } }
+  });
+
+  // --- Integrity footer ---
+  const pageHeight = doc.internal.pageSize.height;
+  doc.setFontSize(7);
+  doc.setTextColor(120, 120, 120);
+  doc.text(`Huella: ${invoice.hash}`, margin, pageHeight - 16);
+  doc.text(`Huella anterior: ${invoice.previousHash}`, margin, pageHeight - 12);
+  doc.text(`Generado por TallerPro AI - ${new Date().toLocaleTimeString()}`, margin, pageHeight - 8);
+
+  doc.save(`Factura_${invoice.fullNumber}.pdf`);
+};
@@ -0,0 +1,60 @@
+import { AppData, UserRole } from '../types';
+
+// --- ROLES & PERMISSIONS ---
+// What each role may do in the UI. firestore.rules enforces the same split in the cloud,
+// keep both in step when changing a role.
+
+export type Permission =
+  | 'jobs.create' // Vehicle intake
+  | 'jobs.edit' // Job details: vehicle, customer, claim, parts, photos, notes
+  | 'jobs.assess' // Damage assessment tab
+  | 'jobs.status' // Move jobs through the workflow
+  | 'jobs.archive'
+  | 'jobs.delete' // Trash, restore and purge
+  | 'estimates.edit'
+  | 'invoices.issue' // Issue and rectify
+  | 'time.track' // Technician assignments and clocking
+  | 'catalog.manage' // Insurers and technicians
+  | 'settings.manage' // Rates, fiscal data, backups, connection
+  | 'users.manage'
+  | 'workshops.manage' // Create and rename workshops
+  | 'reports.group'; // Activity of every workshop side by side
+
+const WORKSHOP: Permission[] = ['jobs.status', 'time.track'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.RECEPTION]: ['jobs.create', 'jobs.edit', 'jobs.status', 'jobs.archive', 'invoices.issue'],
+  [UserRole.BODYWORKER]: [...WORKSHOP, 'jobs.assess'],
+  [UserRole.PAINTER]: WORKSHOP,
+  [UserRole.MANAGER]: [
+    'jobs.create', 'jobs.edit', 'jobs.assess', 'jobs.status', 'jobs.archive', 'jobs.delete',
+    'estimates.edit', 'invoices.issue', 'time.track', 'catalog.manage', 'settings.manage'
+  ],
+  [UserRole.ADMIN]: [
+    'jobs.create', 'jobs.edit', 'jobs.assess', 'jobs.status', 'jobs.archive', 'jobs.delete',
+    'estimates.edit', 'invoices.issue', 'time.track', 'catalog.manage', 'settings.manage', 'users.manage',
+    'workshops.manage', 'reports.group'
+  ]
+};
+
+// `role` is undefined when the app runs without accounts (no cloud configured): a single local device, everything allowed
+export const can = (role: UserRole | undefined, permission: Permission): boolean => {
+  return role === undefined || ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const USER_ROLES = Object.values(UserRole);
+
+// Collections each role may write in the cloud (firestore.rules). The sync only pulls the others,
+// so a write the rules would reject is never attempted. Jobs and the audit log are written by every role.
+const COLLECTION_WRITE: Partial<Record<keyof AppData, Permission>> = {
+  customers: 'jobs.edit',
+  vehicles: 'jobs.edit',
+  insurers: 'catalog.manage',
+  technicians: 'catalog.manage',
+  invoices: 'invoices.issue'
+};
+
+export const canUpload = (role: UserRole | undefined, collection: keyof AppData): boolean => {
+  const permission = COLLECTION_WRITE[collection];
+  return !permission || can(role, permission);
+};
@@ -0,0 +1,283 @@
+import { Job, Customer, Vehicle, Invoice, InvoiceChainHead, Insurer, AuditEntry, Technician, AppData, AppSettings, RecordStamps, RestServerConfig, SyncResult } from '../types';
+import { JOB_SCHEMA_VERSION, upgradeJobs } from './schemaService';
+import { mergeRemoteJobs, markJobSynced, isJobDirty, getDirtyFields, mergeRemoteRecords, isRecordDirty, markRecordSynced } from './revisionService';
+import { loadSyncCursor, saveSyncCursor } from './storageService';
+import { sortInvoiceChain } from './invoiceService';
+import { ImageStore, uploadJobImages, downloadJobImages, needsImageUpload, hasPendingDownloads, fromCloudImageFields } from './cloudImageService';
+
+// --- SELF-HOSTED SYNC SERVER ---
+// Same model as the Firebase sync, against the REST/JSON API of server/ (documented in the README):
+// every collection is pulled incrementally with the server's change cursor, jobs and registries are merged
+// field by field and only records with local edits are pushed (the server merges them field by field too),
+// photos are stored as separate objects.
+
+const API_PREFIX = '/api/v1';
+const BATCH_SIZE = 100;
+
+// Job fields kept on the device only: photos travel as ImageRefs
+const LOCAL_ONLY_FIELDS: (keyof Job)[] = ['intakeImage', 'damageImages', 'syncedAt'];
+const IMAGE_FIELDS: (keyof Job)[] = ['intakeImage', 'damageImages', 'intakeImageRef', 'damageImageRefs'];
+
+const describeError = (e: unknown): string => e instanceof Error ? e.message : String(e);
+
+const getServer = (settings: AppSettings): RestServerConfig => {
+  if (!settings.restServer?.url || !settings.restServer.token) {
+    throw new Error("Configuración del servidor incompleta.");
+  }
+  return settings.restServer;
+};
+
+const apiUrl = (server: RestServerConfig, path: string) => `${server.url.replace(/\/+$/, '')}${API_PREFIX}${path}`;
+
+const apiFetch = async (server: RestServerConfig, path: string, init: RequestInit = {}): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(server, path), { ...init, headers: { Authorization: `Bearer ${server.token}`, ...init.headers } });
+  } catch (e) {
+    throw new Error(`No se pudo conectar con el servidor (${server.url}): ${describeError(e)}`);
+  }
+  if (!response.ok && response.status !== 404) {
+    const body = await response.json().catch(() => null);
+    if (response.status === 401) throw new Error("Token del servidor incorrecto.");
+    throw new Error(body?.error || `El servidor respondió ${response.status}`);
+  }
+  return response;
+};
+
+const apiJson = async <T>(server: RestServerConfig, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await apiFetch(server, path, init);
+  if (response.status === 404) throw new Error(`Ruta no encontrada en el servidor: ${path}`);
+  return response.json();
+};
+
+// Upserts in chunks. Returns the records the server rejected (key -> error); the rest were stored.
+const postItems = async <T>(server: RestServerConfig, collectionName: string, items: T[], getKey: (item: T) => string): Promise<Record<string, string>> => {
+  const failed: Record<string, string> = {};
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const chunk = items.slice(i, i + BATCH_SIZE);
+    try {
+      const result = await apiJson<{ failed: Record<string, string> }>(server, `/${collectionName}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: chunk })
+      });
+      Object.assign(failed, result.failed);
+    } catch (e) {
+      chunk.forEach(item => { failed[getKey(item)] = describeError(e); });
+    }
+  }
+  return failed;
+};
+
+// Each collection is pulled incrementally with its own server cursor
+const cursorKey = (server: RestServerConfig, collectionName: string) => `rest:${server.url}/${collectionName}`;
+
+const listItems = async <T>(server: RestServerConfig, collectionName: string, since = 0): Promise<{ items: T[]; cursor: number }> => {
+  return apiJson(server, `/${collectionName}?since=${since}`);
+};
+
+// Photos at /images/{jobId}/{imageId}
+const restImageStore = (server: RestServerConfig): ImageStore => {
+  const path = (jobId: string, imageId: string) => `/images/${encodeURIComponent(jobId)}/${encodeURIComponent(imageId)}`;
+  return {
+    exists: async (jobId, imageId) => (await apiFetch(server, path(jobId, imageId), { method: 'HEAD' })).ok,
+    // fetch() does not report upload progress: the whole photo counts when it is stored
+    upload: async (jobId, imageId, blob, onProgress) => {
+      await apiFetch(server, path(jobId, imageId), { method: 'PUT', headers: { 'Content-Type': 'image/jpeg' }, body: blob });
+      onProgress(blob.size);
+    },
+    download: async (jobId, imageId) => {
+      const response = await apiFetch(server, path(jobId, imageId));
+      if (response.status === 404) throw new Error("La foto no está en el servidor.");
+      return response.blob();
+    }
+  };
+};
+
+// Job as the server stores it: photos as refs, without device bookkeeping
+const toServerJob = (job: Job): Record<string, unknown> => {
+  const doc: Record<string, unknown> = { ...job, schemaVersion: JOB_SCHEMA_VERSION };
+  LOCAL_ONLY_FIELDS.forEach(field => { delete doc[field]; });
+  return JSON.parse(JSON.stringify(doc));
+};
+
+const syncJobsWithRestServer = async (localJobs: Job[], settings: AppSettings): Promise<{ jobs: Job[]; failedJobs: Record<string, string> }> => {
+  const server = getServer(settings);
+
+  // 1. PULL jobs changed since the cursor (everything on the first sync)
+  const cursor = await loadSyncCursor(cursorKey(server, 'jobs'));
+  const pulled = await listItems<Record<string, any>>(server, 'jobs', cursor);
+  const remoteJobs = upgradeJobs(pulled.items.map(fromCloudImageFields), 'rest');
+
+  // 2. MERGE field by field with the local copies
+  const jobMap = new Map<string, Job>(mergeRemoteJobs(localJobs, remoteJobs).map(job => [job.id, job]));
+
+  // 3. PUSH jobs with local edits, and jobs whose photos are not on the server yet
+  const pending = Array.from(jobMap.values()).filter(job => isJobDirty(job) || needsImageUpload(job));
+  const failedJobs: Record<string, string> = {};
+  const prepared: Job[] = [];
+
+  for (const job of pending) {
+    const imagesChanged = (isJobDirty(job) && getDirtyFields(job).some(f => IMAGE_FIELDS.includes(f))) || needsImageUpload(job);
+    if (!imagesChanged) {
+      prepared.push(job);
+      continue;
+    }
+    try {
+      const refs = await uploadJobImages(restImageStore(server), job);
+      // Refs are derived from the photos, so they carry the photos' edit times
+      const imageTime = (field: keyof Job) => job.fieldUpdatedAt?.[field] ?? job.updatedAt ?? job.createdAt;
+      prepared.push({
+        ...job,
+        ...refs,
+        fieldUpdatedAt: { ...job.fieldUpdatedAt, intakeImageRef: imageTime('intakeImage'), damageImageRefs: imageTime('damageImages') }
+      });
+    } catch (e) {
+      // The job stays pending and is retried on the next sync; uploaded photos are not sent again
+      console.error(`No se pudieron subir las fotos del trabajo ${job.id}`, e);
+      failedJobs[job.id] = `No se pudieron subir las fotos: ${describeError(e)}`;
+    }
+  }
+
+  const failedWrites = await postItems(server, 'jobs', prepared.map(toServerJob), doc => doc.id as string);
+  prepared.forEach(job => {
+    if (failedWrites[job.id]) failedJobs[job.id] = `No se pudo guardar en el servidor: ${failedWrites[job.id]}`;
+    else jobMap.set(job.id, markJobSynced(job));
+  });
+
+  // Our own uploads come back on the next pull and merge as a no-op
+  await saveSyncCursor(cursorKey(server, 'jobs'), pulled.cursor);
+  return { jobs: Array.from(jobMap.values()).sort((a, b) => b.createdAt - a.createdAt), failedJobs };
+};
+
+// Field by field, the latest edit wins. Records edited on this device since the last sync are sent,
+// and those the server has never confirmed (the server merges them field by field too).
+const syncRegistry = async <T extends RecordStamps>(collectionName: string, localItems: T[], settings: AppSettings, getKey: (item: T) => string): Promise<{ items: T[]; failed: Record<string, string> }> => {
+  const server = getServer(settings);
+  const cursor = await loadSyncCursor(cursorKey(server, collectionName));
+  const pulled = await listItems<T>(server, collectionName, cursor);
+  const itemMap = new Map<string, T>(mergeRemoteRecords(localItems, pulled.items, getKey).map(item => [getKey(item), item]));
+
+  const toUpload = Array.from(itemMap.values()).filter(item => isRecordDirty(item) || item.syncedAt === undefined);
+  const failed = await postItems(server, collectionName, toUpload.map(({ syncedAt, ...item }) => item as T), getKey);
+  toUpload.forEach(item => {
+    if (!failed[getKey(item)]) itemMap.set(getKey(item), markRecordSynced(item));
+  });
+
+  await saveSyncCursor(cursorKey(server, collectionName), pulled.cursor);
+  return { items: Array.from(itemMap.values()), failed };
+};
+
+// Create-only records (invoices, audit entries): pulls the new ones and sends, in the given order,
+// those the server has not confirmed yet
+const syncCreateOnly = async <T extends { id: string; syncedAt?: number }>(
+  collectionName: string,
+  localItems: T[],
+  settings: AppSettings
+): Promise<{ items: T[]; sent: T[]; failed: Record<string, string> }> => {
+  const server = getServer(settings);
+  const cursor = await loadSyncCursor(cursorKey(server, collectionName));
+  const pulled = await listItems<T>(server, collectionName, cursor);
+  const now = Date.now();
+  const itemMap = new Map<string, T>(localItems.map(item => [item.id, item]));
+  // The server copy is kept if both exist
+  pulled.items.forEach(remote => itemMap.set(remote.id, { ...remote, syncedAt: now }));
+
+  const sent = Array.from(itemMap.values()).filter(item => item.syncedAt === undefined);
+  const failed = await postItems(server, collectionName, sent.map(({ syncedAt, ...item }) => item), item => item.id);
+  sent.forEach(item => {
+    if (!failed[item.id]) itemMap.set(item.id, { ...item, syncedAt: now });
+  });
+
+  await saveSyncCursor(cursorKey(server, collectionName), pulled.cursor);
+  return { items: Array.from(itemMap.values()), sent, failed };
+};
+
+// Invoices are create-only and the server only stores those that continue its chain: invoices issued here
+// without the server are published in chain order, and those another device got ahead of are reported
+const syncInvoices = async (localInvoices: Invoice[], settings: AppSettings): Promise<{ items: Invoice[]; failed: Record<string, string> }> => {
+  const { items, failed } = await syncCreateOnly('invoices', sortInvoiceChain(localInvoices), settings);
+  return { items: sortInvoiceChain(items), failed };
+};
+
+export const getInvoiceChainHeadFromRestServer = async (settings: AppSettings): Promise<InvoiceChainHead> => {
+  return apiJson(getServer(settings), '/invoices/head');
+};
+
+// False when the invoice does not continue the server's chain (another device issued first)
+export const appendInvoiceToRestServer = async (invoice: Invoice, settings: AppSettings): Promise<boolean> => {
+  const { syncedAt, ...data } = invoice;
+  const result = await apiJson<{ failed: Record<string, string> }>(getServer(settings), '/invoices', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items: [data] })
+  });
+  return !result.failed[invoice.id];
+};
+
+// Append-only; failures are keyed by job id, like the outbox groups audit entries
+const syncAuditLog = async (localEntries: AuditEntry[], settings: AppSettings): Promise<{ items: AuditEntry[]; failed: Record<string, string> }> => {
+  const { items, sent, failed: failedById } = await syncCreateOnly('jobAudit', localEntries, settings);
+  const failed: Record<string, string> = {};
+  sent.forEach(entry => { if (failedById[entry.id]) failed[entry.jobId] = failedById[entry.id]; });
+  return { items: items.sort((a, b) => a.at - b.at), failed };
+};
+
+const prefixKeys = (collectionName: keyof AppData, failed: Record<string, string>): Record<string, string> => {
+  return Object.fromEntries(Object.entries(failed).map(([key, error]) => [`${collectionName}:${key}`, error]));
+};
+
+const byName = <T extends { name: string }>(items: T[]) => items.sort((a, b) => a.name.localeCompare(b.name));
+
+export const syncAllWithRestServer = async (data: AppData, settings: AppSettings): Promise<SyncResult> => {
+  const [jobSync, customers, vehicles, invoices, insurers, auditLog, technicians] = await Promise.all([
+    syncJobsWithRestServer(data.jobs, settings),
+    syncRegistry<Customer>('customers', data.customers, settings, c => c.id),
+    syncRegistry<Vehicle>('vehicles', data.vehicles, settings, v => v.plate),
+    syncInvoices(data.invoices, settings),
+    syncRegistry<Insurer>('insurers', data.insurers, settings, i => i.id),
+    syncAuditLog(data.auditLog, settings),
+    syncRegistry<Technician>('technicians', data.technicians, settings, t => t.id)
+  ]);
+  return {
+    data: {
+      jobs: jobSync.jobs,
+      customers: byName(customers.items),
+      vehicles: vehicles.items,
+      invoices: invoices.items,
+      insurers: byName(insurers.items),
+      auditLog: auditLog.items,
+      technicians: byName(technicians.items)
+    },
+    failed: {
+      ...prefixKeys('jobs', jobSync.failedJobs),
+      ...prefixKeys('customers', customers.failed),
+      ...prefixKeys('vehicles', vehicles.failed),
+      ...prefixKeys('invoices', invoices.failed),
+      ...prefixKeys('insurers', insurers.failed),
+      ...prefixKeys('auditLog', auditLog.failed),
+      ...prefixKeys('technicians', technicians.failed)
+    }
+  };
+};
+
+// Permanent removal of purged jobs, with their photos
+export const deleteJobsFromRestServer = async (jobIds: string[], settings: AppSettings): Promise<void> => {
+  if (jobIds.length === 0) return;
+  const server = getServer(settings);
+  const failed: string[] = [];
+  for (const id of jobIds) {
+    await apiFetch(server, `/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => failed.push(id));
+  }
+  if (failed.length > 0) throw new Error(`No se pudieron borrar ${failed.length} trabajos del servidor.`);
+};
+
+export const downloadJobImagesFromRestServer = async (job: Job, settings: AppSettings): Promise<Job> => {
+  if (!hasPendingDownloads(job)) return job;
+  return { ...job, ...(await downloadJobImages(restImageStore(getServer(settings)), job)) };
+};
+
+// Checks the address and the token, without touching the sync cursor
+export const testRestServerConnection = async (server: RestServerConfig): Promise<void> => {
+  await apiJson(server, '/ping');
+};
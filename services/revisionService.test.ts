@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ClaimStatus, Customer, InsuranceClaim, Job, JobStatus } from '../types';
+import { getDirtyFields, markJobSynced, mergeJob, mergeRecord, mergeRemoteJobs, stampJobChanges, stampRecordChanges } from './revisionService';
+
+const baseJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  createdAt: 100,
+  status: JobStatus.INTAKE,
+  identifiedParts: [],
+  manualNotes: '',
+  repairType: 'CHAPA',
+  ...overrides
+});
+
+const claim: InsuranceClaim = { insurerId: 'ins-1', status: ClaimStatus.PENDING_INSPECTION };
+
+describe('mergeJob', () => {
+  it('keeps a field added on another device when the local copy edited a different one later', () => {
+    const synced = markJobSynced(baseJob(), 100);
+    const deviceB = stampJobChanges(synced, { ...synced, claim }, 200);
+    const deviceA = stampJobChanges(synced, { ...synced, manualNotes: 'Revisar paragolpes' }, 300);
+
+    const [merged] = mergeRemoteJobs([deviceA], [deviceB]);
+
+    expect(merged.claim).toEqual(claim);
+    expect(merged.manualNotes).toBe('Revisar paragolpes');
+    expect(merged.fieldUpdatedAt?.claim).toBe(200);
+    expect(getDirtyFields(merged)).toContain('manualNotes');
+  });
+
+  it('lets a removal win over an older value', () => {
+    const synced = markJobSynced(baseJob({ claim, updatedAt: 100 }), 100);
+    const removed = stampJobChanges(synced, { ...synced, claim: undefined }, 300);
+    const edited = stampJobChanges(synced, { ...synced, claim: { ...claim, claimNumber: 'S-1' } }, 200);
+
+    expect(removed.fieldUpdatedAt?.claim).toBe(300);
+    expect(mergeJob(removed, edited).claim).toBeUndefined();
+    expect(mergeJob(edited, removed).claim).toBeUndefined();
+  });
+
+  it('lets a newer value win over an older removal', () => {
+    const synced = markJobSynced(baseJob({ claim, updatedAt: 100 }), 100);
+    const removed = stampJobChanges(synced, { ...synced, claim: undefined }, 200);
+    const edited = stampJobChanges(synced, { ...synced, claim: { ...claim, claimNumber: 'S-1' } }, 300);
+
+    expect(mergeJob(removed, edited).claim?.claimNumber).toBe('S-1');
+  });
+
+  it('counts unstamped fields a legacy copy holds as edited at its last change', () => {
+    const legacy = baseJob({ manualNotes: 'Antes', updatedAt: 250 });
+    const stamped = stampJobChanges(baseJob(), { ...baseJob(), manualNotes: 'Después' }, 200);
+
+    expect(mergeJob(stamped, legacy).manualNotes).toBe('Antes');
+  });
+
+  it('keeps the local value on equal stamps', () => {
+    const synced = markJobSynced(baseJob(), 100);
+    const local = stampJobChanges(synced, { ...synced, manualNotes: 'Local' }, 200);
+    const remote = stampJobChanges(synced, { ...synced, manualNotes: 'Remoto' }, 200);
+
+    expect(mergeJob(local, remote).manualNotes).toBe('Local');
+  });
+
+  it('keeps every status transition from both copies', () => {
+    const local = baseJob({ statusHistory: [{ at: 200, from: JobStatus.INTAKE, to: JobStatus.ASSESSING }] });
+    const remote = baseJob({ statusHistory: [{ at: 150, from: JobStatus.INTAKE, to: JobStatus.AWAITING_PERITO }] });
+
+    expect(mergeJob(local, remote).statusHistory?.map(c => c.at)).toEqual([150, 200]);
+  });
+});
+
+describe('mergeRecord', () => {
+  const customer = (overrides: Partial<Customer> = {}): Customer => ({ id: 'c-1', createdAt: 100, name: 'Ana', phone: '600000000', ...overrides });
+
+  it('merges edits to different fields', () => {
+    const original = customer();
+    const local = stampRecordChanges(original, { ...original, phone: '611111111' }, 200);
+    const remote = stampRecordChanges(original, { ...original, name: 'Ana María' }, 300);
+
+    const merged = mergeRecord(local, remote);
+    expect(merged.phone).toBe('611111111');
+    expect(merged.name).toBe('Ana María');
+  });
+
+  it('lets a stamped removal win over an unstamped value', () => {
+    const original = customer({ email: 'ana@example.com' });
+    const local = stampRecordChanges(original, { ...original, email: undefined }, 200);
+
+    expect(mergeRecord(local, original).email).toBeUndefined();
+  });
+
+  it('keeps a field the remote copy never had', () => {
+    const local = customer({ email: 'ana@example.com' });
+
+    expect(mergeRecord(local, customer()).email).toBe('ana@example.com');
+  });
+});
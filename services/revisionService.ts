@@ -0,0 +1,189 @@
+import { Job, StatusChange, RecordStamps } from '../types';
+
+// --- JOB REVISIONS & MERGING ---
+// Every local edit stamps the fields it touched. When the same job was edited on two devices,
+// the merge keeps, field by field, the most recent value, so edits to different fields both survive.
+// Ties keep the local value: equal stamps come from the same edit, and local photos are the originals.
+
+// Bookkeeping fields, never merged as data
+const META_FIELDS: (keyof Job)[] = ['id', 'createdAt', 'updatedAt', 'revision', 'fieldUpdatedAt', 'syncedAt', 'schemaVersion'];
+
+const dataFields = (...jobs: Job[]): (keyof Job)[] => {
+  const keys = new Set<keyof Job>();
+  jobs.forEach(job => (Object.keys(job) as (keyof Job)[]).forEach(k => keys.add(k)));
+  return Array.from(keys).filter(k => !META_FIELDS.includes(k));
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Jobs written before revisions existed count every field they hold as edited at their last known change;
+// a field a copy lacks and never stamped was never set there (removals are stamped), so it counts as 0
+const fieldTime = (job: Job, field: keyof Job): number => {
+  const stamp = job.fieldUpdatedAt?.[field];
+  if (stamp !== undefined) return stamp;
+  return job[field] === undefined ? 0 : job.updatedAt ?? job.createdAt;
+};
+
+// Stamps the fields that differ from the previous version (all of them for a new job), removed ones included
+export const stampJobChanges = (before: Job | undefined, after: Job, now: number = Date.now()): Job => {
+  const changed = dataFields(after, ...(before ? [before] : [])).filter(f => !before || !sameValue(before[f], after[f]));
+  if (changed.length === 0) return after;
+
+  const fieldUpdatedAt = { ...(before?.fieldUpdatedAt || after.fieldUpdatedAt) };
+  changed.forEach(f => { fieldUpdatedAt[f] = now; });
+  return {
+    ...after,
+    updatedAt: now,
+    revision: (before?.revision ?? after.revision ?? 0) + 1,
+    fieldUpdatedAt
+  };
+};
+
+// Data fields that differ between two versions of a job, e.g. what a form edited since it was opened
+export const getChangedFields = (before: Job, after: Job): (keyof Job)[] => {
+  return dataFields(before, after).filter(f => !sameValue(before[f], after[f]));
+};
+
+// Changes not yet uploaded
+export const isJobDirty = (job: Job): boolean => job.syncedAt === undefined || (job.updatedAt ?? job.createdAt) > job.syncedAt;
+
+// Fields edited since the last sync, the only ones a push needs to send
+export const getDirtyFields = (job: Job): (keyof Job)[] => {
+  const fields = dataFields(job);
+  if (job.syncedAt === undefined) return fields;
+  return fields.filter(f => fieldTime(job, f) > job.syncedAt!);
+};
+
+const latestStamp = (job: Job): number => Math.max(job.updatedAt ?? job.createdAt, ...Object.values(job.fieldUpdatedAt || {}).map(t => t ?? 0));
+
+export const markJobSynced = (job: Job, now: number = Date.now()): Job => ({ ...job, syncedAt: Math.max(now, latestStamp(job)) });
+
+// Status history is append-only: concurrent transitions are all kept, in time order
+const mergeStatusHistory = (a: StatusChange[] = [], b: StatusChange[] = []): StatusChange[] => {
+  const byKey = new Map<string, StatusChange>();
+  [...a, ...b].forEach(change => byKey.set(`${change.at}:${change.to}`, change));
+  return Array.from(byKey.values()).sort((x, y) => x.at - y.at);
+};
+
+export const mergeJob = (local: Job, remote: Job): Job => {
+  const merged: Record<string, unknown> = { ...local };
+  const fieldUpdatedAt: Partial<Record<keyof Job, number>> = {};
+
+  dataFields(local, remote).forEach(field => {
+    const localTime = fieldTime(local, field);
+    const remoteTime = fieldTime(remote, field);
+    const winner = remoteTime > localTime ? remote : local;
+    merged[field] = winner[field];
+    fieldUpdatedAt[field] = Math.max(localTime, remoteTime);
+  });
+  if (local.statusHistory || remote.statusHistory) merged.statusHistory = mergeStatusHistory(local.statusHistory, remote.statusHistory);
+
+  const result = {
+    ...(merged as unknown as Job),
+    updatedAt: Math.max(local.updatedAt ?? local.createdAt, remote.updatedAt ?? remote.createdAt),
+    revision: Math.max(local.revision ?? 0, remote.revision ?? 0),
+    fieldUpdatedAt
+  };
+  // A job with nothing pending locally is now in step with the cloud
+  return isJobDirty(local) ? result : markJobSynced(result);
+};
+
+// Applies jobs pulled from the cloud (sync or live listener) to the local list
+export const mergeRemoteJobs = (local: Job[], remote: Job[]): Job[] => {
+  const jobMap = new Map<string, Job>(local.map(job => [job.id, job]));
+  remote.forEach(incoming => {
+    const current = jobMap.get(incoming.id);
+    if (!current) {
+      jobMap.set(incoming.id, markJobSynced(incoming));
+    } else if (current.updatedAt !== incoming.updatedAt || current.revision !== incoming.revision || isJobDirty(current)) {
+      jobMap.set(incoming.id, mergeJob(current, incoming));
+    }
+    // Otherwise it is the echo of our own upload: the local copy is kept as is
+  });
+  return Array.from(jobMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// --- REGISTRY RECORDS ---
+// Customers, vehicles, insurers and technicians are merged with the same rule, without revisions or history.
+// Values written before stamps existed count as the oldest, so any stamped edit replaces them. Ties keep
+// the remote copy, except a field the remote copy never had.
+
+const RECORD_META_FIELDS = ['createdAt', 'updatedAt', 'fieldUpdatedAt', 'syncedAt'];
+
+const recordFields = (...records: RecordStamps[]): string[] => {
+  const keys = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(k => keys.add(k)));
+  return Array.from(keys).filter(k => !RECORD_META_FIELDS.includes(k));
+};
+
+const valueOf = (record: RecordStamps, field: string): unknown => (record as Record<string, unknown>)[field];
+
+const recordFieldTime = (record: RecordStamps, field: string): number => record.fieldUpdatedAt?.[field] ?? 0;
+
+const localWins = (local: RecordStamps, remote: RecordStamps, field: string): boolean => {
+  const localTime = recordFieldTime(local, field);
+  const remoteTime = recordFieldTime(remote, field);
+  if (localTime !== remoteTime) return localTime > remoteTime;
+  return remoteTime === 0 && valueOf(remote, field) === undefined && valueOf(local, field) !== undefined;
+};
+
+// Stamps the fields that differ from the previous version (all of them for a new record)
+export const stampRecordChanges = <T extends RecordStamps>(before: T | undefined, after: T, now: number = Date.now()): T => {
+  const changed = recordFields(after, ...(before ? [before] : []))
+    .filter(f => !before || !sameValue(valueOf(before, f), valueOf(after, f)));
+  if (changed.length === 0) return after;
+
+  const fieldUpdatedAt = { ...(before?.fieldUpdatedAt || after.fieldUpdatedAt) };
+  changed.forEach(f => { fieldUpdatedAt[f] = now; });
+  return { ...after, updatedAt: now, fieldUpdatedAt };
+};
+
+// Same, for a whole list edited at once (e.g. the insurers in Configuración)
+export const stampListChanges = <T extends RecordStamps>(before: T[], after: T[], getKey: (item: T) => string, now: number = Date.now()): T[] => {
+  const previous = new Map(before.map(item => [getKey(item), item]));
+  return after.map(item => previous.get(getKey(item)) === item ? item : stampRecordChanges(previous.get(getKey(item)), item, now));
+};
+
+const latestRecordStamp = (record: RecordStamps): number => Math.max(0, ...Object.values(record.fieldUpdatedAt || {}));
+
+// Edits not yet uploaded. Records never stamped predate stamping and were uploaded whole by earlier syncs.
+export const isRecordDirty = (record: RecordStamps): boolean => latestRecordStamp(record) > (record.syncedAt ?? 0);
+
+// Fields edited since the last sync (including removed ones), the only ones a push needs to send
+export const getDirtyRecordFields = (record: RecordStamps): string[] => {
+  return Object.keys(record.fieldUpdatedAt || {}).filter(f => recordFieldTime(record, f) > (record.syncedAt ?? 0));
+};
+
+export const markRecordSynced = <T extends RecordStamps>(record: T, now: number = Date.now()): T => ({ ...record, syncedAt: Math.max(now, latestRecordStamp(record)) });
+
+export const mergeRecord = <T extends RecordStamps>(local: T, remote: T): T => {
+  const merged = { ...remote } as Record<string, unknown>;
+  const fieldUpdatedAt: Record<string, number> = {};
+
+  recordFields(local, remote).forEach(field => {
+    if (localWins(local, remote, field)) {
+      // A stamped field missing from the local copy was removed there
+      if (valueOf(local, field) === undefined) delete merged[field];
+      else merged[field] = valueOf(local, field);
+    }
+    const time = Math.max(recordFieldTime(local, field), recordFieldTime(remote, field));
+    if (time > 0) fieldUpdatedAt[field] = time;
+  });
+
+  const updatedAt = Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0);
+  if (updatedAt > 0) merged.updatedAt = updatedAt;
+  if (Object.keys(fieldUpdatedAt).length > 0) merged.fieldUpdatedAt = fieldUpdatedAt;
+  // A record with nothing pending locally is now in step with the cloud
+  if (!isRecordDirty(local)) return markRecordSynced(merged as T);
+  return local.syncedAt === undefined ? merged as T : { ...(merged as T), syncedAt: local.syncedAt };
+};
+
+// Applies records pulled from the cloud to the local list
+export const mergeRemoteRecords = <T extends RecordStamps>(local: T[], remote: T[], getKey: (item: T) => string): T[] => {
+  const itemMap = new Map<string, T>(local.map(item => [getKey(item), item]));
+  remote.forEach(incoming => {
+    const current = itemMap.get(getKey(incoming));
+    itemMap.set(getKey(incoming), current ? mergeRecord(current, incoming) : markRecordSynced(incoming));
+  });
+  return Array.from(itemMap.values());
+};
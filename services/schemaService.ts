@@ -0,0 +1,190 @@
+import { AppSettings, ClaimStatus, Job, JobStatus, QuarantinedRecord } from '../types';
+import { normalizeParts } from './damageService';
+
+// --- SCHEMA VERSIONS & MIGRATIONS ---
+// Every job and settings record is stamped with the schema version it was written with.
+// Older records are upgraded on read by running, in order, every migration above their version.
+// Records that cannot be upgraded or fail validation are quarantined instead of loaded.
+
+interface Migration {
+  version: number; // Version the record has after this step
+  description: string;
+  migrate: (doc: any) => any;
+}
+
+export const JOB_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Piezas de daño como registros estructurados',
+    // A missing or malformed list is left as is so validation catches it
+    migrate: (doc) => Array.isArray(doc.identifiedParts) ? { ...doc, identifiedParts: normalizeParts(doc.identifiedParts) } : doc
+  },
+  {
+    version: 2,
+    description: 'Historial de estados con el estado inicial',
+    migrate: (doc) => doc.statusHistory ? doc : { ...doc, statusHistory: [{ to: doc.status, at: doc.createdAt }] }
+  }
+];
+
+export const SETTINGS_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Versión inicial de la configuración',
+    migrate: (doc) => doc
+  }
+];
+
+export const JOB_SCHEMA_VERSION = JOB_MIGRATIONS[JOB_MIGRATIONS.length - 1].version;
+export const SETTINGS_SCHEMA_VERSION = SETTINGS_MIGRATIONS[SETTINGS_MIGRATIONS.length - 1].version;
+
+// --- VALIDATION ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || value === null || check(value);
+const isArrayOf = (value: unknown, check: (v: unknown) => boolean) => Array.isArray(value) && value.every(check);
+const isImageRef = (value: unknown) => isObject(value) && isString(value.id) && isString(value.thumbnail);
+
+const JOB_STATUSES = Object.values(JobStatus) as string[];
+const CLAIM_STATUSES = Object.values(ClaimStatus) as string[];
+const REPAIR_TYPES = ['CHAPA', 'PINTURA', 'AMBOS'];
+
+// Returns the list of problems, empty when the job is valid
+export const validateJob = (doc: unknown): string[] => {
+  if (!isObject(doc)) return ['El registro no es un objeto'];
+  const errors: string[] = [];
+
+  if (!isString(doc.id) || !doc.id) errors.push('Falta el identificador');
+  if (!isNumber(doc.createdAt)) errors.push('Fecha de creación no válida');
+  if (!isOptional(doc.updatedAt, isNumber) || !isOptional(doc.revision, isNumber) || !isOptional(doc.fieldUpdatedAt, isObject)) {
+    errors.push('Datos de revisión no válidos');
+  }
+  if (!JOB_STATUSES.includes(doc.status)) errors.push(`Estado desconocido: ${String(doc.status)}`);
+  if (!REPAIR_TYPES.includes(doc.repairType)) errors.push(`Tipo de reparación desconocido: ${String(doc.repairType)}`);
+  if (!isString(doc.manualNotes)) errors.push('Observaciones no válidas');
+  if (!isArrayOf(doc.identifiedParts, p => isObject(p) && isString(p.id) && isString(p.name))) errors.push('Piezas no válidas');
+  if (!isOptional(doc.carDetails, c => isObject(c) && isString(c.plate))) errors.push('Datos del vehículo no válidos');
+  if (!isOptional(doc.intakeImage, isString)) errors.push('Foto de ingreso no válida');
+  if (!isOptional(doc.damageImages, v => isArrayOf(v, isString))) errors.push('Fotos de daños no válidas');
+  if (!isOptional(doc.intakeImageRef, isImageRef) || !isOptional(doc.damageImageRefs, v => isArrayOf(v, isImageRef))) {
+    errors.push('Referencias de fotos no válidas');
+  }
+  if (!isOptional(doc.estimates, v => isArrayOf(v, e => isObject(e) && isString(e.id) && isNumber(e.version) && Array.isArray(e.lines)))) {
+    errors.push('Presupuestos no válidos');
+  }
+  if (!isOptional(doc.claim, c => isObject(c) && isString(c.insurerId) && CLAIM_STATUSES.includes(c.status))) errors.push('Siniestro no válido');
+  if (!isOptional(doc.statusHistory, v => isArrayOf(v, h => isObject(h) && JOB_STATUSES.includes(h.to) && isNumber(h.at)))) {
+    errors.push('Historial de estados no válido');
+  }
+  if (!isOptional(doc.assignments, v => isArrayOf(v, a => isObject(a) && isString(a.id) && isString(a.technicianId)))) errors.push('Asignaciones no válidas');
+  if (!isOptional(doc.archivedAt, isNumber) || !isOptional(doc.deletedAt, isNumber)) errors.push('Fechas de archivo o borrado no válidas');
+  if (!isOptional(doc.timeEntries, v => isArrayOf(v, t => isObject(t) && isString(t.assignmentId) && isNumber(t.start)))) errors.push('Fichajes no válidos');
+
+  return errors;
+};
+
+export const validateSettings = (doc: unknown): string[] => {
+  if (!isObject(doc)) return ['La configuración no es un objeto'];
+  const errors: string[] = [];
+
+  if (!isOptional(doc.firebaseConfig, c => isObject(c) && isString(c.apiKey) && isString(c.projectId))) errors.push('Configuración de Firebase no válida');
+  if (!isOptional(doc.restServer, r => isObject(r) && isString(r.url) && isString(r.token))) errors.push('Configuración del servidor no válida');
+  if (!isOptional(doc.aiProxy, p => isObject(p) && isString(p.key) && isOptional(p.url, isString))) errors.push('Configuración del proxy de la IA no válida');
+  if (!isOptional(doc.openAiCompatible, c => isObject(c) && isString(c.url) && isString(c.model))) errors.push('Configuración del servidor de IA no válida');
+  if (!isOptional(doc.laborRates, isObject)) errors.push('Tarifas no válidas');
+  if (!isOptional(doc.workshopFiscal, f => isObject(f) && isString(f.name) && isString(f.nif))) errors.push('Datos fiscales no válidos');
+  if (!isOptional(doc.invoiceSeries, isObject)) errors.push('Series de facturación no válidas');
+  if (!isOptional(doc.operatorName, isString)) errors.push('Operario no válido');
+  if (!isOptional(doc.autoBackup, b => isObject(b) && isNumber(b.intervalHours) && isNumber(b.retention))) errors.push('Copias automáticas no válidas');
+
+  return errors;
+};
+
+// --- UPGRADE PIPELINE ---
+
+export type UpgradeResult<T> =
+  | { ok: true; value: T; upgraded: boolean }
+  | { ok: false; quarantined: QuarantinedRecord };
+
+const upgrade = <T>(
+  raw: unknown,
+  kind: QuarantinedRecord['kind'],
+  source: QuarantinedRecord['source'],
+  migrations: Migration[],
+  validate: (doc: unknown) => string[]
+): UpgradeResult<T> => {
+  const recordId = isObject(raw) && isString(raw.id) ? raw.id : undefined;
+  const quarantine = (reasons: string[]): UpgradeResult<T> => ({
+    ok: false,
+    quarantined: { id: `${source}:${kind}:${recordId ?? 'sin-id'}`, kind, source, recordId, reasons, raw, at: Date.now() }
+  });
+
+  if (!isObject(raw)) return quarantine(['El registro no es un objeto']);
+
+  const latest = migrations[migrations.length - 1].version;
+  const fromVersion = isNumber(raw.schemaVersion) ? raw.schemaVersion : 0;
+  if (fromVersion > latest) {
+    return quarantine([`Versión de esquema ${fromVersion} más nueva que la soportada (${latest}). Actualiza la aplicación.`]);
+  }
+
+  let doc: any = raw;
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      doc = migration.migrate(doc);
+    } catch (e: any) {
+      return quarantine([`Error en la migración a v${migration.version} (${migration.description}): ${e?.message || e}`]);
+    }
+  }
+
+  const errors = validate(doc);
+  if (errors.length > 0) return quarantine(errors);
+
+  return { ok: true, value: { ...doc, schemaVersion: latest } as T, upgraded: fromVersion < latest };
+};
+
+export const upgradeJob = (raw: unknown, source: QuarantinedRecord['source']): UpgradeResult<Job> => {
+  return upgrade<Job>(raw, 'job', source, JOB_MIGRATIONS, validateJob);
+};
+
+export const upgradeSettings = (raw: unknown, source: QuarantinedRecord['source']): UpgradeResult<AppSettings> => {
+  return upgrade<AppSettings>(raw, 'settings', source, SETTINGS_MIGRATIONS, validateSettings);
+};
+
+// Upgrades a batch, returning the valid jobs and reporting the rest
+export const upgradeJobs = (raws: unknown[], source: QuarantinedRecord['source']): Job[] => {
+  const jobs: Job[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  raws.forEach(raw => {
+    const result = upgradeJob(raw, source);
+    if (result.ok) jobs.push(result.value);
+    else quarantined.push(result.quarantined);
+  });
+  reportQuarantine(quarantined);
+  return jobs;
+};
+
+// --- QUARANTINE REPORTING ---
+// Services report here; the app listens, shows them to the user and persists them.
+
+type QuarantineListener = (records: QuarantinedRecord[]) => void;
+const listeners = new Set<QuarantineListener>();
+
+export const subscribeQuarantine = (listener: QuarantineListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const reportQuarantine = (records: QuarantinedRecord[]) => {
+  if (records.length === 0) return;
+  records.forEach(r => console.warn(`Registro en cuarentena (${r.source}/${r.kind} ${r.recordId ?? ''}):`, r.reasons.join('; ')));
+  listeners.forEach(listener => listener(records));
+};
+
+// Newer reports of the same record replace older ones
+export const mergeQuarantine = (current: QuarantinedRecord[], incoming: QuarantinedRecord[]): QuarantinedRecord[] => {
+  const byId = new Map(current.map(r => [r.id, r]));
+  incoming.forEach(r => byId.set(r.id, r));
+  return Array.from(byId.values()).sort((a, b) => b.at - a.at);
+};
@@ -1,81 +1,103 @@
-import { Job, JobStatus, AppSettings } from '../types';
+import { Job, AppSettings } from '../types';
+import { upgradeJob, reportQuarantine } from './schemaService';
+import { markJobSynced, isJobDirty } from './revisionService';
+import { normalizeParts } from './damageService';
+
+// --- GOOGLE SHEETS ---
+// Jobs are kept one per row in the TallerProData tab. Rows are located by job ID and columns by their header,
+// so staff can add, move or hide columns of their own: only the cells the app owns are ever written,
+// and only when their value changed. Photos are not stored (cells are limited to 50,000 characters).
 
 const SHEET_NAME = 'TallerProData';
 
-// Helper to format a Job object into a row array for Google Sheets
-const jobToRow = (job: Job): any[] => {
-  return [
-    job.id,
-    new Date(job.createdAt).toISOString(),
-    job.status,
-    job.carDetails?.plate || '',
-    job.carDetails?.make || '',
-    job.carDetails?.model || '',
-    job.repairType,
-    (job.identifiedParts || []).join(', '),
-    job.manualNotes || '',
-    // IMPORTANT: We send empty JSON arrays for images because Base64 strings 
-    // exceed the Google Sheets cell limit of 50,000 characters.
-    // Images will be persisted in LocalStorage only.
-    JSON.stringify([]), 
-    JSON.stringify([])
-  ];
+const getBaseUrl = (settings: AppSettings) => `https://sheets.googleapis.com/v4/spreadsheets/${settings.googleSheetId}`;
+
+const assertConfigured = (settings: AppSettings) => {
+  if (!settings.googleSheetId || !settings.googleAccessToken) {
+    throw new Error("Configuración incompleta");
+  }
 };
 
-// Helper to parse a row array from Google Sheets back into a Job object
-const rowToJob = (row: any[]): Job => {
-  const id = row[0] || '';
-  const dateStr = row[1] || new Date().toISOString();
-  const status = row[2] as JobStatus || JobStatus.INTAKE;
-  const plate = row[3] || '';
-  const make = row[4] || '';
-  const model = row[5] || '';
-  const repairType = row[6] as any || 'AMBOS';
-  const partsStr = row[7] || '';
-  const notes = row[8] || '';
-  
-  // We still attempt to parse, in case small images were saved previously
-  const intakeJson = row[9] || '[]';
-  const damageJson = row[10] || '[]';
-
-  let intakeImage = undefined;
-  let damageImages: string[] = [];
-
-  try {
-    const parsedIntake = JSON.parse(intakeJson);
-    if (Array.isArray(parsedIntake) && parsedIntake.length > 0) intakeImage = parsedIntake[0];
-    
-    const parsedDamage = JSON.parse(damageJson);
-    if (Array.isArray(parsedDamage)) damageImages = parsedDamage;
-  } catch (e) {
-    // console.warn("Error parsing image JSON from sheet", e);
+// A column the app owns: how a job is written to its cell and read back from it
+interface Column {
+  header: string;
+  toCell: (job: Job) => string;
+  fromCell: (job: any, value: string) => void;
+}
+
+const carColumn = (header: string, field: 'plate' | 'make' | 'model' | 'year' | 'color' | 'vin' | 'paintCode'): Column => ({
+  header,
+  toCell: job => job.carDetails?.[field] || '',
+  fromCell: (job, value) => { job.carDetails = { ...job.carDetails, [field]: value || (field === 'plate' || field === 'make' || field === 'model' ? '' : undefined) }; }
+});
+
+// Times as ISO dates, empty when unset
+const timeColumn = (header: string, field: 'archivedAt' | 'deletedAt'): Column => ({
+  header,
+  toCell: job => job[field] ? new Date(job[field]!).toISOString() : '',
+  fromCell: (job, value) => {
+    const time = Date.parse(value);
+    job[field] = isNaN(time) ? undefined : time;
   }
+});
+
+const COLUMNS: Column[] = [
+  { header: 'ID', toCell: job => job.id, fromCell: (job, value) => { job.id = value; } },
+  {
+    header: 'Fecha',
+    toCell: job => new Date(job.createdAt).toISOString(),
+    fromCell: (job, value) => {
+      const time = Date.parse(value);
+      if (!isNaN(time)) job.createdAt = time;
+    }
+  },
+  { header: 'Estado', toCell: job => job.status, fromCell: (job, value) => { job.status = value; } },
+  carColumn('Matrícula', 'plate'),
+  carColumn('Marca', 'make'),
+  carColumn('Modelo', 'model'),
+  carColumn('Año', 'year'),
+  carColumn('Color', 'color'),
+  carColumn('Bastidor', 'vin'),
+  carColumn('Código Pintura', 'paintCode'),
+  { header: 'Tipo Reparación', toCell: job => job.repairType, fromCell: (job, value) => { job.repairType = value; } },
+  {
+    header: 'Piezas',
+    toCell: job => (job.identifiedParts || []).map(p => p.name).join(', '),
+    fromCell: (job, value) => { job.identifiedParts = normalizeParts(value ? value.split(', ') : []); }
+  },
+  { header: 'Observaciones', toCell: job => job.manualNotes || '', fromCell: (job, value) => { job.manualNotes = value; } },
+  // Archive and trash travel with the job, so other devices hide or restore it too
+  timeColumn('Archivado', 'archivedAt'),
+  timeColumn('Borrado', 'deletedAt')
+];
 
-  return {
-    id,
-    createdAt: new Date(dateStr).getTime(),
-    status,
-    carDetails: {
-      plate,
-      make,
-      model
-    },
-    repairType,
-    identifiedParts: partsStr ? partsStr.split(', ') : [],
-    manualNotes: notes,
-    intakeImage,
-    damageImages
-  };
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  return letter;
 };
 
-// Check if the sheet exists, create it if not, and add headers
-export const ensureSheetExists = async (settings: AppSettings): Promise<void> => {
-    const BASE_URL = `https://sheets.googleapis.com/v4/spreadsheets/${settings.googleSheetId}`;
+interface SheetRow {
+  cells: string[];
+}
+
+interface SheetState {
+  sheetId: number; // Numeric id of the tab, for row deletions
+  columns: Map<string, number>; // Header -> column index, for the app's columns
+  width: number;
+  rows: Map<string, SheetRow>; // By job ID; the first row wins if an ID is repeated. Written by ID, see locateRows
+}
+
+const cellOf = (row: SheetRow, index: number | undefined): string => index === undefined ? '' : String(row.cells[index] ?? '');
+
+// Check if the sheet exists, create it if not, and add headers. Returns the tab's numeric id.
+export const ensureSheetExists = async (settings: AppSettings): Promise<number> => {
+    const BASE_URL = getBaseUrl(settings);
     const token = settings.googleAccessToken;
 
     // 1. Get Spreadsheet Metadata to list sheets
-    const metaRes = await fetch(`${BASE_URL}?fields=sheets.properties.title&access_token=${token}`);
-    
+    const metaRes = await fetch(`${BASE_URL}?fields=sheets.properties(sheetId,title)&access_token=${token}`);
+
     if (!metaRes.ok) {
         if (metaRes.status === 401 || metaRes.status === 403) {
             throw new Error("Permiso denegado. Revisa el Access Token.");
@@ -87,10 +109,10 @@ export const ensureSheetExists = async (settings: AppSettings): Promise<void> =>
     }
 
     const metaData = await metaRes.json();
-    const sheetExists = metaData.sheets?.some((s: any) => s.properties.title === SHEET_NAME);
+    const existing = metaData.sheets?.find((s: any) => s.properties.title === SHEET_NAME);
 
-    if (sheetExists) {
-        return; // All good
+    if (existing) {
+        return existing.properties.sheetId; // All good
     }
 
     // 2. Create the Sheet if it doesn't exist
@@ -109,109 +131,219 @@ export const ensureSheetExists = async (settings: AppSettings): Promise<void> =>
     });
 
     if (!createRes.ok) throw new Error("No se pudo crear la pestaña 'TallerProData'.");
+    const created = await createRes.json();
 
     // 3. Add Headers
-    const headers = ["ID", "Fecha", "Estado", "Matrícula", "Marca", "Modelo", "Tipo Reparación", "Piezas", "Observaciones", "Imagen Ingreso (JSON)", "Imágenes Daños (JSON)"];
-    const headerBody = {
-        range: `${SHEET_NAME}!A1`,
-        majorDimension: "ROWS",
-        values: [headers]
-    };
+    await writeCells([{ range: `${SHEET_NAME}!A1`, values: [COLUMNS.map(c => c.header)] }], settings);
+    return created.replies[0].addSheet.properties.sheetId;
+};
 
-    await fetch(`${BASE_URL}/values/${SHEET_NAME}!A1:append?valueInputOption=USER_ENTERED&access_token=${token}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(headerBody)
-    });
+interface ValueRange {
+  range: string;
+  values: string[][];
+}
+
+// A cell of a job's row, addressed by job ID until it is written
+interface CellUpdate {
+  jobId: string;
+  column: number;
+  value: string;
+}
+
+// RAW so values are stored as typed (a year stays "2019", a date string is not reformatted)
+const writeCells = async (data: ValueRange[], settings: AppSettings): Promise<void> => {
+  if (data.length === 0) return;
+  const res = await fetch(`${getBaseUrl(settings)}/values:batchUpdate?access_token=${settings.googleAccessToken}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ valueInputOption: 'RAW', data })
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(`Error escribiendo en Sheet: ${err.error?.message || res.statusText}`);
+  }
 };
 
-export const syncWithGoogleSheets = async (localJobs: Job[], settings: AppSettings): Promise<Job[]> => {
-  if (!settings.googleSheetId || !settings.googleAccessToken) {
-    throw new Error("Configuración incompleta");
+// Appended after the last row of the table, so rows added at the same time by other devices do not collide
+const appendRows = async (rows: string[][], settings: AppSettings): Promise<void> => {
+  if (rows.length === 0) return;
+  const res = await fetch(`${getBaseUrl(settings)}/values/${SHEET_NAME}!A1:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS&access_token=${settings.googleAccessToken}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ majorDimension: 'ROWS', values: rows })
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(`Error añadiendo filas en Sheet: ${err.error?.message || res.statusText}`);
   }
+};
+
+// Current row of each job, read again right before writing: rows deleted or sorted in the sheet since
+// it was read would otherwise send the changes to another job's row
+const locateRows = async (sheet: SheetState, settings: AppSettings): Promise<Map<string, number>> => {
+  const letter = columnLetter(sheet.columns.get('ID')!);
+  const res = await fetch(`${getBaseUrl(settings)}/values/${SHEET_NAME}!${letter}:${letter}?access_token=${settings.googleAccessToken}`);
+  if (!res.ok) throw new Error("Error leyendo la hoja de cálculo.");
+  const values: string[][] = (await res.json()).values || [];
+  const rows = new Map<string, number>();
+  values.forEach((cells, i) => {
+    const id = String(cells[0] ?? '');
+    if (i > 0 && id && !rows.has(id)) rows.set(id, i + 1);
+  });
+  return rows;
+};
 
-  const BASE_URL = `https://sheets.googleapis.com/v4/spreadsheets/${settings.googleSheetId}`;
+// Jobs whose row is gone by then are skipped: not found in the sheet, the next sync appends them again
+const writeJobCells = async (updates: CellUpdate[], sheet: SheetState, settings: AppSettings): Promise<void> => {
+  if (updates.length === 0) return;
+  const rows = await locateRows(sheet, settings);
+  await writeCells(updates.flatMap(u => {
+    const rowNumber = rows.get(u.jobId);
+    return rowNumber === undefined ? [] : [{ range: `${SHEET_NAME}!${columnLetter(u.column)}${rowNumber}`, values: [[u.value]] }];
+  }), settings);
+};
 
-  // Ensure structure exists before reading/writing
-  await ensureSheetExists(settings);
+// Bottom-up, so the row numbers still to delete do not shift
+const deleteJobRows = async (sheet: SheetState, jobIds: string[], settings: AppSettings): Promise<void> => {
+  if (jobIds.length === 0) return;
+  const rows = await locateRows(sheet, settings);
+  const rowNumbers = jobIds.map(id => rows.get(id)).filter((n): n is number => n !== undefined);
+  if (rowNumbers.length === 0) return;
+  const requests = rowNumbers.sort((a, b) => b - a).map(rowNumber => ({
+    deleteDimension: { range: { sheetId: sheet.sheetId, dimension: 'ROWS', startIndex: rowNumber - 1, endIndex: rowNumber } }
+  }));
+  const res = await fetch(`${getBaseUrl(settings)}:batchUpdate?access_token=${settings.googleAccessToken}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requests })
+  });
+  if (!res.ok) throw new Error("No se pudieron borrar filas de la hoja.");
+};
 
-  // 1. FETCH EXISTING DATA FROM SHEET (The "Database" - mostly text data)
-  let sheetJobs: Job[] = [];
-  try {
-    const response = await fetch(`${BASE_URL}/values/${SHEET_NAME}!A2:K?access_token=${settings.googleAccessToken}`);
-    if (response.ok) {
-      const data = await response.json();
-      if (data.values) {
-        sheetJobs = data.values.map((row: any[]) => rowToJob(row));
-      }
-    }
-  } catch (e) {
-    console.error("Error reading from sheet", e);
+// Reads the whole tab. Headers of the app's columns missing from it (sheets created by older versions)
+// are added after the last column in use.
+const readSheet = async (settings: AppSettings): Promise<SheetState> => {
+  const sheetId = await ensureSheetExists(settings);
+  const res = await fetch(`${getBaseUrl(settings)}/values/${SHEET_NAME}?access_token=${settings.googleAccessToken}`);
+  if (!res.ok) throw new Error("Error leyendo la hoja de cálculo.");
+  const values: string[][] = (await res.json()).values || [];
+
+  const header = values[0] || [];
+  const columns = new Map<string, number>();
+  COLUMNS.forEach(c => {
+    const index = header.indexOf(c.header);
+    if (index >= 0) columns.set(c.header, index);
+  });
+  let width = Math.max(header.length, ...values.map(row => row.length));
+  const missing = COLUMNS.filter(c => !columns.has(c.header));
+  if (missing.length > 0) {
+    missing.forEach((c, i) => columns.set(c.header, width + i));
+    await writeCells([{ range: `${SHEET_NAME}!${columnLetter(width)}1`, values: [missing.map(c => c.header)] }], settings);
+    width += missing.length;
   }
 
-  // 2. MERGE STRATEGY
-  const jobMap = new Map<string, Job>();
-  
-  // Start with Sheet data (Server Truth)
-  sheetJobs.forEach(job => {
-    if (job.id) jobMap.set(job.id, job);
+  const idIndex = columns.get('ID')!;
+  const rows = new Map<string, SheetRow>();
+  values.slice(1).forEach(cells => {
+    const row = { cells };
+    const id = cellOf(row, idIndex);
+    if (id && !rows.has(id)) rows.set(id, row);
   });
+  return { sheetId, columns, width, rows };
+};
 
-  // Overlay Local Data (Client Truth)
-  // We prioritize Local Data because it likely contains the Images which we can't store in Sheet.
-  localJobs.forEach(localJob => {
-    if (localJob.id) {
-      const sheetJob = jobMap.get(localJob.id);
-      
-      if (sheetJob) {
-        // MERGE:
-        // Take text data from local (it's likely the most recent edit).
-        // CRITICAL: Ensure we preserve the images from localJob if they exist,
-        // because sheetJob will likely have empty images due to the 50k limit fix.
-        jobMap.set(localJob.id, {
-           ...sheetJob, // Properties from sheet
-           ...localJob, // Overwrite with local properties (includes images)
-           // Double check to ensure we don't accidentally overwrite valid local images with empty sheet ones
-           intakeImage: localJob.intakeImage || sheetJob.intakeImage,
-           damageImages: (localJob.damageImages && localJob.damageImages.length > 0) 
-              ? localJob.damageImages 
-              : sheetJob.damageImages
-        });
-      } else {
-        // New job created locally that hasn't synced yet
-        jobMap.set(localJob.id, localJob);
-      }
-    }
+const jobToRow = (job: Job, sheet: SheetState): string[] => {
+  const cells: string[] = new Array(sheet.width).fill('');
+  COLUMNS.forEach(c => { cells[sheet.columns.get(c.header)!] = c.toCell(job); });
+  return cells;
+};
+
+// App cells of the row that differ from the job, one per cell so nothing else in the row is touched
+const changedCells = (job: Job, row: SheetRow, sheet: SheetState): CellUpdate[] => {
+  return COLUMNS.flatMap(c => {
+    const index = sheet.columns.get(c.header)!;
+    const value = c.toCell(job);
+    return cellOf(row, index) === value ? [] : [{ jobId: job.id, column: index, value }];
+  });
+};
+
+// Rows go through the schema upgrade like any other record; invalid ones return null, are quarantined and left in the sheet
+const rowToJob = (row: SheetRow, sheet: SheetState, base: Record<string, any> = { carDetails: {}, identifiedParts: [] }): Job | null => {
+  const raw = { ...base, carDetails: { ...base.carDetails } };
+  COLUMNS.forEach(c => {
+    const index = sheet.columns.get(c.header);
+    const value = cellOf(row, index);
+    // Applied onto a local job, only the cells edited in the sheet are taken
+    if (base.id === undefined || value !== c.toCell(base as Job)) c.fromCell(raw, value);
   });
+  const result = upgradeJob(raw, 'sheets');
+  if (!result.ok) {
+    reportQuarantine([{ ...result.quarantined, raw: row.cells }]);
+    return null;
+  }
+  return result.value;
+};
+
+// Local edits win over the sheet. Jobs without local edits take the cells changed in the sheet
+// (by another device or by hand). Only changed cells are written and new jobs appended.
+export const syncWithGoogleSheets = async (localJobs: Job[], settings: AppSettings): Promise<Job[]> => {
+  assertConfigured(settings);
+  const sheet = await readSheet(settings);
 
-  const mergedJobs = Array.from(jobMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+  const updates: CellUpdate[] = [];
+  const appends: string[][] = [];
+  const merged: Job[] = [];
+  const localIds = new Set(localJobs.map(job => job.id));
 
-  // 3. WRITE BACK TO SHEET (Overwrite everything for consistency)
-  // This cleans up the sheet.
-  const clearBody = { range: `${SHEET_NAME}!A2:K1000` };
-  await fetch(`${BASE_URL}/values/${SHEET_NAME}!A2:K1000:clear?access_token=${settings.googleAccessToken}`, {
-    method: 'POST',
-    body: JSON.stringify(clearBody)
+  localJobs.forEach(local => {
+    const row = sheet.rows.get(local.id);
+    if (!row) {
+      appends.push(jobToRow(local, sheet));
+      merged.push(markJobSynced(local));
+    } else if (isJobDirty(local)) {
+      updates.push(...changedCells(local, row, sheet));
+      merged.push(markJobSynced(local));
+    } else {
+      const edited = changedCells(local, row, sheet).length > 0 ? rowToJob(row, sheet, local) : null;
+      merged.push(edited ? markJobSynced(edited) : local);
+    }
+  });
+
+  // Jobs created on other devices
+  sheet.rows.forEach((row, id) => {
+    if (localIds.has(id)) return;
+    const job = rowToJob(row, sheet);
+    if (job) merged.push(markJobSynced(job));
   });
 
-  // Convert to rows (Images will be stripped here by jobToRow)
-  const rows = mergedJobs.map(jobToRow);
-  const writeBody = {
-    range: `${SHEET_NAME}!A2`,
-    majorDimension: "ROWS",
-    values: rows
-  };
+  await writeJobCells(updates, sheet, settings);
+  await appendRows(appends, settings);
+  return merged.sort((a, b) => b.createdAt - a.createdAt);
+};
 
-  const writeResponse = await fetch(`${BASE_URL}/values/${SHEET_NAME}!A2:append?valueInputOption=USER_ENTERED&access_token=${settings.googleAccessToken}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(writeBody)
+// Mirror mode: the tab follows the local jobs, rows of jobs that no longer exist are removed.
+// Nothing is read back into the app.
+export const pushToGoogleSheets = async (jobs: Job[], settings: AppSettings): Promise<void> => {
+  assertConfigured(settings);
+  const sheet = await readSheet(settings);
+  const ids = new Set(jobs.map(job => job.id));
+
+  const updates: CellUpdate[] = [];
+  const appends: string[][] = [];
+  [...jobs].sort((a, b) => b.createdAt - a.createdAt).forEach(job => {
+    const row = sheet.rows.get(job.id);
+    if (row) updates.push(...changedCells(job, row, sheet));
+    else appends.push(jobToRow(job, sheet));
   });
+  const removed = Array.from(sheet.rows.keys()).filter(id => !ids.has(id));
 
-  if (!writeResponse.ok) {
-      const err = await writeResponse.json();
-      throw new Error(`Error escribiendo en Sheet: ${err.error?.message || 'Unknown error'}`);
-  }
+  await writeJobCells(updates, sheet, settings);
+  await deleteJobRows(sheet, removed, settings);
+  await appendRows(appends, settings);
+};
 
-  return mergedJobs;
-};
\ No newline at end of file
+// Purged jobs, so the next sync does not bring them back
+export const deleteJobsFromGoogleSheets = async (jobIds: string[], settings: AppSettings): Promise<void> => {
+  assertConfigured(settings);
+  await deleteJobRows(await readSheet(settings), jobIds, settings);
+};
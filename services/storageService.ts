@@ -0,0 +1,453 @@
+import { AppData, AppSettings, BackupArchive, Job, OutboxEntry, QuarantinedRecord, UserProfile, WorkshopSettings } from '../types';
+import { JOB_SCHEMA_VERSION, SETTINGS_SCHEMA_VERSION, reportQuarantine, upgradeJob, upgradeSettings } from './schemaService';
+import { pickWorkshopSettings, WORKSHOP_SETTING_KEYS } from './workshopService';
+import { v4 as uuidv4 } from 'uuid';
+
+// --- LOCAL PERSISTENCE (IndexedDB) ---
+// Job metadata and photos live in separate stores: the job list loads without any image data,
+// photos are read afterwards per job, and only jobs that changed are written back.
+// Each workshop has its own database; the base one keeps the device settings (and the data
+// stored before workshops existed, taken over by the first workshop chosen on the device).
+
+const DB_NAME = 'tallerpro';
+const DB_VERSION = 2;
+const JOBS_STORE = 'jobs';
+const IMAGES_STORE = 'images';
+const KV_STORE = 'kv'; // Settings and the smaller collections, one record each
+const BACKUPS_STORE = 'backups'; // Automatic backup archives
+
+const SETTINGS_KEY = 'settings';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const QUARANTINE_KEY = 'quarantine';
+const WORKSHOP_SETTINGS_KEY = 'workshopSettings'; // In the workshop database
+const OUTBOX_KEY = 'outbox';
+
+type CollectionKey = Exclude<keyof AppData, 'jobs'>;
+
+const COLLECTION_KEYS: CollectionKey[] = ['customers', 'vehicles', 'invoices', 'insurers', 'auditLog', 'technicians'];
+
+// localStorage keys used before IndexedDB, read once by the migration
+const LEGACY_KEYS: Record<CollectionKey | 'jobs' | 'settings', string> = {
+  jobs: 'taller_jobs',
+  settings: 'taller_settings',
+  customers: 'taller_customers',
+  vehicles: 'taller_vehicles',
+  invoices: 'taller_invoices',
+  insurers: 'taller_insurers',
+  auditLog: 'taller_audit_log',
+  technicians: 'taller_technicians'
+};
+
+interface ImageRefs {
+  intakeImageId?: string;
+  damageImageIds: string[];
+}
+
+type StoredJob = Omit<Job, 'intakeImage' | 'damageImages'> & ImageRefs;
+
+interface StoredImage {
+  id: string;
+  jobId: string;
+  blob: Blob;
+}
+
+export interface LocalBackup {
+  id: string;
+  createdAt: number;
+  jobs: number;
+  size: number; // Bytes
+}
+
+interface StoredBackup extends LocalBackup {
+  blob: Blob;
+}
+
+// Last persisted version of each job (by reference) so saves only touch what changed
+const lastSaved = new Map<string, Job>();
+// Image ids currently stored for each job
+const storedRefs = new Map<string, ImageRefs>();
+// Base64 of the images already read or written, by job and image id, to reuse ids without rewriting blobs
+const imageCache = new Map<string, Map<string, string>>();
+// Jobs whose photos have not been read yet: their empty image fields mean "not loaded", not "deleted"
+const pendingImages = new Set<string>();
+
+let baseDbPromise: Promise<IDBDatabase> | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null; // Database of the current workshop
+let dataDbName = DB_NAME; // Decided by loadAppState from the device settings
+let writeQueue: Promise<void> = Promise.resolve();
+let loadPromise: Promise<LoadedState> | null = null;
+
+interface LoadedState {
+  data: AppData;
+  settings: AppSettings;
+  quarantine: QuarantinedRecord[];
+  outbox: OutboxEntry[];
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transacción cancelada'));
+});
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(name, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(JOBS_STORE)) db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+      db.createObjectStore(IMAGES_STORE, { keyPath: 'id' }).createIndex('jobId', 'jobId');
+    }
+    if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+    if (!db.objectStoreNames.contains(BACKUPS_STORE)) db.createObjectStore(BACKUPS_STORE, { keyPath: 'id' });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openBaseDb = (): Promise<IDBDatabase> => {
+  if (!baseDbPromise) baseDbPromise = openDatabase(DB_NAME);
+  return baseDbPromise;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) dbPromise = dataDbName === DB_NAME ? openBaseDb() : openDatabase(dataDbName);
+  return dbPromise;
+};
+
+const getWorkshopDbName = (settings: AppSettings): string => {
+  return !settings.workshopId || settings.workshopId === settings.adoptedWorkshopId ? DB_NAME : `${DB_NAME}-${settings.workshopId}`;
+};
+
+const base64ToBlob = (base64: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: 'image/jpeg' });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Serialise writes so two saves of the same job never interleave
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  writeQueue = writeQueue.then(task, task);
+  return writeQueue;
+};
+
+const writeJob = async (db: IDBDatabase, job: Job): Promise<void> => {
+  const { intakeImage, damageImages, ...metadata } = job;
+  const previous = storedRefs.get(job.id) || { damageImageIds: [] };
+  const known = imageCache.get(job.id) || new Map<string, string>();
+  let refs: ImageRefs;
+  const newImages: StoredImage[] = [];
+  let removedIds: string[] = [];
+
+  if (pendingImages.has(job.id) && !intakeImage && !(damageImages && damageImages.length)) {
+    refs = previous;
+  } else {
+    pendingImages.delete(job.id);
+    const nextKnown = new Map<string, string>();
+    const refFor = (data: string): string => {
+      let id = Array.from(known.entries()).find(([, cached]) => cached === data)?.[0];
+      if (!id) {
+        id = uuidv4();
+        newImages.push({ id, jobId: job.id, blob: base64ToBlob(data) });
+      }
+      nextKnown.set(id, data);
+      return id;
+    };
+    refs = {
+      intakeImageId: intakeImage ? refFor(intakeImage) : undefined,
+      damageImageIds: (damageImages || []).map(refFor)
+    };
+    removedIds = [previous.intakeImageId, ...previous.damageImageIds].filter((id): id is string => !!id && !nextKnown.has(id));
+    imageCache.set(job.id, nextKnown);
+  }
+
+  const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+  const stored: StoredJob = { ...metadata, ...refs };
+  tx.objectStore(JOBS_STORE).put(JSON.parse(JSON.stringify(stored)));
+  newImages.forEach(image => tx.objectStore(IMAGES_STORE).put(image));
+  removedIds.forEach(id => tx.objectStore(IMAGES_STORE).delete(id));
+  await transactionDone(tx);
+  storedRefs.set(job.id, refs);
+};
+
+const deleteJob = async (db: IDBDatabase, jobId: string): Promise<void> => {
+  const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(JOBS_STORE).delete(jobId);
+  const images = tx.objectStore(IMAGES_STORE);
+  const keys = await request(images.index('jobId').getAllKeys(jobId));
+  keys.forEach(key => images.delete(key));
+  await transactionDone(tx);
+  storedRefs.delete(jobId);
+  imageCache.delete(jobId);
+  pendingImages.delete(jobId);
+};
+
+// Writes only the jobs that changed since the last call, and deletes the ones no longer present
+export const saveJobs = (jobs: Job[]): Promise<void> => {
+  const changed = jobs.filter(job => lastSaved.get(job.id) !== job);
+  const currentIds = new Set(jobs.map(j => j.id));
+  const removed = Array.from(lastSaved.keys()).filter(id => !currentIds.has(id));
+  if (changed.length === 0 && removed.length === 0) return Promise.resolve();
+
+  changed.forEach(job => lastSaved.set(job.id, job));
+  removed.forEach(id => lastSaved.delete(id));
+
+  return enqueue(async () => {
+    const db = await openDb();
+    for (const job of changed) await writeJob(db, { ...job, schemaVersion: JOB_SCHEMA_VERSION });
+    for (const id of removed) await deleteJob(db, id);
+  });
+};
+
+export const saveCollection = <K extends CollectionKey>(key: K, items: AppData[K]): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openDb();
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(items, key);
+    await transactionDone(tx);
+  });
+};
+
+// With a workshop selected, its settings go to the workshop database and the rest to the base one.
+// Saved while switching to another workshop, its settings are left for the next load to fetch.
+export const saveSettings = (settings: AppSettings): Promise<void> => {
+  return enqueue(async () => {
+    const base = await openBaseDb();
+    const workshopSettings = settings.workshopId && getWorkshopDbName(settings) === dataDbName ? pickWorkshopSettings(settings) : undefined;
+    const deviceSettings = settings.workshopId
+      ? Object.fromEntries(Object.entries(settings).filter(([key]) => !WORKSHOP_SETTING_KEYS.includes(key as keyof WorkshopSettings)))
+      : settings;
+    const tx = base.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put({ ...deviceSettings, schemaVersion: SETTINGS_SCHEMA_VERSION }, SETTINGS_KEY);
+    await transactionDone(tx);
+
+    if (workshopSettings) {
+      const db = await openDb();
+      const workshopTx = db.transaction(KV_STORE, 'readwrite');
+      workshopTx.objectStore(KV_STORE).put(JSON.parse(JSON.stringify(workshopSettings)), WORKSHOP_SETTINGS_KEY);
+      await transactionDone(workshopTx);
+    }
+  });
+};
+
+// Records that failed validation, kept so they can be inspected or exported instead of lost
+export const saveQuarantine = (records: QuarantinedRecord[]): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openDb();
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(JSON.parse(JSON.stringify(records)), QUARANTINE_KEY);
+    await transactionDone(tx);
+  });
+};
+
+// Changes not yet uploaded, so they are retried after a reload
+export const saveOutbox = (entries: OutboxEntry[]): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openDb();
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(JSON.parse(JSON.stringify(entries)), OUTBOX_KEY);
+    await transactionDone(tx);
+  });
+};
+
+// Position reached by the last incremental pull from a sync backend, 0 before the first one
+export const loadSyncCursor = async (key: string): Promise<number> => {
+  const db = await openDb();
+  const cursor = await request(db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(`syncCursor:${key}`));
+  return typeof cursor === 'number' ? cursor : 0;
+};
+
+export const saveSyncCursor = (key: string, cursor: number): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openDb();
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(cursor, `syncCursor:${key}`);
+    await transactionDone(tx);
+  });
+};
+
+// Last profile loaded for a signed-in account, so the app opens without connection
+export const loadCachedProfile = async (uid: string): Promise<UserProfile | undefined> => {
+  const db = await openBaseDb();
+  return request(db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(`userProfile:${uid}`));
+};
+
+export const saveCachedProfile = (profile: UserProfile): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openBaseDb();
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(JSON.parse(JSON.stringify(profile)), `userProfile:${profile.uid}`);
+    await transactionDone(tx);
+  });
+};
+
+// --- LOCAL BACKUPS ---
+
+// Stores a backup archive and deletes the oldest ones beyond the retention count
+export const saveLocalBackup = (archive: BackupArchive, retention: number): Promise<void> => {
+  return enqueue(async () => {
+    const db = await openDb();
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const tx = db.transaction(BACKUPS_STORE, 'readwrite');
+    const store = tx.objectStore(BACKUPS_STORE);
+    const backup: StoredBackup = { id: uuidv4(), createdAt: archive.createdAt, jobs: archive.data.jobs.length, size: blob.size, blob };
+    store.put(backup);
+    const existing = await request(store.getAll()) as StoredBackup[];
+    existing
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(Math.max(retention, 1))
+      .forEach(old => store.delete(old.id));
+    await transactionDone(tx);
+  });
+};
+
+// Newest first, without reading the archives themselves
+export const listLocalBackups = async (): Promise<LocalBackup[]> => {
+  const db = await openDb();
+  const backups = await request(db.transaction(BACKUPS_STORE, 'readonly').objectStore(BACKUPS_STORE).getAll()) as StoredBackup[];
+  return backups
+    .map(({ blob, ...info }) => info)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadLocalBackup = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  const backup = await request(db.transaction(BACKUPS_STORE, 'readonly').objectStore(BACKUPS_STORE).get(id)) as StoredBackup | undefined;
+  return backup?.blob;
+};
+
+// Photos of one job, read on demand after the job list is on screen
+export const loadJobImages = async (jobId: string): Promise<Pick<Job, 'intakeImage' | 'damageImages'>> => {
+  const refs = storedRefs.get(jobId);
+  if (!refs || (!refs.intakeImageId && refs.damageImageIds.length === 0)) {
+    pendingImages.delete(jobId);
+    return {};
+  }
+
+  const db = await openDb();
+  const store = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE);
+  const images = await request(store.index('jobId').getAll(jobId)) as StoredImage[];
+  const cache = new Map<string, string>();
+  for (const image of images) cache.set(image.id, await blobToBase64(image.blob));
+
+  imageCache.set(jobId, cache);
+  pendingImages.delete(jobId);
+
+  const result: Pick<Job, 'intakeImage' | 'damageImages'> = {
+    damageImages: refs.damageImageIds.map(id => cache.get(id)).filter((img): img is string => !!img)
+  };
+  if (refs.intakeImageId && cache.has(refs.intakeImageId)) result.intakeImage = cache.get(refs.intakeImageId);
+  return result;
+};
+
+// One-time copy of the old localStorage keys, removed once safely stored
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const done = await request(db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(MIGRATED_KEY));
+  if (done) return;
+
+  const migratedKeys: string[] = [];
+  const read = <T>(key: string): T | undefined => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      const value = JSON.parse(raw) as T;
+      migratedKeys.push(key);
+      return value;
+    } catch (e) {
+      console.error(`No se pudo migrar ${key}, se conserva en localStorage`);
+      return undefined;
+    }
+  };
+
+  const legacyJobs = read<Job[]>(LEGACY_KEYS.jobs) || [];
+  // Written as found: the schema upgrade runs when they are read back
+  for (const job of legacyJobs) await writeJob(db, job);
+
+  const tx = db.transaction(KV_STORE, 'readwrite');
+  const kv = tx.objectStore(KV_STORE);
+  const legacySettings = read<AppSettings>(LEGACY_KEYS.settings);
+  if (legacySettings) kv.put(legacySettings, SETTINGS_KEY);
+  COLLECTION_KEYS.forEach(key => {
+    const items = read<unknown[]>(LEGACY_KEYS[key]);
+    if (items) kv.put(items, key);
+  });
+  kv.put(true, MIGRATED_KEY);
+  await transactionDone(tx);
+
+  migratedKeys.forEach(key => localStorage.removeItem(key));
+  if (migratedKeys.length > 0) console.info(`Migrados ${migratedKeys.length} conjuntos de datos de localStorage a IndexedDB`);
+};
+
+// Everything except photos, which are read afterwards with loadJobImages.
+// Memoised: a second caller (e.g. StrictMode re-running effects) must not migrate twice.
+export const loadAppState = (): Promise<LoadedState> => {
+  if (!loadPromise) loadPromise = readAppState();
+  return loadPromise;
+};
+
+const readAppState = async (): Promise<LoadedState> => {
+  const base = await openBaseDb();
+  await migrateFromLocalStorage(base);
+  const storedSettings = await request(base.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(SETTINGS_KEY));
+  dataDbName = getWorkshopDbName(storedSettings || {});
+
+  const db = await openDb();
+  const tx = db.transaction([JOBS_STORE, KV_STORE], 'readonly');
+  const kv = tx.objectStore(KV_STORE);
+  const [storedJobs, storedWorkshopSettings, storedQuarantine, storedOutbox, ...collections] = await Promise.all([
+    request(tx.objectStore(JOBS_STORE).getAll()) as Promise<StoredJob[]>,
+    request(kv.get(WORKSHOP_SETTINGS_KEY)) as Promise<WorkshopSettings | undefined>,
+    request(kv.get(QUARANTINE_KEY)) as Promise<QuarantinedRecord[] | undefined>,
+    request(kv.get(OUTBOX_KEY)) as Promise<OutboxEntry[] | undefined>,
+    ...COLLECTION_KEYS.map(key => request(kv.get(key)))
+  ]);
+
+  const quarantined: QuarantinedRecord[] = [];
+  const jobs: Job[] = [];
+  storedJobs.forEach(({ intakeImageId, damageImageIds, ...metadata }) => {
+    const result = upgradeJob(metadata, 'local');
+    // Invalid jobs stay untouched in the store: they are never written back nor deleted
+    if (!result.ok) {
+      quarantined.push(result.quarantined);
+      return;
+    }
+    const job = result.value;
+    storedRefs.set(job.id, { intakeImageId, damageImageIds: damageImageIds || [] });
+    if (intakeImageId || (damageImageIds && damageImageIds.length)) pendingImages.add(job.id);
+    // Upgraded jobs are left out of lastSaved so the next save rewrites them in the current schema
+    if (!result.upgraded) lastSaved.set(job.id, job);
+    jobs.push(job);
+  });
+  jobs.sort((a, b) => b.createdAt - a.createdAt);
+
+  let settings: AppSettings = {};
+  if (storedSettings) {
+    const result = upgradeSettings({ ...storedSettings, ...storedWorkshopSettings }, 'local');
+    if (result.ok) settings = result.value;
+    else quarantined.push(result.quarantined);
+  }
+  reportQuarantine(quarantined);
+
+  // Same order as COLLECTION_KEYS
+  const [customers, vehicles, invoices, insurers, auditLog, technicians] = collections.map(items => items || []);
+
+  return {
+    data: { jobs, customers, vehicles, invoices, insurers, auditLog, technicians },
+    settings,
+    quarantine: storedQuarantine || [],
+    outbox: storedOutbox || []
+  };
+};
@@ -0,0 +1,115 @@
+import { AppData, AppSettings, Invoice, InvoiceChainHead, Job, SyncBackendKind, SyncResult, UserRole } from '../types';
+import {
+  syncAllWithFirebase, subscribeToJobChanges, deleteJobsFromFirebase, downloadJobImagesFromFirebase, testFirebaseConnection,
+  getInvoiceChainHeadFromFirebase, appendInvoiceToFirebase
+} from './firebaseService';
+import { syncWithGoogleSheets, pushToGoogleSheets, deleteJobsFromGoogleSheets, ensureSheetExists } from './sheetService';
+import {
+  syncAllWithRestServer, deleteJobsFromRestServer, downloadJobImagesFromRestServer, testRestServerConnection,
+  getInvoiceChainHeadFromRestServer, appendInvoiceToRestServer
+} from './restSyncService';
+import { getChainHead } from './invoiceService';
+
+// --- SYNC BACKENDS ---
+// The app syncs through this interface only, whatever the cloud behind it. One backend is the primary
+// (pulled from and pushed to); optionally a second one mirrors the data as a read-only copy.
+
+export interface SyncBackend {
+  kind: SyncBackendKind;
+  label: string;
+  usesAccounts: boolean; // Signed-in users, roles and workshops (services/authService.ts)
+  isConfigured: (settings: AppSettings) => boolean;
+  // One round: pull remote changes, merge them with `data` and push the local edits.
+  // With accounts, `role` is the signed-in user's: what it may not write is only pulled.
+  sync: (data: AppData, settings: AppSettings, role?: UserRole) => Promise<SyncResult>;
+  // Write-only copy of `data`, for mirrors. Backends without it cannot be used as a mirror.
+  push?: (data: AppData, settings: AppSettings) => Promise<void>;
+  // Jobs written elsewhere, as they happen. Returns the unsubscribe function.
+  subscribe?: (settings: AppSettings, onJobs: (jobs: Job[]) => void, onError: (error: Error) => void) => (() => void);
+  deleteJobs?: (jobIds: string[], settings: AppSettings) => Promise<void>;
+  downloadJobImages?: (job: Job, settings: AppSettings) => Promise<Job>;
+  testConnection: (settings: AppSettings) => Promise<void>;
+  // Invoices are numbered and chained on the server: `append` stores an invoice only if it continues
+  // the head (false otherwise). Without it, invoices are numbered on the device and stay there.
+  invoiceChain?: {
+    getHead: (settings: AppSettings) => Promise<InvoiceChainHead>;
+    append: (invoice: Invoice, settings: AppSettings) => Promise<boolean>;
+  };
+}
+
+const firebaseBackend: SyncBackend = {
+  kind: 'firebase',
+  label: 'Firebase',
+  usesAccounts: true,
+  isConfigured: settings => !!settings.firebaseConfig?.apiKey,
+  sync: syncAllWithFirebase,
+  subscribe: subscribeToJobChanges,
+  deleteJobs: deleteJobsFromFirebase,
+  downloadJobImages: downloadJobImagesFromFirebase,
+  testConnection: settings => testFirebaseConnection(settings.firebaseConfig!),
+  invoiceChain: { getHead: getInvoiceChainHeadFromFirebase, append: appendInvoiceToFirebase }
+};
+
+// Jobs only: registries, invoices and history stay on the device
+const sheetsBackend: SyncBackend = {
+  kind: 'sheets',
+  label: 'Google Sheets',
+  usesAccounts: false,
+  isConfigured: settings => !!settings.googleSheetId && !!settings.googleAccessToken,
+  sync: async (data, settings) => ({ data: { ...data, jobs: await syncWithGoogleSheets(data.jobs, settings) }, failed: {} }),
+  push: (data, settings) => pushToGoogleSheets(data.jobs, settings),
+  deleteJobs: deleteJobsFromGoogleSheets,
+  testConnection: async settings => { await ensureSheetExists(settings); }
+};
+
+// Reference server in server/, e.g. on the workshop PC. No accounts: anyone with the token syncs.
+const restBackend: SyncBackend = {
+  kind: 'rest',
+  label: 'Servidor propio',
+  usesAccounts: false,
+  isConfigured: settings => !!settings.restServer?.url && !!settings.restServer.token,
+  sync: syncAllWithRestServer,
+  deleteJobs: deleteJobsFromRestServer,
+  downloadJobImages: downloadJobImagesFromRestServer,
+  testConnection: settings => testRestServerConnection(settings.restServer!),
+  invoiceChain: { getHead: getInvoiceChainHeadFromRestServer, append: appendInvoiceToRestServer }
+};
+
+export const SYNC_BACKENDS: SyncBackend[] = [firebaseBackend, sheetsBackend, restBackend];
+
+export const getBackend = (kind: SyncBackendKind): SyncBackend => SYNC_BACKENDS.find(b => b.kind === kind)!;
+
+// Settings saved before backends could be chosen only had a Firebase config
+export const getPrimaryBackend = (settings: AppSettings): SyncBackend | undefined => {
+  const backend = getBackend(settings.syncBackend ?? 'firebase');
+  return backend.isConfigured(settings) ? backend : undefined;
+};
+
+export const getMirrorBackend = (settings: AppSettings): SyncBackend | undefined => {
+  if (!settings.mirrorBackend || settings.mirrorBackend === getPrimaryBackend(settings)?.kind) return undefined;
+  const backend = getBackend(settings.mirrorBackend);
+  return backend.push && backend.isConfigured(settings) ? backend : undefined;
+};
+
+const CHAIN_ATTEMPTS = 3;
+
+// Issues an invoice built from the current chain head. With a backend that keeps the chain, the invoice
+// only counts as issued once the server has stored it, so it cannot be issued offline; if another device
+// issued in between, it is built again from the new head.
+export const issueOnChain = async (
+  backend: SyncBackend | undefined,
+  settings: AppSettings,
+  localInvoices: Invoice[],
+  build: (head: InvoiceChainHead) => Promise<Invoice>
+): Promise<Invoice> => {
+  const chain = backend?.invoiceChain;
+  if (!chain) return build(getChainHead(localInvoices));
+  if (!navigator.onLine) {
+    throw new Error(`Sin conexión: con ${backend.label} las facturas se numeran en el servidor. Emítela cuando vuelva la conexión.`);
+  }
+  for (let attempt = 0; attempt < CHAIN_ATTEMPTS; attempt++) {
+    const invoice = await build(await chain.getHead(settings));
+    if (await chain.append(invoice, settings)) return { ...invoice, syncedAt: Date.now() };
+  }
+  throw new Error("Otros equipos están emitiendo facturas a la vez. Inténtalo de nuevo.");
+};
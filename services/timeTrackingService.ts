@@ -0,0 +1,116 @@
+import { EstimateLineType, Job, Technician, TechnicianAssignment, TechnicianRole, TimeEntry } from '../types';
+import { getAcceptedEstimate, getCurrentEstimate } from './estimateService';
+import { v4 as uuidv4 } from 'uuid';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Estimate labor line each kind of work is measured against (preparation is billed as paint labor)
+export const LABOR_LINE_BY_ROLE: Record<TechnicianRole, EstimateLineType> = {
+  [TechnicianRole.BODYWORKER]: EstimateLineType.BODY_LABOR,
+  [TechnicianRole.PAINTER]: EstimateLineType.PAINT_LABOR,
+  [TechnicianRole.PREPARER]: EstimateLineType.PAINT_LABOR
+};
+
+export const LABOR_CATEGORIES = [EstimateLineType.BODY_LABOR, EstimateLineType.PAINT_LABOR];
+
+export const createAssignment = (technician: Technician, partId?: string): TechnicianAssignment => ({
+  id: uuidv4(),
+  technicianId: technician.id,
+  task: technician.role,
+  partId
+});
+
+export const getRunningEntry = (job: Job, assignmentId: string): TimeEntry | undefined => {
+  return (job.timeEntries || []).find(e => e.assignmentId === assignmentId && e.end === undefined);
+};
+
+const closeRunningEntry = (entries: TimeEntry[], assignmentId: string, now: number): TimeEntry[] => {
+  return entries.map(e => e.assignmentId === assignmentId && e.end === undefined ? { ...e, end: now } : e);
+};
+
+// Timer actions return the job fields to persist
+export const startTimer = (job: Job, assignmentId: string, now: number = Date.now()): Pick<Job, 'assignments' | 'timeEntries'> => {
+  const entries = job.timeEntries || [];
+  return {
+    // Restarting a finished task reopens it
+    assignments: (job.assignments || []).map(a => a.id === assignmentId ? { ...a, completedAt: undefined } : a),
+    timeEntries: getRunningEntry(job, assignmentId) ? entries : [...entries, { id: uuidv4(), assignmentId, start: now }]
+  };
+};
+
+export const pauseTimer = (job: Job, assignmentId: string, now: number = Date.now()): Pick<Job, 'assignments' | 'timeEntries'> => ({
+  assignments: job.assignments || [],
+  timeEntries: closeRunningEntry(job.timeEntries || [], assignmentId, now)
+});
+
+export const stopTimer = (job: Job, assignmentId: string, now: number = Date.now()): Pick<Job, 'assignments' | 'timeEntries'> => ({
+  assignments: (job.assignments || []).map(a => a.id === assignmentId ? { ...a, completedAt: now } : a),
+  timeEntries: closeRunningEntry(job.timeEntries || [], assignmentId, now)
+});
+
+const entryHours = (entry: TimeEntry, now: number): number => ((entry.end ?? now) - entry.start) / HOUR_MS;
+
+export const getAssignmentHours = (job: Job, assignmentId: string, now: number = Date.now()): number => {
+  return (job.timeEntries || [])
+    .filter(e => e.assignmentId === assignmentId)
+    .reduce((sum, e) => sum + entryHours(e, now), 0);
+};
+
+// Hours budgeted in the accepted (or latest) estimate for a labor category, optionally for one part
+export const getEstimatedHours = (job: Job, category: EstimateLineType, partId?: string): number => {
+  const estimate = getAcceptedEstimate(job) || getCurrentEstimate(job);
+  if (!estimate) return 0;
+  return estimate.lines
+    .filter(l => l.type === category && (partId === undefined || l.partId === partId))
+    .reduce((sum, l) => sum + l.quantity, 0);
+};
+
+export const getActualHours = (job: Job, category: EstimateLineType, technicianId?: string, now: number = Date.now()): number => {
+  return (job.assignments || [])
+    .filter(a => LABOR_LINE_BY_ROLE[a.task] === category && (technicianId === undefined || a.technicianId === technicianId))
+    .reduce((sum, a) => sum + getAssignmentHours(job, a.id, now), 0);
+};
+
+export const formatHours = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}h ${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+};
+
+export interface TechnicianProductivity {
+  technician: Technician;
+  jobs: number;
+  actualHours: number;
+  earnedHours: number; // Estimated hours credited for the work done
+  efficiency?: number; // earned / actual, undefined without clocked hours
+}
+
+// Estimated hours of each job are shared among its technicians in proportion to the time they clocked
+export const buildProductivityReport = (jobs: Job[], technicians: Technician[], now: number = Date.now()): TechnicianProductivity[] => {
+  return technicians
+    .map(technician => {
+      let actualHours = 0;
+      let earnedHours = 0;
+      let jobCount = 0;
+
+      jobs.forEach(job => {
+        if (!(job.assignments || []).some(a => a.technicianId === technician.id)) return;
+        jobCount++;
+        LABOR_CATEGORIES.forEach(category => {
+          const own = getActualHours(job, category, technician.id, now);
+          const total = getActualHours(job, category, undefined, now);
+          actualHours += own;
+          if (total > 0) earnedHours += getEstimatedHours(job, category) * (own / total);
+        });
+      });
+
+      return {
+        technician,
+        jobs: jobCount,
+        actualHours,
+        earnedHours,
+        efficiency: actualHours > 0 ? earnedHours / actualHours : undefined
+      };
+    })
+    .filter(r => r.jobs > 0)
+    .sort((a, b) => b.actualHours - a.actualHours);
+};
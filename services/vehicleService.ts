@@ -0,0 +1,65 @@
+import { CarDetails, Job, Vehicle } from '../types';
+import { stampRecordChanges } from './revisionService';
+
+// Normalize a plate so "1234-abc", "1234 ABC" and "1234ABC" all resolve to the same vehicle
+export const normalizePlate = (plate: string): string => {
+  return (plate || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+export const findVehicle = (vehicles: Vehicle[], plate: string): Vehicle | undefined => {
+  const key = normalizePlate(plate);
+  if (!key) return undefined;
+  return vehicles.find(v => v.plate === key);
+};
+
+// Fill blanks in freshly identified details with what we already know about the car.
+// Registry data wins for the fields the AI cannot read from a photo (VIN, year, paint code).
+export const applyKnownVehicle = (details: CarDetails, vehicle: Vehicle): CarDetails => {
+  return {
+    ...details,
+    make: vehicle.make || details.make,
+    model: vehicle.model || details.model,
+    color: details.color || vehicle.color,
+    year: vehicle.year || details.year,
+    vin: vehicle.vin || details.vin,
+    paintCode: vehicle.paintCode || details.paintCode
+  };
+};
+
+// Insert or update the registry entry for a car. Returns a new array (state friendly).
+// Only the fields that actually change are stamped, so re-saving a job does not make a stale copy
+// of the car look newer than a correction (VIN, paint code...) made on another device.
+export const upsertVehicle = (vehicles: Vehicle[], details: CarDetails): Vehicle[] => {
+  const key = normalizePlate(details.plate);
+  if (!key) return vehicles;
+
+  const now = Date.now();
+  const existing = vehicles.find(v => v.plate === key);
+
+  if (!existing) {
+    return [...vehicles, stampRecordChanges(undefined, { ...details, plate: key, createdAt: now, updatedAt: now }, now)];
+  }
+
+  const updated = stampRecordChanges(existing, {
+    ...existing,
+    make: details.make || existing.make,
+    model: details.model || existing.model,
+    year: details.year || existing.year,
+    color: details.color || existing.color,
+    vin: details.vin || existing.vin,
+    paintCode: details.paintCode || existing.paintCode
+  }, now);
+  if (updated === existing) return vehicles;
+
+  return vehicles.map(v => v.plate === key ? updated : v);
+};
+
+// All jobs for a plate, newest first
+export const getVehicleHistory = (jobs: Job[], plate: string): Job[] => {
+  const key = normalizePlate(plate);
+  if (!key) return [];
+  // Jobs in the trash are not part of the vehicle's history
+  return jobs
+    .filter(j => !j.deletedAt && normalizePlate(j.carDetails?.plate || '') === key)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
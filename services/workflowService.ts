@@ -0,0 +1,148 @@
+import { Job, JobStatus, StatusChange } from '../types';
+import { needsPeritoApproval } from './claimService';
+
+// Groups used for dashboard counters and the assessment queue
+export enum WorkflowStage {
+  RECEPTION = 'Recepción',
+  WAITING = 'En espera',
+  WORKSHOP = 'En taller',
+  FINISHED = 'Terminados',
+  DELIVERED = 'Entregados'
+}
+
+// Returns the reason the job cannot enter a status, or null if it can
+type TransitionGuard = (job: Job) => string | null;
+
+interface WorkflowState {
+  stage: WorkflowStage;
+  next: JobStatus[];
+  guards?: TransitionGuard[];
+  invoiceable?: boolean;
+  color: string; // Badge classes
+}
+
+const requireParts: TransitionGuard = (job) =>
+  job.identifiedParts.length === 0 ? 'No se puede iniciar la reparación sin piezas identificadas.' : null;
+
+const requirePeritoApproval: TransitionGuard = (job) =>
+  needsPeritoApproval(job) ? 'El siniestro debe estar aprobado por el perito antes de iniciar la reparación.' : null;
+
+const REPAIR_GUARDS = [requireParts, requirePeritoApproval];
+
+export const WORKFLOW: Record<JobStatus, WorkflowState> = {
+  [JobStatus.INTAKE]: {
+    stage: WorkflowStage.RECEPTION,
+    next: [JobStatus.ASSESSING, JobStatus.AWAITING_PERITO, JobStatus.IN_PROGRESS],
+    color: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+  },
+  [JobStatus.ASSESSING]: {
+    stage: WorkflowStage.RECEPTION,
+    next: [JobStatus.INTAKE, JobStatus.AWAITING_PERITO, JobStatus.AWAITING_PARTS, JobStatus.IN_PROGRESS, JobStatus.PREPARATION],
+    color: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300'
+  },
+  [JobStatus.AWAITING_PERITO]: {
+    stage: WorkflowStage.WAITING,
+    next: [JobStatus.ASSESSING, JobStatus.AWAITING_PARTS, JobStatus.IN_PROGRESS, JobStatus.PREPARATION],
+    color: 'bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300'
+  },
+  [JobStatus.AWAITING_PARTS]: {
+    stage: WorkflowStage.WAITING,
+    next: [JobStatus.ASSESSING, JobStatus.IN_PROGRESS, JobStatus.PREPARATION, JobStatus.ASSEMBLY],
+    color: 'bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300'
+  },
+  [JobStatus.IN_PROGRESS]: {
+    stage: WorkflowStage.WORKSHOP,
+    next: [JobStatus.AWAITING_PARTS, JobStatus.PREPARATION, JobStatus.ASSEMBLY, JobStatus.QUALITY_CONTROL],
+    guards: REPAIR_GUARDS,
+    color: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300'
+  },
+  [JobStatus.PREPARATION]: {
+    stage: WorkflowStage.WORKSHOP,
+    next: [JobStatus.IN_PROGRESS, JobStatus.PAINT_BOOTH],
+    guards: REPAIR_GUARDS,
+    color: 'bg-sky-100 text-sky-700 dark:bg-sky-900/50 dark:text-sky-300'
+  },
+  [JobStatus.PAINT_BOOTH]: {
+    stage: WorkflowStage.WORKSHOP,
+    next: [JobStatus.PREPARATION, JobStatus.ASSEMBLY],
+    guards: REPAIR_GUARDS,
+    color: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300'
+  },
+  [JobStatus.ASSEMBLY]: {
+    stage: WorkflowStage.WORKSHOP,
+    next: [JobStatus.AWAITING_PARTS, JobStatus.QUALITY_CONTROL],
+    guards: REPAIR_GUARDS,
+    color: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/50 dark:text-cyan-300'
+  },
+  [JobStatus.QUALITY_CONTROL]: {
+    stage: WorkflowStage.WORKSHOP,
+    next: [JobStatus.IN_PROGRESS, JobStatus.PREPARATION, JobStatus.ASSEMBLY, JobStatus.COMPLETED],
+    guards: REPAIR_GUARDS,
+    color: 'bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300'
+  },
+  [JobStatus.COMPLETED]: {
+    stage: WorkflowStage.FINISHED,
+    next: [JobStatus.QUALITY_CONTROL, JobStatus.READY_FOR_DELIVERY],
+    guards: REPAIR_GUARDS,
+    invoiceable: true,
+    color: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300'
+  },
+  [JobStatus.READY_FOR_DELIVERY]: {
+    stage: WorkflowStage.FINISHED,
+    next: [JobStatus.COMPLETED, JobStatus.DELIVERED],
+    guards: REPAIR_GUARDS,
+    invoiceable: true,
+    color: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300'
+  },
+  [JobStatus.DELIVERED]: {
+    stage: WorkflowStage.DELIVERED,
+    next: [],
+    guards: REPAIR_GUARDS,
+    invoiceable: true,
+    color: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200'
+  }
+};
+
+export const getStatusColor = (status: JobStatus): string => WORKFLOW[status]?.color || 'bg-gray-100';
+
+export const getStage = (status: JobStatus): WorkflowStage => WORKFLOW[status]?.stage || WorkflowStage.RECEPTION;
+
+export const isInvoiceable = (status: JobStatus): boolean => !!WORKFLOW[status]?.invoiceable;
+
+// Why the job (in its current status) cannot move to `to`, or null if allowed
+export const checkTransition = (job: Job, to: JobStatus): string | null => {
+  const state = WORKFLOW[job.status];
+  if (!state || !state.next.includes(to)) {
+    return `No se puede pasar de "${job.status}" a "${to}".`;
+  }
+  for (const guard of WORKFLOW[to].guards || []) {
+    const reason = guard(job);
+    if (reason) return reason;
+  }
+  return null;
+};
+
+export const getAllowedTransitions = (job: Job): JobStatus[] => {
+  return WORKFLOW[job.status]?.next.filter(to => checkTransition(job, to) === null) || [];
+};
+
+// Moves the job to `to` and records the change, throws if the workflow does not allow it
+export const transitionJob = (job: Job, to: JobStatus, by?: string): Job => {
+  const reason = checkTransition(job, to);
+  if (reason) throw new Error(reason);
+  const change: StatusChange = { from: job.status, to, at: Date.now(), by };
+  return { ...job, status: to, statusHistory: [...(job.statusHistory || []), change] };
+};
+
+export const createStatusHistory = (status: JobStatus, at: number, by?: string): StatusChange[] => {
+  return [{ to: status, at, by }];
+};
+
+// Last time the job entered a status (undefined if never recorded)
+export const getStatusEnteredAt = (job: Job, status: JobStatus): number | undefined => {
+  const history = job.statusHistory || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].to === status) return history[i].at;
+  }
+  return undefined;
+};
@@ -0,0 +1,67 @@
+import { AppSettings, Invoice, Job, JobStatus, UserProfile, UserRole, Workshop, WorkshopSettings } from '../types';
+import { WorkflowStage, getStage } from './workflowService';
+import { isDeleted } from './archiveService';
+
+// --- WORKSHOPS ---
+// A group can run several locations from one cloud project. Each workshop has its own jobs, registries,
+// invoices and settings; users only see the workshops they are assigned to.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WORKSHOP_SETTING_KEYS: (keyof WorkshopSettings)[] = ['laborRates', 'workshopFiscal', 'invoiceSeries', 'branding'];
+
+export const pickWorkshopSettings = (settings: AppSettings): WorkshopSettings => {
+  return Object.fromEntries(WORKSHOP_SETTING_KEYS.filter(key => settings[key] !== undefined).map(key => [key, settings[key]]));
+};
+
+// Settings of this device with the workshop's ones taking over the workshop keys
+export const applyWorkshopSettings = (settings: AppSettings, workshop: Workshop): AppSettings => {
+  const deviceOnly = Object.fromEntries(Object.entries(settings).filter(([key]) => !WORKSHOP_SETTING_KEYS.includes(key as keyof WorkshopSettings)));
+  return { ...deviceOnly, ...workshop.settings };
+};
+
+export const canAccessWorkshop = (user: UserProfile, workshopId: string): boolean => {
+  return user.role === UserRole.ADMIN || !!user.workshopIds?.includes(workshopId);
+};
+
+export const getAccessibleWorkshops = (workshops: Workshop[], user: UserProfile): Workshop[] => {
+  return workshops.filter(w => canAccessWorkshop(user, w.id)).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// --- GROUP REPORT ---
+
+export interface WorkshopSummary {
+  activeJobs: number; // Not delivered yet
+  inWorkshop: number;
+  awaitingDelivery: number; // Finished, waiting for the customer
+  deliveredLast30Days: number;
+  averageStayDays: number | null; // Intake to delivery, over the jobs delivered in the last 30 days
+  invoicedThisMonth: number; // Total with IVA, rectifying invoices included (they are negative)
+}
+
+const getDeliveredAt = (job: Job): number | undefined => {
+  return job.statusHistory?.slice().reverse().find(change => change.to === JobStatus.DELIVERED)?.at;
+};
+
+export const summarizeWorkshop = (jobs: Job[], invoices: Invoice[], now: number = Date.now()): WorkshopSummary => {
+  const live = jobs.filter(job => !isDeleted(job));
+  const stageCount = (stage: WorkflowStage) => live.filter(job => getStage(job.status) === stage).length;
+
+  const delivered = live
+    .map(job => ({ job, at: getDeliveredAt(job) }))
+    .filter(({ job, at }) => job.status === JobStatus.DELIVERED && at !== undefined && now - at <= 30 * DAY_MS);
+  const stays = delivered.map(({ job, at }) => (at! - job.createdAt) / DAY_MS);
+
+  const monthStart = new Date(now);
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+
+  return {
+    activeJobs: live.filter(job => getStage(job.status) !== WorkflowStage.DELIVERED).length,
+    inWorkshop: stageCount(WorkflowStage.WORKSHOP),
+    awaitingDelivery: stageCount(WorkflowStage.FINISHED),
+    deliveredLast30Days: delivered.length,
+    averageStayDays: stays.length > 0 ? stays.reduce((sum, days) => sum + days, 0) / stays.length : null,
+    invoicedThisMonth: invoices.filter(i => i.issuedAt >= monthStart.getTime()).reduce((sum, i) => sum + i.total, 0)
+  };
+};
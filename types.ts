@@ -1,8 +1,24 @@
+// Declared in workflow order (see services/workflowService.ts for the allowed transitions)
 export enum JobStatus {
   INTAKE = 'Ingreso',
   ASSESSING = 'Valoración',
-  IN_PROGRESS = 'En Proceso',
-  COMPLETED = 'Terminado'
+  AWAITING_PERITO = 'Pendiente de perito',
+  AWAITING_PARTS = 'Esperando recambios',
+  IN_PROGRESS = 'En Proceso', // Bodywork (chapa)
+  PREPARATION = 'Preparación',
+  PAINT_BOOTH = 'Cabina de pintura',
+  ASSEMBLY = 'Montaje',
+  QUALITY_CONTROL = 'Control de calidad',
+  COMPLETED = 'Terminado',
+  READY_FOR_DELIVERY = 'Listo para entrega',
+  DELIVERED = 'Entregado'
+}
+
+export interface StatusChange {
+  from?: JobStatus; // Undefined for the initial status
+  to: JobStatus;
+  at: number;
+  by?: string; // Operator name from settings
 }
 
 export interface CarDetails {
@@ -11,24 +27,387 @@ export interface CarDetails {
   model: string;
   year?: string;
   color?: string;
+  vin?: string;
+  paintCode?: string;
+}
+
+// Edit times of a registry record (customer, vehicle, insurer, technician), merged field by field like jobs
+export interface RecordStamps {
+  updatedAt?: number;
+  fieldUpdatedAt?: Record<string, number>;
+  syncedAt?: number; // Local only: when this record was last in step with the cloud. Never uploaded.
+}
+
+// Registry entry, one per physical car. `plate` is always stored normalized (see normalizePlate).
+export interface Vehicle extends CarDetails, RecordStamps {
+  createdAt: number;
+  updatedAt: number;
+}
+
+export enum PartPosition {
+  FRONT = 'Delantero',
+  FRONT_LEFT = 'Delantero izquierdo',
+  FRONT_RIGHT = 'Delantero derecho',
+  LEFT = 'Lateral izquierdo',
+  RIGHT = 'Lateral derecho',
+  REAR = 'Trasero',
+  REAR_LEFT = 'Trasero izquierdo',
+  REAR_RIGHT = 'Trasero derecho',
+  ROOF = 'Techo'
+}
+
+export enum DamageType {
+  DENT = 'Abolladura',
+  SCRATCH = 'Arañazo',
+  BREAK = 'Rotura',
+  CRACK = 'Grieta',
+  DEFORMATION = 'Deformación',
+  CHIP = 'Desconchado'
+}
+
+export enum DamageSeverity {
+  LOW = 'Leve',
+  MEDIUM = 'Moderado',
+  HIGH = 'Grave'
+}
+
+export enum RepairAction {
+  REPAIR = 'Reparar',
+  REPLACE = 'Sustituir',
+  PAINT = 'Pintar',
+  REMOVE_REFIT = 'Desmontar/Montar'
 }
 
 export interface DamagePart {
+  id: string;
   name: string;
-  confidence: number;
+  position?: PartPosition;
+  damageType?: DamageType;
+  severity?: DamageSeverity;
+  action?: RepairAction;
+  confidence?: number; // 0-1, only for AI-detected parts
   description?: string;
+  imageIndex?: number; // Index in Job.damageImages of the photo the part was detected on
+}
+
+// Parts as returned by the damage analysis (no id / photo reference yet, the caller assigns those)
+export type AnalyzedPart = Omit<DamagePart, 'id' | 'imageIndex'>;
+
+export interface DamageAnalysisResult {
+  detectedParts: AnalyzedPart[];
+  assessment?: string;
+}
+
+export interface AssistantReply {
+  text: string;
+  sources: { uri: string; title: string }[]; // Web pages the answer is grounded on, when searching
+}
+
+export interface Customer extends RecordStamps {
+  id: string;
+  createdAt: number;
+  name: string;
+  phone?: string;
+  email?: string;
+  nif?: string; // NIF / DNI / NIE
+  address?: string;
+}
+
+export type RepairType = 'CHAPA' | 'PINTURA' | 'AMBOS';
+
+export enum EstimateLineType {
+  BODY_LABOR = 'Mano de obra chapa',
+  PAINT_LABOR = 'Mano de obra pintura',
+  PAINT_MATERIAL = 'Material de pintura',
+  PART = 'Recambio',
+  OTHER = 'Otros'
+}
+
+export enum EstimateStatus {
+  DRAFT = 'Borrador',
+  ACCEPTED = 'Aceptado',
+  REJECTED = 'Rechazado'
+}
+
+export interface EstimateLine {
+  id: string;
+  type: EstimateLineType;
+  description: string;
+  quantity: number; // Hours for labor lines, units otherwise
+  unitPrice: number; // EUR, without IVA
+  discount?: number; // Percentage 0-100
+  partId?: string; // DamagePart.id this line was generated from
+}
+
+// A presupuesto. Jobs keep every version; a supplement creates version + 1.
+export interface Estimate {
+  id: string;
+  version: number;
+  createdAt: number;
+  status: EstimateStatus;
+  decidedAt?: number; // When it was accepted or rejected
+  ivaRate: number; // 0.21
+  lines: EstimateLine[];
+  notes?: string;
+}
+
+export interface LaborRate {
+  bodyHour: number; // EUR/h chapa
+  paintHour: number; // EUR/h pintura
+  paintMaterialPerHour: number; // EUR of paint material per painting hour
+}
+
+export enum InvoiceType {
+  ORDINARY = 'Ordinaria',
+  RECTIFYING = 'Rectificativa'
+}
+
+export interface FiscalParty {
+  name: string;
+  nif: string;
+  address?: string;
+}
+
+// Issued invoices are immutable: corrections are made with a rectifying invoice.
+// `hash` chains each invoice to the previous one so later edits can be detected.
+export interface Invoice {
+  id: string;
+  series: string; // e.g. "F2026"
+  number: number; // Gapless within the series
+  fullNumber: string; // e.g. "F2026-0001"
+  type: InvoiceType;
+  issuedAt: number;
+  jobId: string;
+  estimateId?: string;
+  issuer: FiscalParty;
+  customer: FiscalParty;
+  lines: EstimateLine[]; // Snapshot, negative quantities on rectifying invoices
+  base: number;
+  ivaRate: number;
+  iva: number;
+  total: number;
+  rectifiesInvoiceId?: string;
+  rectifiesInvoiceNumber?: string;
+  rectificationReason?: string;
+  previousHash: string;
+  hash: string;
+  syncedAt?: number; // Local only: when the sync server confirmed it has this invoice. Not hashed, never uploaded.
+}
+
+// Where the invoice chain stands: the next invoice continues from here (services/invoiceService.ts)
+export interface InvoiceChainHead {
+  hash: string; // Hash of the last invoice issued, GENESIS_HASH before the first one
+  lastNumbers: Record<string, number>; // Series -> last number issued
+  lastIssuedAt: number; // The next invoice is issued after it, so chain order never depends on device clocks
+  lastInvoiceId?: string; // Invoice the head points at, so the Firestore rules can check they are written together
+}
+
+export interface InvoiceSeriesSettings {
+  ordinaryPrefix: string; // "F" -> F2026-0001
+  rectifyingPrefix: string; // "R" -> R2026-0001
+}
+
+// Maintained catalogue, jobs reference insurers by id
+export interface Insurer extends RecordStamps {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  active: boolean; // Inactive insurers stay on old jobs but are not offered for new claims
+}
+
+export enum ClaimStatus {
+  PENDING_INSPECTION = 'Pendiente de peritación',
+  INSPECTED = 'Peritado',
+  APPROVED = 'Aprobado',
+  REJECTED = 'Rechazado',
+  PAID = 'Cobrado'
+}
+
+// Siniestro data when the repair is paid by an insurer
+export interface InsuranceClaim {
+  insurerId: string;
+  policyNumber?: string;
+  claimNumber?: string;
+  peritoName?: string;
+  inspectionDate?: string; // YYYY-MM-DD
+  status: ClaimStatus;
+  franchise?: number; // Franquicia (EUR) paid by the customer
+}
+
+export enum TechnicianRole {
+  BODYWORKER = 'Chapista',
+  PAINTER = 'Pintor',
+  PREPARER = 'Preparador'
+}
+
+export interface Technician extends RecordStamps {
+  id: string;
+  name: string;
+  role: TechnicianRole;
+  active: boolean; // Inactive technicians keep their past hours but cannot be assigned
+}
+
+// App accounts (Firebase Authentication). What each role may do is in services/permissionService.ts,
+// and enforced in the cloud by firestore.rules.
+export enum UserRole {
+  RECEPTION = 'Recepción',
+  BODYWORKER = 'Chapista',
+  PAINTER = 'Pintor',
+  MANAGER = 'Jefe de taller',
+  ADMIN = 'Administrador'
+}
+
+// Stored in the `users` collection, keyed by the Firebase Auth uid
+export interface UserProfile {
+  uid: string;
+  email: string;
+  name: string; // Recorded on status changes and in the audit log
+  role: UserRole;
+  active: boolean; // Deactivated users can sign in but not read or write anything
+  workshopIds?: string[]; // Workshops this user works in. Administrators have access to all of them.
+  createdAt: number;
+}
+
+// A location of the group. All its data lives under workshops/{id} in the cloud
+// and in its own local database on each device (services/storageService.ts).
+export interface Workshop {
+  id: string;
+  name: string;
+  settings: WorkshopSettings; // Shared by every device working for this workshop
+  createdAt: number;
+}
+
+export interface WorkshopBranding {
+  displayName?: string; // Printed on PDFs instead of "TallerPro AI"
+  contact?: string; // Phone, email or address line printed under the name on PDFs
+}
+
+export interface TechnicianAssignment {
+  id: string;
+  technicianId: string;
+  task: TechnicianRole; // Kind of work, defaults to the technician's role
+  partId?: string; // Specific DamagePart, whole job if undefined
+  completedAt?: number;
+}
+
+// One clocked interval, pausing closes it and resuming opens a new one
+export interface TimeEntry {
+  id: string;
+  assignmentId: string;
+  start: number;
+  end?: number; // Undefined while the timer is running
+}
+
+// Photo stored as a Firebase Storage object at jobs/{jobId}/{id}.jpg
+export interface ImageRef {
+  id: string; // Content hash, the same photo is uploaded only once
+  thumbnail: string; // Small base64 JPEG kept in the job document
 }
 
 export interface Job {
+  schemaVersion?: number; // Stamped when persisted, see services/schemaService.ts
   id: string;
   createdAt: number;
+  updatedAt?: number; // Last local or remote edit
+  revision?: number; // Incremented on every edit
+  fieldUpdatedAt?: Partial<Record<keyof Job, number>>; // Per-field edit times, used to merge concurrent edits (services/revisionService.ts)
+  syncedAt?: number; // Local only: when this job was last in step with the cloud. Never uploaded.
   status: JobStatus;
+  statusHistory?: StatusChange[]; // Oldest first
+  customerId?: string; // Reference to Customer.id (customers live in their own collection)
   carDetails?: CarDetails;
-  intakeImage?: string; // Base64
-  damageImages?: string[]; // Base64
-  identifiedParts: string[];
+  intakeImage?: string; // Base64. Until downloaded, the thumbnail of intakeImageRef
+  damageImages?: string[]; // Base64, same placeholder rule as intakeImage
+  intakeImageRef?: ImageRef; // Cloud copy of intakeImage (services/cloudImageService.ts)
+  damageImageRefs?: ImageRef[]; // Same order as damageImages
+  identifiedParts: DamagePart[];
   manualNotes: string;
-  repairType: 'CHAPA' | 'PINTURA' | 'AMBOS';
+  repairType: RepairType;
+  estimates?: Estimate[];
+  claim?: InsuranceClaim;
+  assignments?: TechnicianAssignment[];
+  timeEntries?: TimeEntry[];
+  archivedAt?: number; // Delivered job hidden from the day-to-day views
+  deletedAt?: number; // Tombstone: in the trash, purged after the retention period (services/archiveService.ts)
+}
+
+export enum AuditAction {
+  CREATED = 'Alta',
+  FIELD_CHANGED = 'Cambio',
+  PHOTO_ADDED = 'Foto añadida',
+  PHOTO_REMOVED = 'Foto eliminada',
+  PHOTO_EDITED = 'Foto editada',
+  PART_ADDED = 'Pieza añadida',
+  PART_REMOVED = 'Pieza eliminada',
+  ARCHIVED = 'Archivado',
+  UNARCHIVED = 'Desarchivado',
+  DELETED = 'Enviado a la papelera',
+  RESTORED = 'Restaurado de la papelera'
+}
+
+// Append-only record of a change to a job, never edited once written
+export interface AuditEntry {
+  id: string;
+  jobId: string;
+  at: number;
+  by?: string;
+  action: AuditAction;
+  field?: string; // Human readable field label
+  from?: string;
+  to?: string;
+  aiGenerated?: boolean; // Part proposed by the damage analysis
+  syncedAt?: number; // Local only: when the sync server confirmed it has this entry. Never uploaded.
+}
+
+// A stored record that could not be upgraded or failed validation, kept aside instead of being dropped
+export interface QuarantinedRecord {
+  id: string; // `${source}:${kind}:${recordId}` so the same bad record is only kept once
+  kind: 'job' | 'settings';
+  source: 'local' | 'firebase' | 'sheets' | 'rest' | 'backup';
+  recordId?: string;
+  reasons: string[];
+  raw: unknown;
+  at: number;
+}
+
+// Outcome of a sync round against any backend
+export interface SyncResult {
+  data: AppData;
+  failed: Record<string, string>; // Records that could not be uploaded, by outbox id (`${collection}:${recordId}`) -> reason
+}
+
+// A local change waiting to reach the cloud, persisted so it survives reloads (services/outboxService.ts)
+export interface OutboxEntry {
+  id: string; // `${collection}:${recordId}`, one entry per record however many times it is edited
+  collection: keyof AppData;
+  recordId: string; // Vehicle plate, job id for audit entries, id otherwise
+  label: string; // Shown in the pending changes panel
+  queuedAt: number;
+  attempts: number; // Failed uploads so far
+  lastAttemptAt?: number;
+  lastError?: string;
+}
+
+// Everything the app persists locally and syncs, grouped so sync can handle it as one unit
+export interface AppData {
+  jobs: Job[];
+  customers: Customer[];
+  vehicles: Vehicle[];
+  invoices: Invoice[];
+  insurers: Insurer[];
+  auditLog: AuditEntry[];
+  technicians: Technician[];
+}
+
+// Portable export of everything stored locally, photos at original resolution
+export interface BackupArchive {
+  format: 'tallerpro-backup';
+  version: number;
+  createdAt: number;
+  jobSchemaVersion: number;
+  data: AppData;
+  settings: AppSettings; // Without credentials
 }
 
 export interface ChatMessage {
@@ -46,13 +425,58 @@ export interface FirebaseConfig {
   storageBucket?: string;
   messagingSenderId?: string;
   appId: string;
+  emulators?: { firestore?: string; storage?: string; auth?: string }; // "host:port", for local testing against the Firebase emulators
 }
 
 export interface AppSettings {
-  // We replace specific Sheet fields with a generic firebase config object
-  firebaseConfig?: FirebaseConfig; 
-  // Keep these for backward compatibility if needed, or remove. 
-  // For this update, we assume we are moving fully to Firebase.
-  googleSheetId?: string; 
+  schemaVersion?: number;
+  syncBackend?: SyncBackendKind; // Primary cloud, see services/syncBackendService.ts. Firebase when unset and configured.
+  mirrorBackend?: SyncBackendKind; // Read-only copy written after each sync, never read back (e.g. Sheets for the gestoría)
+  firebaseConfig?: FirebaseConfig;
+  googleSheetId?: string;
   googleAccessToken?: string;
+  restServer?: RestServerConfig;
+  aiProvider?: AiProviderKind; // See services/aiProviderService.ts. Gemini (through the proxy) when unset.
+  aiProxy?: AiProxyConfig;
+  openAiCompatible?: OpenAiCompatibleConfig;
+  laborRates?: Partial<Record<RepairType, LaborRate>>;
+  workshopFiscal?: FiscalParty; // Invoice issuer data
+  invoiceSeries?: InvoiceSeriesSettings;
+  operatorName?: string; // Recorded on status changes when there are no user accounts (no cloud configured)
+  branding?: WorkshopBranding;
+  workshopId?: string; // Workshop this device is working for (cloud only)
+  adoptedWorkshopId?: string; // First workshop chosen on this device: it took over the data stored before workshops existed
+  autoBackup?: AutoBackupSettings;
+}
+
+export type SyncBackendKind = 'firebase' | 'sheets' | 'rest';
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Any server speaking the OpenAI chat completions API, e.g. a vision model hosted on the workshop PC
+export interface OpenAiCompatibleConfig {
+  url: string; // Base URL up to /v1, e.g. http://localhost:11434/v1
+  model: string; // Must accept images for car identification and damage analysis
+  apiKey?: string; // Only if the server asks for one: it is stored on this device in clear
+}
+
+// AI proxy holding the Gemini key (server/ai.js)
+export interface AiProxyConfig {
+  url?: string; // Same origin as the app when empty (Vite forwards /api/v1/ai in development)
+  key: string; // Per-user key issued with `node server/ai.js add-user`
+}
+
+// Self-hosted sync server (server/, API in README)
+export interface RestServerConfig {
+  url: string; // e.g. http://192.168.1.20:8787
+  token: string;
+}
+
+// Settings that belong to the workshop rather than the device: synced on the workshop document
+export type WorkshopSettings = Pick<AppSettings, 'laborRates' | 'workshopFiscal' | 'invoiceSeries' | 'branding'>;
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  intervalHours: number;
+  retention: number; // Local copies kept, oldest are deleted first
 }
\ No newline at end of file
@@ -8,8 +8,10 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: false
   },
-  define: {
-    // This handles the process.env.API_KEY variable safely in the client
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+  server: {
+    // The Gemini key stays in the AI proxy (server/ai.js), never in the bundle
+    proxy: {
+      '/api/v1/ai': process.env.AI_PROXY_URL || 'http://localhost:8788'
+    }
   }
-});
\ No newline at end of file
+});